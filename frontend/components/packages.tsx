@@ -25,7 +25,12 @@ function formatDate(dateStr: string): string {
   }).format(date);
 }
 
-/** Group packages by name (across all repos/distributions). */
+/**
+ * Group packages by name (across all repos/distributions).  Expects the
+ * server's `sort=version` order, so each group is newest Debian version
+ * first — not latest upload, which is wrong after an older version is
+ * re-uploaded.
+ */
 function groupPackages(packages: PackageMetadata[]): Map<string, PackageMetadata[]> {
   const groups = new Map<string, PackageMetadata[]>();
   for (const pkg of packages) {
@@ -34,10 +39,6 @@ function groupPackages(packages: PackageMetadata[]): Map<string, PackageMetadata
     list.push(pkg);
     groups.set(key, list);
   }
-  // Sort versions within each group (newest first by uploadedAt)
-  for (const [, list] of groups) {
-    list.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
-  }
   return groups;
 }
 
@@ -56,11 +57,12 @@ export function Packages() {
   const { data, mutate } = useSWR(
     apiKey ? ["packages-list", apiKey, filters] : null,
     () =>
-      api?.listPackages(
-        Object.fromEntries(
+      api?.listPackages({
+        ...Object.fromEntries(
           Object.entries(filters).filter(([, v]) => v !== "")
-        )
-      ),
+        ),
+        sort: "version",
+      }),
     { refreshInterval: 5000 }
   );
 
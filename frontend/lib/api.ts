@@ -79,6 +79,7 @@ export class PositoryAPI {
     architecture?: string;
     name?: string;
     version?: string;
+    sort?: "version";
   }): Promise<{ packages: PackageMetadata[] }> {
     const params = new URLSearchParams();
     if (filters) {
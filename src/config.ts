@@ -1,13 +1,85 @@
+import { IndexCompression } from "./utils/compression.js";
+
 export interface TlsConfig {
   enabled: boolean;
   cert?: string;
   key?: string;
 }
 
+// Automatic pruning of old versions, per repo/distribution/component/
+// architecture/package.  The newest version of a package is always kept.
 export interface RetentionConfig {
   enabled: boolean;
-  keepLastN?: number;
-  maxAgeDays?: number;
+  keepLastN?: number;             // Keep this many newest versions, in Debian version order
+  maxAgeDays?: number;            // Prune versions uploaded longer ago than this
+  protectedVersions?: string[];   // "name" (every version) or "name=version"; never pruned
+  intervalHours?: number;         // How often the scheduled run prunes; defaults to 24, at most 596
+}
+
+export interface SigningConfig {
+  enabled: boolean;
+  keyDir: string;      // Generated per-repo signing keys are stored here (mode 0600)
+}
+
+// Fields of the apt Release file.  Set per repo under `release`, and
+// overridden per distribution under `distributions.<name>.release`.
+export interface ReleaseConfig {
+  origin?: string;                // Defaults to "Pository"; apt pins match it with o=
+  label?: string;                 // Defaults to "Pository"; apt pins match it with l=
+  codename?: string;              // Defaults to pository-<repo>-<distribution>
+  version?: string;               // Release Version, e.g. "12.4"
+  description?: string;
+  validForDays?: number;          // Emit Valid-Until this long after Date (replay protection)
+  notAutomatic?: boolean;         // Backports-style: apt installs only when asked to
+  butAutomaticUpgrades?: boolean; // With notAutomatic: still upgrade what came from here
+}
+
+// Upload-time check that a package's Depends and Pre-Depends can be met by
+// the packages of its target distribution.  Set per repo under
+// `dependencyCheck`, overridden per distribution.
+export interface DependencyCheckConfig {
+  mode?: "off" | "warn" | "reject"; // Defaults to "off"
+  external?: string[];            // Packages apt gets from elsewhere, e.g. Debian: "libc6", "python3-*"
+}
+
+export interface DistributionConfig {
+  release?: ReleaseConfig;
+  architectures?: string[];       // Published arches, incl. foreign ones; uploads for others are refused
+  components?: string[];          // Components to publish even before they hold packages
+  dependencyCheck?: DependencyCheckConfig; // Overrides the repo's dependencyCheck fields
+}
+
+// A flat repository (`deb <url>/apt/flat/<repo>/ ./`) serving one
+// component of one distribution
+export interface FlatConfig {
+  distribution: string;
+  component?: string;             // Defaults to "main"
+}
+
+// A pull-through mirror of an upstream archive: the repo's apt routes serve
+// upstream's files, fetched on first request and cached on disk
+export interface RemoteConfig {
+  url: string;                    // Archive root, e.g. https://deb.debian.org/debian
+  suites?: string[];              // Distributions to mirror; any upstream has if unset
+  ttlSeconds?: number;            // How long a fetched Release is served before rechecking; defaults to 300
+  keyring?: string;               // OpenPGP keyring (binary or armored) that must have signed Release
+}
+
+export interface RepoConfig {
+  signingKeyFile?: string;        // Armored private key to sign with instead of a generated one
+  signingKeyPassphrase?: string;  // Passphrase for signingKeyFile, if it is protected
+  compressions?: IndexCompression[]; // Compressed Packages variants to serve next to the plain file
+  byHashGraceHours?: number;      // How long superseded indexes stay fetchable by hash
+  translations?: boolean;         // Move long descriptions from Packages into i18n/Translation-en
+  private?: boolean;              // apt routes require HTTP Basic auth (key id / API key) with read scope
+  indexCacheControl?: string;     // Cache-Control for Release, indexes and keys
+  poolCacheControl?: string;      // Cache-Control for pool files and by-hash indexes
+  release?: ReleaseConfig;        // Release fields for every distribution of the repo
+  distributions?: Record<string, DistributionConfig>; // Per-distribution settings, keyed by name
+  dependencyCheck?: DependencyCheckConfig; // Check uploads' dependencies in every distribution
+  flat?: FlatConfig;              // Also serve this repo as a flat repository
+  remote?: RemoteConfig;          // Mirror an upstream archive instead of serving uploads
+  retention?: Partial<Omit<RetentionConfig, "intervalHours">>; // Overrides the global retention policy
 }
 
 export interface Config {
@@ -17,7 +89,10 @@ export interface Config {
   bindAddress: string;
   tls: TlsConfig;
   retention: RetentionConfig;
+  signing: SigningConfig;
+  repos: Record<string, RepoConfig>;             // Per-repo settings, keyed by repo name
   maxUploadSize: number;
+  rateLimitPerMinute: number;                     // Requests per API key or IP
   allowedRepos: string[];
   corsOrigins: string[];
   adminKey?: string;
@@ -29,6 +104,17 @@ export interface Config {
   oidcOverrides?: Record<string, string[]>;       // Per-repo package allowlist, e.g. { 'rsxdalv/mono-repo': ['svc-a', 'svc-b'] }
 }
 
+// Applied to every repo; entries under `repos` override individual fields
+export const defaultRepoConfig: RepoConfig = {
+  compressions: ["gz", "xz"],
+  byHashGraceHours: 24,
+  // No "public": shared caches then skip responses to authenticated
+  // requests, which keeps private repos out of them
+  indexCacheControl: "max-age=60",
+  // Not immutable: re-uploading a version replaces its pool file in place
+  poolCacheControl: "max-age=86400",
+};
+
 export const defaultConfig: Config = {
   dataRoot: "/var/lib/pository",
   logPath: "/var/log/pository",
@@ -39,8 +125,15 @@ export const defaultConfig: Config = {
   },
   retention: {
     enabled: false,
+    intervalHours: 24,
+  },
+  signing: {
+    enabled: false,
+    keyDir: "/var/lib/pository-keys",
   },
+  repos: {},
   maxUploadSize: 100 * 1024 * 1024, // 100MB
+  rateLimitPerMinute: 100,
   allowedRepos: ["default"],
   corsOrigins: [],
   apiKeysPath: "/etc/pository/api-keys.json",
@@ -0,0 +1,70 @@
+/**
+ * Static export from the command line, for publishing a repo to a plain
+ * web server or rsync target:
+ *
+ *   npm run export -- <config.yaml> <dir> [--repo R] [--copy]
+ *
+ * Writes the repo's dists/ and pool/ to <dir>, hard-linking pool files
+ * unless --copy is given (or <dir> is on another filesystem).  Re-running
+ * only rewrites what changed.  Signatures are made with the same keys as
+ * the server's but will differ byte-wise from the ones it serves; use POST
+ * /api/v1/export for an export that matches the running server exactly.
+ */
+
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { loadConfig, getRepoConfig } from "./utils/config-loader.js";
+import { StorageService } from "./services/storage.js";
+import { AptIndexService } from "./services/apt-index.js";
+import { SigningService } from "./services/signing.js";
+import { ExportService } from "./services/exporter.js";
+import { isSafeName } from "./services/debian-validator.js";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      repo: { type: "string", default: "default" },
+      copy: { type: "boolean", default: false },
+    },
+  });
+  const [configPath, dir] = positionals;
+  if (!configPath || !dir) {
+    console.error("Usage: npm run export -- <config.yaml> <dir> [--repo R] [--copy]");
+    process.exit(2);
+  }
+
+  const dest = path.resolve(dir);
+  const { repo, copy } = values;
+  if (!isSafeName(repo)) {
+    throw new Error("Invalid repo");
+  }
+
+  const config = loadConfig(configPath);
+  if (getRepoConfig(config, repo).remote) {
+    throw new Error(`Repo ${repo} mirrors a remote archive`);
+  }
+  const storage = new StorageService(config.dataRoot);
+  const aptIndex = new AptIndexService(storage, config);
+  const signing = config.signing.enabled
+    ? new SigningService(config.signing.keyDir, config.repos)
+    : null;
+  const exporter = new ExportService(storage, aptIndex, signing, config);
+
+  if (exporter.listDistributions(repo).length === 0) {
+    throw new Error(`Repo ${repo} has no distributions`);
+  }
+  if (!exporter.canExportTo(repo, dest)) {
+    throw new Error(`${dest} is not empty and not an export of ${repo}`);
+  }
+
+  const report = await exporter.exportRepo(repo, dest, { copy });
+  console.log(
+    `${report.written.length} written, ${report.unchanged} unchanged, ${report.removed.length} removed`
+  );
+}
+
+main().catch((err) => {
+  console.error("Export failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
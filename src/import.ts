@@ -0,0 +1,74 @@
+/**
+ * Bulk import from the command line, for migrating an existing apt
+ * repository without going through the API:
+ *
+ *   npm run import -- <config.yaml> <dir> [--repo R] [--distribution D]
+ *                     [--component C] [--dry-run]
+ *
+ * <dir> is a `dists/` + `pool/` tree or a directory of .deb files.  Writes
+ * straight to dataRoot, so stop the service first (or use POST
+ * /api/v1/import while it runs); it keeps each repo's index in memory.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { loadConfig, getRepoConfig } from "./utils/config-loader.js";
+import { StorageService } from "./services/storage.js";
+import { SnapshotService } from "./services/snapshots.js";
+import { ImportService } from "./services/importer.js";
+import { isSafeName } from "./services/debian-validator.js";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      repo: { type: "string", default: "default" },
+      distribution: { type: "string" },
+      component: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  const [configPath, dir] = positionals;
+  if (!configPath || !dir) {
+    console.error(
+      "Usage: npm run import -- <config.yaml> <dir> [--repo R] [--distribution D] [--component C] [--dry-run]"
+    );
+    process.exit(2);
+  }
+
+  const root = path.resolve(dir);
+  const { repo, distribution, component } = values;
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`${root} is not a directory`);
+  }
+  if ([repo, distribution, component].some((name) => name !== undefined && !isSafeName(name))) {
+    throw new Error("Invalid repo, distribution or component");
+  }
+
+  const config = loadConfig(configPath);
+  if (getRepoConfig(config, repo).remote) {
+    throw new Error(`Repo ${repo} mirrors a remote archive`);
+  }
+  const storage = new StorageService(config.dataRoot);
+  const importer = new ImportService(storage, new SnapshotService(config.dataRoot, storage), config);
+
+  const dryRun = values["dry-run"];
+  const report = await importer.importTree(root, { repo, distribution, component, dryRun }, "import");
+
+  for (const { file, location: loc, reason } of report.conflicts) {
+    const where = loc
+      ? ` (${[loc.distribution, loc.component, loc.architecture, loc.name, loc.version].join("/")})`
+      : "";
+    console.log(`conflict: ${file}${where}: ${reason}`);
+  }
+  console.log(
+    `${report.imported.length} ${dryRun ? "to import" : "imported"}, ` +
+      `${report.unchanged.length} already stored, ${report.conflicts.length} conflicts`
+  );
+}
+
+main().catch((err) => {
+  console.error("Import failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
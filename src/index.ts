@@ -6,11 +6,23 @@ import { loadConfig } from "./utils/config-loader.js";
 import { Logger } from "./utils/logger.js";
 import { ApiKeyService } from "./services/api-keys.js";
 import { StorageService } from "./services/storage.js";
+import { SigningService } from "./services/signing.js";
+import { AptIndexService } from "./services/apt-index.js";
+import { SnapshotService } from "./services/snapshots.js";
+import { RemoteRepoService } from "./services/remote.js";
+import { ImportService } from "./services/importer.js";
+import { ExportService } from "./services/exporter.js";
+import { RetentionService } from "./services/retention.js";
 import { createAuthMiddleware } from "./middleware/auth.js";
 import { registerPackageRoutes } from "./routes/packages.js";
 import { registerKeyRoutes } from "./routes/keys.js";
 import { registerHealthRoutes, trackRequest } from "./routes/health.js";
 import { registerAptRoutes } from "./routes/apt.js";
+import { registerDebuginfodRoutes } from "./routes/debuginfod.js";
+import { registerSnapshotRoutes } from "./routes/snapshots.js";
+import { registerImportRoutes } from "./routes/import.js";
+import { registerExportRoutes } from "./routes/export.js";
+import { registerRetentionRoutes } from "./routes/retention.js";
 import fs from "node:fs";
 
 async function main() {
@@ -23,11 +35,22 @@ async function main() {
   // Initialize services
   const apiKeyService = new ApiKeyService(config.apiKeysPath, config.adminKey);
   const storage = new StorageService(config.dataRoot);
+  const aptIndex = new AptIndexService(storage, config);
+  const snapshots = new SnapshotService(config.dataRoot, storage);
+  const remote = new RemoteRepoService(config, logger);
+  const importer = new ImportService(storage, snapshots, config);
+  const signing = config.signing.enabled
+    ? new SigningService(config.signing.keyDir, config.repos)
+    : null;
+  const exporter = new ExportService(storage, aptIndex, signing, config);
+  const retention = new RetentionService(storage, snapshots, logger, config);
 
   // Create Fastify instance
   const fastifyOpts: Record<string, unknown> = {
     logger: false, // We use our own logger
     bodyLimit: config.maxUploadSize,
+    // Long enough for a SHA512 by-hash path segment (128 hex digits)
+    maxParamLength: 256,
   };
 
   // Configure TLS if enabled
@@ -61,7 +84,7 @@ async function main() {
 
   // Register rate limiting
   await app.register(rateLimit, {
-    max: 100, // 100 requests per minute
+    max: config.rateLimitPerMinute,
     timeWindow: "1 minute",
     keyGenerator: (request) => {
       // Use API key ID if authenticated, otherwise use IP
@@ -102,12 +125,14 @@ async function main() {
   // Register auth middleware for API routes
   const authMiddleware = createAuthMiddleware(apiKeyService, config);
   app.addHook("preHandler", async (request, reply) => {
-    // Skip auth for health endpoints and public apt repository routes
+    // Skip auth for health endpoints and the apt and debuginfod routes,
+    // which check HTTP Basic credentials themselves for private repos
     if (
       request.url === "/healthz" ||
       request.url === "/readyz" ||
       request.url === "/metrics" ||
-      request.url.startsWith("/apt/")
+      request.url.startsWith("/apt/") ||
+      request.url.startsWith("/buildid/")
     ) {
       return;
     }
@@ -117,14 +142,20 @@ async function main() {
 
   // Register routes
   registerHealthRoutes(app, storage);
-  registerPackageRoutes(app, storage, apiKeyService, logger, config);
+  registerPackageRoutes(app, storage, snapshots, apiKeyService, logger, config);
   registerKeyRoutes(app, apiKeyService, logger);
-  registerAptRoutes(app, storage, config.dataRoot);
+  registerSnapshotRoutes(app, storage, snapshots, apiKeyService, logger);
+  registerImportRoutes(app, importer, apiKeyService, logger, config);
+  registerExportRoutes(app, exporter, apiKeyService, logger, config);
+  registerRetentionRoutes(app, retention, apiKeyService, logger);
+  registerAptRoutes(app, storage, aptIndex, snapshots, remote, apiKeyService, config, signing);
+  registerDebuginfodRoutes(app, storage, apiKeyService, config);
 
   // Start server
   try {
     await app.listen({ port: config.port, host: config.bindAddress });
     logger.info(`Server listening on ${config.bindAddress}:${config.port}`);
+    retention.start();
   } catch (err) {
     logger.error("Failed to start server", { error: String(err) });
     process.exit(1);
@@ -133,7 +164,9 @@ async function main() {
   // Graceful shutdown
   const shutdown = async () => {
     logger.info("Shutting down...");
+    retention.stop();
     await app.close();
+    apiKeyService.flush();
     logger.close();
     process.exit(0);
   };
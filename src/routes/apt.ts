@@ -1,12 +1,29 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { StorageService, PackageMetadata } from "../services/storage.js";
+import { SnapshotService, Snapshot } from "../services/snapshots.js";
+import { RemoteRepoService, RemoteFile } from "../services/remote.js";
+import { SigningService } from "../services/signing.js";
+import { ApiKeyService } from "../services/api-keys.js";
+import { AptIndexService, DistributionIndex } from "../services/apt-index.js";
+import { isByHashAlgorithm } from "../services/by-hash.js";
+import { Config } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { sanitizePath, isSafeName } from "../services/debian-validator.js";
+import { INDEX_COMPRESSIONS, IndexCompression } from "../utils/compression.js";
+import { poolFiles } from "../utils/pool.js";
+import { CacheHeaders, sendCached, sendCachedFile } from "../utils/http-cache.js";
+import { parseBasicAuth } from "../utils/basic-auth.js";
 import crypto from "node:crypto";
 import path from "node:path";
-import fs from "node:fs";
 
-interface AptRepoParams {
+interface AptKeyParams {
   repo: string;
+}
+
+interface AptRepoParams extends AptKeyParams {
   distribution: string;
+  // Set for routes under snapshots/<name>/dists/
+  snapshot?: string;
 }
 
 interface AptComponentParams extends AptRepoParams {
@@ -14,299 +31,884 @@ interface AptComponentParams extends AptRepoParams {
   arch: string;
 }
 
+interface AptByHashParams extends AptComponentParams {
+  algorithm: string;
+  hash: string;
+}
+
+interface AptTranslationParams extends AptRepoParams {
+  component: string;
+  lang: string;
+}
+
+interface AptSourcesParams extends AptRepoParams {
+  component: string;
+}
+
+interface AptComponentByHashParams extends AptRepoParams {
+  component: string;
+  algorithm: string;
+  hash: string;
+}
+
 interface AptPoolParams {
   repo: string;
-  distribution: string;
-  component: string;
-  arch: string;
-  filename: string;
+  "*": string;
 }
 
-/**
- * Generate the apt-format Packages file content for a given set of packages.
- * Filename paths are relative to the repo base URL.
- */
-function generatePackagesContent(
-  packages: PackageMetadata[],
-  dataRoot: string
-): string {
-  const entries: string[] = [];
-
-  for (const pkg of packages) {
-    const debPath = path.join(
-      dataRoot,
-      pkg.repo,
-      pkg.distribution,
-      pkg.component,
-      pkg.architecture,
-      pkg.name,
-      pkg.version,
-      "package.deb"
-    );
+interface AptSnapshotPoolParams extends AptPoolParams {
+  snapshot: string;
+}
 
-    // Compute the relative Filename for apt download
-    const aptArch = pkg.architecture === "all" ? "all" : pkg.architecture;
-    const filename = `pool/${pkg.distribution}/${pkg.component}/${aptArch}/${pkg.name}_${pkg.version}_${pkg.architecture}.deb`;
+const DISTS_ROOTS = [
+  "/apt/:repo/dists/:distribution",
+  "/apt/:repo/snapshots/:snapshot/dists/:distribution",
+];
 
-    // Try to read MD5 from the stored file
-    let md5 = "";
-    try {
-      const buf = fs.readFileSync(debPath);
-      md5 = crypto.createHash("md5").update(buf).digest("hex");
-    } catch {
-      // skip MD5 if file unreadable
+const compressionMimeTypes: Record<IndexCompression, string> = {
+  gz: "application/gzip",
+  xz: "application/x-xz",
+  zst: "application/zstd",
+};
+
+export function registerAptRoutes(
+  app: FastifyInstance,
+  storage: StorageService,
+  aptIndex: AptIndexService,
+  snapshots: SnapshotService,
+  remote: RemoteRepoService,
+  apiKeyService: ApiKeyService,
+  config: Config,
+  signing: SigningService | null
+): void {
+  /**
+   * Private repos require HTTP Basic credentials — key id as the username
+   * and the API key as the password, which is what apt sends from
+   * /etc/apt/auth.conf.d — with read permission on the repo (and on the
+   * distribution, for routes under dists/ and the flat view).
+   *
+   * Repo names sanitizePath would alter are refused here, so every apt
+   * route looks up exactly the repo whose access was checked.
+   */
+  async function checkAptAccess(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    distribution?: string
+  ) {
+    if (!isSafeName(repo)) {
+      reply.code(404).send({ error: "Repository not found" });
+      return;
+    }
+    if (!getRepoConfig(config, repo).private) {
+      return;
     }
 
-    const lines = [
-      `Package: ${pkg.name}`,
-      `Version: ${pkg.version}`,
-      `Architecture: ${pkg.architecture}`,
-    ];
-
-    // Emit optional control fields stored at upload time, in the conventional
-    // Packages-file order.
-    if (pkg.maintainer) lines.push(`Maintainer: ${pkg.maintainer}`);
-
-    // Emit Multi-Arch in the Packages index.
-    //
-    // The value emitted here must exactly match what dpkg will record in
-    // /var/lib/dpkg/status when the package is installed.  dpkg copies the
-    // Multi-Arch field from the deb's own control file (or from the Packages
-    // index) verbatim into the status database.
-    //
-    // Rule: only emit Multi-Arch when the deb's control file explicitly
-    // declares it (stored in pkg.multiArch at upload time).  Do NOT synthesise
-    // a Multi-Arch value for any package.  If a synthetic value is added here
-    // but the deb doesn't carry the same field, dpkg will record the synthetic
-    // value in its status the first time the package is installed, and then
-    // subsequent apt runs will see a mismatch between the Packages-file entry
-    // (which no longer has the synthetic value) and the status entry (which
-    // does), causing the package to appear perpetually "upgradeable".
-    if (pkg.multiArch) {
-      lines.push(`Multi-Arch: ${pkg.multiArch}`);
+    const credentials = parseBasicAuth(request.headers.authorization);
+    const keyData = credentials
+      ? await apiKeyService.validateKeyWithId(credentials.username, credentials.password)
+      : null;
+    if (!keyData) {
+      reply
+        .code(401)
+        .header("WWW-Authenticate", `Basic realm="pository ${repo}"`)
+        .send({ error: credentials ? "Invalid credentials" : "Authentication required" });
+      return;
     }
 
-    if (pkg.homepage) lines.push(`Homepage: ${pkg.homepage}`);
-    if (pkg.section) lines.push(`Section: ${pkg.section}`);
-    if (pkg.priority) lines.push(`Priority: ${pkg.priority}`);
-    if (pkg.preDepends) lines.push(`Pre-Depends: ${pkg.preDepends}`);
-    if (pkg.depends) lines.push(`Depends: ${pkg.depends}`);
-    if (pkg.suggests) lines.push(`Suggests: ${pkg.suggests}`);
-    if (pkg.conflicts) lines.push(`Conflicts: ${pkg.conflicts}`);
-    if (pkg.breaks) lines.push(`Breaks: ${pkg.breaks}`);
-    if (pkg.replaces) lines.push(`Replaces: ${pkg.replaces}`);
-    if (pkg.provides) lines.push(`Provides: ${pkg.provides}`);
-
-    // Only emit Installed-Size if the deb's control explicitly declared it.
-    // A synthetic size computed from the download size would diverge from what
-    // dpkg/status stores (which comes from the deb itself), causing a version
-    // hash mismatch in apt and making the package appear perpetually upgradeable.
-    if (pkg.installedSize != null) {
-      lines.push(`Installed-Size: ${pkg.installedSize}`);
+    if (!apiKeyService.hasPermission(keyData, "read", repo, distribution)) {
+      reply.code(403).send({ error: "No permission for this repository" });
+      return;
     }
+    request.apiKey = keyData;
+  }
 
-    lines.push(
-      `Filename: ${filename}`,
-      `Size: ${pkg.size}`,
-      `SHA256: ${pkg.sha256}`,
-    );
+  async function requireAptAccess(
+    request: FastifyRequest<{ Params: AptKeyParams & { distribution?: string } }>,
+    reply: FastifyReply
+  ) {
+    await checkAptAccess(request, reply, request.params.repo, request.params.distribution);
+  }
+
+  // The flat view has no distribution in its URLs; it serves the configured one
+  async function requireFlatAccess(
+    request: FastifyRequest<{ Params: AptKeyParams }>,
+    reply: FastifyReply
+  ) {
+    const { repo } = request.params;
+    await checkAptAccess(request, reply, repo, getRepoConfig(config, repo).flat?.distribution);
+  }
+
+  // Snapshot pool URLs carry no distribution either; check the snapshot's
+  async function requireSnapshotAccess(
+    request: FastifyRequest<{ Params: AptSnapshotPoolParams }>,
+    reply: FastifyReply
+  ) {
+    const { repo, snapshot } = request.params;
+    await checkAptAccess(request, reply, repo, getSnapshot(repo, snapshot)?.distribution);
+  }
 
-    if (md5) {
-      lines.push(`MD5sum: ${md5}`);
+  // Release, InRelease and Release.gpg are all built from the same cached
+  // index, so the signatures always cover exactly what Release serves.
+  function getDistribution(repo: string, distribution: string): DistributionIndex | null {
+    // These names become by-hash paths on disk, so refuse anything that
+    // sanitizePath would have to alter (the repo is checked on access)
+    if (!isSafeName(distribution)) {
+      return null;
     }
+    return aptIndex.getDistribution(repo, distribution);
+  }
 
-    // Use the real description from the control file if available, otherwise
-    // fall back to a minimal synthetic description.
-    // Normalise continuation lines: apt requires exactly one leading space.
-    // dpkg -I may return two spaces (the control file format uses one space but
-    // dpkg's output indents once more for display).
-    const rawDesc = pkg.description ?? `${pkg.name} ${pkg.version}`;
-    const description = rawDesc
-      .split("\n")
-      .map((line, i) =>
-        i === 0 ? line : " " + line.replace(/^\s*/, "")
-      )
-      .join("\n");
-    lines.push(`Description: ${description}`);
-    const descMd5 = crypto.createHash("md5").update(description + "\n").digest("hex");
-    lines.push(`Description-md5: ${descMd5}`);
-
-    entries.push(lines.join("\n"));
+  function getFlat(repo: string): DistributionIndex | null {
+    return aptIndex.getFlat(repo);
   }
 
-  return entries.length > 0 ? entries.join("\n\n") + "\n\n" : "";
-}
+  function getSnapshot(repo: string, name: string): Snapshot | null {
+    return isSafeName(name) ? snapshots.get(repo, name) : null;
+  }
 
-/**
- * Generate a minimal apt Release file listing available components and
- * hashes for every Packages file under this distribution.
- */
-function generateReleaseContent(
-  repo: string,
-  distribution: string,
-  packages: PackageMetadata[],
-  dataRoot: string
-): string {
-  // Collect distinct component/arch pairs
-  const pairs = new Set<string>();
-  for (const pkg of packages) {
-    pairs.add(`${pkg.component}/${pkg.architecture}`);
+  // The dists/ tree a route serves: the distribution's, or a snapshot's
+  // when the URL names one of the distribution's snapshots
+  function getIndex(params: AptRepoParams): DistributionIndex | null {
+    if (params.snapshot === undefined) {
+      return getDistribution(params.repo, params.distribution);
+    }
+    const snapshot = getSnapshot(params.repo, params.snapshot);
+    return snapshot?.distribution === params.distribution ? aptIndex.getSnapshot(snapshot) : null;
   }
 
-  const components = Array.from(new Set(packages.map((p) => p.component)));
+  // Everything but pool files and by-hash indexes can change at any time
+  function indexHeaders(repo: string, content: string | Buffer, lastModified?: Date): CacheHeaders {
+    return {
+      etag: sha256(content),
+      lastModified,
+      cacheControl: getRepoConfig(config, repo).indexCacheControl,
+    };
+  }
 
-  // Build all distinct arch sets: native-arch + "all"
-  const archSet = new Set<string>();
-  for (const pkg of packages) {
-    if (pkg.architecture !== "all") archSet.add(pkg.architecture);
+  // Only repos that are configured or already hold packages get a signing
+  // key; otherwise any URL would mint a new key on disk.
+  function canSign(repo: string): boolean {
+    return (
+      config.allowedRepos.includes(repo) ||
+      storage.listPackages({ repo }).length > 0
+    );
   }
-  archSet.add("amd64"); // always include amd64
-  const architectures = Array.from(archSet);
-
-  const now = new Date().toUTCString();
-
-  const hashLines: string[] = [];
-
-  // For every component × binary arch, generate the Packages content and compute checksums
-  for (const component of components) {
-    // Packages that belong to this component and match the exact arch.
-    // Architecture:all packages are included in each binary-{arch}/Packages file
-    // (same as real Debian/Ubuntu repos) so that apt can merge the installed
-    // dpkg/status record with the repo Packages entry.  Without this, apt keeps
-    // the records separate and reports every arch=all package as "upgradeable"
-    // even when the installed version already matches.
-    for (const arch of architectures) {
-      const pkgsForArch = packages.filter(
-        (p) =>
-          p.component === component &&
-          (p.architecture === arch || p.architecture === "all")
-      );
-      if (pkgsForArch.length === 0) continue;
-
-      const content = generatePackagesContent(pkgsForArch, dataRoot);
-      const buf = Buffer.from(content, "utf-8");
-      const sha256 = crypto.createHash("sha256").update(buf).digest("hex");
-      const md5 = crypto.createHash("md5").update(buf).digest("hex");
-      const size = buf.length;
-      const relPath = `${component}/binary-${arch}/Packages`;
-      hashLines.push(` ${md5} ${size} ${relPath}`);
-      hashLines.push(` ${sha256} ${size} ${relPath} (SHA256)`);
+
+  function sendRelease(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    index: DistributionIndex | null
+  ) {
+    if (!index) {
+      reply.code(404).send({ error: "Distribution not found" });
+      return;
     }
 
-    // Architecture:all packages are included in each binary-{arch}/Packages
-    // above.  Do NOT generate a separate binary-all/Packages — that would cause
-    // apt to see arch=all packages from two sources and report them as
-    // perpetually upgradeable (the original issue #5).
+    reply.header("Content-Type", "text/plain; charset=utf-8");
+    return sendCached(request, reply, indexHeaders(repo, index.release, index.date), index.release);
   }
 
-  // Separate MD5Sum and SHA256 sections properly
-  const md5Lines = hashLines.filter((l) => !l.includes("(SHA256)"));
-  const sha256Lines = hashLines
-    .filter((l) => l.includes("(SHA256)"))
-    .map((l) => l.replace(" (SHA256)", ""));
-
-  return [
-    `Origin: Pository`,
-    `Label: Pository`,
-    `Suite: ${distribution}`,
-    `Codename: pository-${repo}-${distribution}`,
-    `Date: ${now}`,
-    `Architectures: ${architectures.join(" ")}`,
-    `Components: ${components.join(" ")}`,
-    `Description: Pository repository for ${repo}`,
-    `MD5Sum:`,
-    ...md5Lines,
-    `SHA256:`,
-    ...sha256Lines,
-  ].join("\n") + "\n";
-}
+  async function sendInRelease(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    index: DistributionIndex | null
+  ) {
+    if (!signing || !canSign(repo)) {
+      reply.code(404).send({ error: "Repository signing is not enabled" });
+      return;
+    }
+    if (!index) {
+      reply.code(404).send({ error: "Distribution not found" });
+      return;
+    }
 
-export function registerAptRoutes(
-  app: FastifyInstance,
-  storage: StorageService,
-  dataRoot: string
-): void {
-  // Release file (unsigned) — no auth required
-  app.get<{ Params: AptRepoParams }>(
-    "/apt/:repo/dists/:distribution/Release",
-    async (request, reply) => {
-      const { repo, distribution } = request.params;
+    // Signatures are cached on the index and dropped with it
+    index.inRelease ??= await signing.clearsign(repo, index.release);
 
-      const packages = storage.listPackages({ repo, distribution });
+    reply.header("Content-Type", "text/plain; charset=utf-8");
+    return sendCached(request, reply, indexHeaders(repo, index.inRelease, index.date), index.inRelease);
+  }
 
-      if (packages.length === 0) {
-        // Still produce a valid (empty) Release for the distribution
+  async function sendReleaseSignature(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    index: DistributionIndex | null
+  ) {
+    if (!signing || !canSign(repo)) {
+      reply.code(404).send({ error: "Repository signing is not enabled" });
+      return;
+    }
+    if (!index) {
+      reply.code(404).send({ error: "Distribution not found" });
+      return;
+    }
+
+    index.releaseSignature ??= await signing.detachSign(repo, index.release);
+
+    reply.header("Content-Type", "application/pgp-signature");
+    return sendCached(
+      request,
+      reply,
+      indexHeaders(repo, index.releaseSignature, index.date),
+      index.releaseSignature
+    );
+  }
+
+  // Public signing key, for `signed-by=`.  key.gpg is a binary keyring that
+  // apt accepts directly; key.asc is the same key ASCII-armored.
+  app.get<{ Params: AptKeyParams }>(
+    "/apt/:repo/key.gpg",
+    { preHandler: requireAptAccess },
+    async (request, reply) => {
+      const { repo } = request.params;
+      if (!signing || !canSign(repo)) {
+        reply.code(404).send({ error: "Repository signing is not enabled" });
+        return;
       }
 
-      const content = generateReleaseContent(repo, distribution, packages, dataRoot);
+      const key = await signing.getPublicKey(repo, false);
 
-      reply
-        .header("Content-Type", "text/plain; charset=utf-8")
-        .send(content);
+      reply.header("Content-Type", "application/pgp-keys");
+      return sendCached(request, reply, indexHeaders(repo, key), key);
     }
   );
 
-  // Packages index — no auth required
-  app.get<{ Params: AptComponentParams }>(
-    "/apt/:repo/dists/:distribution/:component/binary-:arch/Packages",
+  app.get<{ Params: AptKeyParams }>(
+    "/apt/:repo/key.asc",
+    { preHandler: requireAptAccess },
     async (request, reply) => {
-      const { repo, distribution, component, arch } = request.params;
-
-      // Each Packages index contains packages for the requested arch AND
-      // Architecture:all packages (matching real Debian/Ubuntu repos).  This
-      // allows apt to merge installed dpkg/status records with the repo entries
-      // and not show arch=all packages as perpetually upgradeable.
-      const packages = storage
-        .listPackages({ repo, distribution, component })
-        .filter((p) => p.architecture === arch || p.architecture === "all");
+      const { repo } = request.params;
+      if (!signing || !canSign(repo)) {
+        reply.code(404).send({ error: "Repository signing is not enabled" });
+        return;
+      }
 
-      const content = generatePackagesContent(packages, dataRoot);
+      const key = await signing.getPublicKey(repo, true);
 
-      reply
-        .header("Content-Type", "text/plain; charset=utf-8")
-        .send(content);
+      reply.header("Content-Type", "application/pgp-keys");
+      return sendCached(request, reply, indexHeaders(repo, key), key);
     }
   );
 
-  // Pool download — no auth required (public package download for apt)
-  app.get<{ Params: AptPoolParams }>(
-    "/apt/:repo/pool/:distribution/:component/:arch/:filename",
-    async (request, reply) => {
-      const { repo, distribution, component, arch, filename } = request.params;
+  /**
+   * Send one index file of a distribution.  Compressed variants only exist
+   * when listed in Release; a missing plain index is served empty when
+   * `emptyIfMissing` is set, so apt gets a valid index for a component/arch
+   * that has no packages yet.
+   */
+  function sendIndexFile(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    index: DistributionIndex | null,
+    relPath: string,
+    compression: IndexCompression | null,
+    emptyIfMissing = false
+  ) {
+    const file = index?.files.get(compression ? `${relPath}.${compression}` : relPath);
+    if (!index || (!file && (compression || !emptyIfMissing))) {
+      reply.code(404).send({ error: "Index not found" });
+      return;
+    }
 
-      // Parse filename: name_version_arch.deb
-      const match = filename.match(/^(.+?)_(.+?)_(.+?)\.deb$/);
-      if (!match) {
-        reply.code(400).send({ error: "Invalid filename format" });
+    const data = file ? file.data : Buffer.alloc(0);
+    reply.header(
+      "Content-Type",
+      compression ? compressionMimeTypes[compression] : "text/plain; charset=utf-8"
+    );
+    return sendCached(request, reply, indexHeaders(repo, data, index.date), data);
+  }
+
+  /**
+   * Send a current or recently superseded index file by its hash.  The
+   * content behind a hash never changes, so it is cached like a pool file.
+   */
+  function sendByHashFile(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    params: AptRepoParams,
+    indexDir: string,
+    algorithm: string,
+    hash: string
+  ) {
+    const { repo, distribution } = params;
+    if (!isSafeName(distribution) || !isByHashAlgorithm(algorithm)) {
+      reply.code(404).send({ error: "Index not found" });
+      return;
+    }
+    const headers = { etag: hash, cacheControl: getRepoConfig(config, repo).poolCacheControl };
+
+    // A snapshot's indexes never change, so all of them are still in memory
+    if (params.snapshot !== undefined) {
+      const file = Array.from(getIndex(params)?.files.values() ?? []).find(
+        (f) =>
+          path.posix.dirname(f.path) === indexDir &&
+          (algorithm === "SHA256" ? f.sha256 : f.sha512) === hash
+      );
+      if (!file) {
+        reply.code(404).send({ error: "Index not found" });
         return;
       }
+      reply.header("Content-Type", "application/octet-stream");
+      return sendCached(request, reply, headers, file.data);
+    }
+
+    const filePath = aptIndex.getByHashFile(repo, distribution, indexDir, algorithm, hash);
+    if (!filePath) {
+      reply.code(404).send({ error: "Index not found" });
+      return;
+    }
+
+    reply.header("Content-Type", "application/octet-stream");
+    return sendCachedFile(request, reply, headers, filePath);
+  }
+
+  /**
+   * Remote repos answer dists/ and pool/ with upstream's files, ahead of
+   * the route's own handler, so every index apt may ask for is covered.
+   * Paths are taken from the URL: upstream may have files this server
+   * never generates.
+   */
+  async function serveRemote(
+    request: FastifyRequest<{ Params: AptKeyParams }>,
+    reply: FastifyReply
+  ) {
+    const { repo } = request.params;
+    if (reply.sent || !remote.isRemote(repo)) {
+      return;
+    }
+
+    // /apt/<repo>/<dists|pool>/...
+    const [root, ...rest] = request.url.split("?")[0].split("/").slice(3).map(decodeSegment);
+    const notFound = root === "pool" ? "Package not found" : "Index not found";
+    if (rest.length === 0 || !rest.every((segment) => segment !== null && isSafeName(segment))) {
+      reply.code(404).send({ error: notFound });
+      return reply;
+    }
+
+    let file: RemoteFile | null;
+    try {
+      file = root === "pool"
+        ? await remote.getPoolFile(repo, rest.join("/"))
+        : await remote.getDistsFile(repo, rest[0]!, rest.slice(1).join("/"));
+    } catch {
+      reply.code(502).send({ error: "Upstream unavailable" });
+      return reply;
+    }
+    if (!file) {
+      reply.code(404).send({ error: notFound });
+      return reply;
+    }
+
+    const immutable = root === "pool" || rest.includes("by-hash");
+    reply.header("Content-Type", remoteContentType(rest[rest.length - 1]!, immutable));
+    sendCachedFile(
+      request,
+      reply,
+      {
+        etag: file.sha256,
+        lastModified: file.mtime,
+        cacheControl: immutable
+          ? getRepoConfig(config, repo).poolCacheControl
+          : getRepoConfig(config, repo).indexCacheControl,
+      },
+      file.path
+    );
+    return reply;
+  }
+
+  // Everything under dists/, for the live distribution and for its
+  // snapshots (`deb <url>/apt/<repo>/snapshots/<name> <distribution> ...`)
+  for (const dists of DISTS_ROOTS) {
+    // Snapshots are of uploaded packages, so only the live dists/ can be remote
+    const preHandler = dists === DISTS_ROOTS[0] ? [requireAptAccess, serveRemote] : requireAptAccess;
+
+    // Release file (unsigned) — no auth required unless the repo is private
+    app.get<{ Params: AptRepoParams }>(
+      `${dists}/Release`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo } = request.params;
+        return sendRelease(request, reply, repo, getIndex(request.params));
+      }
+    );
+
+    // Clearsigned Release — 404 when signing is disabled, which makes apt fall
+    // back to Release + Release.gpg
+    app.get<{ Params: AptRepoParams }>(
+      `${dists}/InRelease`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo } = request.params;
+        return sendInRelease(request, reply, repo, getIndex(request.params));
+      }
+    );
+
+    // Detached signature over Release
+    app.get<{ Params: AptRepoParams }>(
+      `${dists}/Release.gpg`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo } = request.params;
+        return sendReleaseSignature(request, reply, repo, getIndex(request.params));
+      }
+    );
+
+    // Packages index (plain and compressed) — no auth required unless the repo is private
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptComponentParams }>(
+        `${dists}/:component/binary-:arch/Packages${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component, arch } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/binary-${arch}/Packages`,
+            compression,
+            true
+          );
+        }
+      );
+    }
 
-      const [, name, version] = match;
-
-      const debPath = path.join(
-        dataRoot,
-        repo,
-        distribution,
-        component,
-        arch,
-        name,
-        version,
-        "package.deb"
+    // Contents-<arch> index (plain and compressed), for apt-file
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptComponentParams }>(
+        `${dists}/:component/Contents-:arch${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component, arch } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/Contents-${arch}`,
+            compression,
+            true
+          );
+        }
       );
+    }
 
-      if (!fs.existsSync(debPath)) {
-        reply.code(404).send({ error: "Package not found" });
-        return;
+    // Translation-en (plain and compressed) — only published for repos with
+    // `translations` enabled; other languages are never published
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptTranslationParams }>(
+        `${dists}/:component/i18n/Translation-:lang${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component, lang } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/i18n/Translation-${lang}`,
+            compression
+          );
+        }
+      );
+    }
+
+    // Sources index (plain and compressed), for `deb-src` lines
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptSourcesParams }>(
+        `${dists}/:component/source/Sources${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/source/Sources`,
+            compression,
+            true
+          );
+        }
+      );
+    }
+
+    // Debug symbol (.ddeb) Packages index, in the parallel <component>/debug
+    // component: `deb <url> <distribution> main/debug`
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptComponentParams }>(
+        `${dists}/:component/debug/binary-:arch/Packages${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component, arch } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/debug/binary-${arch}/Packages`,
+            compression,
+            true
+          );
+        }
+      );
+    }
+
+    // Installer (.udeb) Packages index, where debian-installer fetches it
+    for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+      const suffix = compression ? `.${compression}` : "";
+      app.get<{ Params: AptComponentParams }>(
+        `${dists}/:component/debian-installer/binary-:arch/Packages${suffix}`,
+        { preHandler },
+        async (request, reply) => {
+          const { repo, component, arch } = request.params;
+          return sendIndexFile(
+            request,
+            reply,
+            repo,
+            getIndex(request.params),
+            `${component}/debian-installer/binary-${arch}/Packages`,
+            compression,
+            true
+          );
+        }
+      );
+    }
+
+    // Per-directory Release files
+    app.get<{ Params: AptComponentParams }>(
+      `${dists}/:component/binary-:arch/Release`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo, component, arch } = request.params;
+        return sendIndexFile(
+          request,
+          reply,
+          repo,
+          getIndex(request.params),
+          `${component}/binary-${arch}/Release`,
+          null
+        );
+      }
+    );
+
+    app.get<{ Params: AptSourcesParams }>(
+      `${dists}/:component/source/Release`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo, component } = request.params;
+        return sendIndexFile(
+          request,
+          reply,
+          repo,
+          getIndex(request.params),
+          `${component}/source/Release`,
+          null
+        );
       }
+    );
 
-      reply.header("Content-Type", "application/vnd.debian.binary-package");
-      reply.header(
-        "Content-Disposition",
-        `attachment; filename="${filename}"`
+    app.get<{ Params: AptComponentParams }>(
+      `${dists}/:component/debug/binary-:arch/Release`,
+      { preHandler },
+      async (request, reply) => {
+        const { repo, component, arch } = request.params;
+        return sendIndexFile(
+          request,
+          reply,
+          repo,
+          getIndex(request.params),
+          `${component}/debug/binary-${arch}/Release`,
+          null
+        );
+      }
+    );
+
+    // Acquire-By-Hash — serves current and recently superseded indexes under
+    // every hash algorithm listed in Release
+    app.route<{ Params: AptByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/binary-:arch/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, arch, algorithm, hash } = request.params;
+        return sendByHashFile(
+          request,
+          reply,
+          request.params,
+          `${sanitizePath(component)}/binary-${sanitizePath(arch)}`,
+          algorithm,
+          hash
+        );
+      },
+    });
+
+    app.route<{ Params: AptByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/debug/binary-:arch/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, arch, algorithm, hash } = request.params;
+        return sendByHashFile(
+          request,
+          reply,
+          request.params,
+          `${sanitizePath(component)}/debug/binary-${sanitizePath(arch)}`,
+          algorithm,
+          hash
+        );
+      },
+    });
+
+    app.route<{ Params: AptByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/debian-installer/binary-:arch/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, arch, algorithm, hash } = request.params;
+        return sendByHashFile(
+          request,
+          reply,
+          request.params,
+          `${sanitizePath(component)}/debian-installer/binary-${sanitizePath(arch)}`,
+          algorithm,
+          hash
+        );
+      },
+    });
+
+    app.route<{ Params: AptComponentByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, algorithm, hash } = request.params;
+        return sendByHashFile(request, reply, request.params, sanitizePath(component), algorithm, hash);
+      },
+    });
+
+    app.route<{ Params: AptComponentByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/i18n/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, algorithm, hash } = request.params;
+        return sendByHashFile(request, reply, request.params, `${sanitizePath(component)}/i18n`, algorithm, hash);
+      },
+    });
+
+    app.route<{ Params: AptComponentByHashParams }>({
+      method: ["GET", "HEAD"],
+      url: `${dists}/:component/source/by-hash/:algorithm/:hash`,
+      preHandler,
+      handler: async (request, reply) => {
+        const { component, algorithm, hash } = request.params;
+        return sendByHashFile(request, reply, request.params, `${sanitizePath(component)}/source`, algorithm, hash);
+      },
+    });
+  }
+
+  // Upstream files of remote repos that no route above matches (Contents,
+  // other compressions, ...).  Local repos have nothing else under dists/.
+  app.route<{ Params: AptRepoParams }>({
+    method: ["GET", "HEAD"],
+    url: `${DISTS_ROOTS[0]}/*`,
+    preHandler: [requireAptAccess, serveRemote],
+    handler: async (_request, reply) => {
+      reply.code(404).send({ error: "Index not found" });
+    },
+  });
+
+  /**
+   * Send the pool file at `poolPath` if one of `packages` owns it.  Returns
+   * null without replying otherwise.
+   */
+  function sendPoolFile(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    packages: PackageMetadata[],
+    poolPath: string
+  ) {
+    for (const pkg of packages) {
+      const file = poolFiles(pkg).find((f) => f.path === poolPath);
+      if (!file) continue;
+
+      const filePath = pkg.architecture === "source"
+        ? storage.getSourceFile(pkg, file.name)
+        : storage.getPackageFile(pkg);
+      if (!filePath) continue;
+
+      if (/\.[du]?deb$/.test(file.name)) {
+        reply.header("Content-Type", "application/vnd.debian.binary-package");
+        reply.header("Content-Disposition", `attachment; filename="${file.name}"`);
+      } else {
+        reply.header(
+          "Content-Type",
+          file.name.endsWith(".dsc") ? "text/prs.lines.tag" : "application/octet-stream"
+        );
+      }
+      return sendCachedFile(
+        request,
+        reply,
+        {
+          etag: file.sha256,
+          lastModified: new Date(pkg.uploadedAt),
+          cacheControl: getRepoConfig(config, repo).poolCacheControl,
+        },
+        filePath
       );
+    }
+    return null;
+  }
 
-      const stream = fs.createReadStream(debPath);
-      return reply.send(stream);
+  // Pool download — no auth required unless the repo is private.
+  // Resolved through the index rather than parsed from the file name.
+  // File routes register HEAD themselves so HEAD never reads the file.
+  app.route<{ Params: AptPoolParams }>({
+    method: ["GET", "HEAD"],
+    url: "/apt/:repo/pool/*",
+    preHandler: [requireAptAccess, serveRemote],
+    handler: async (request, reply) => {
+      const { repo } = request.params;
+      const poolPath = `pool/${request.params["*"]}`;
+      const packages = storage.listPackages({ repo });
+
+      const sent = sendPoolFile(request, reply, repo, packages, poolPath);
+      if (sent) return sent;
+
+      // Legacy layout: pool/<distribution>/<component>/<arch>/<file>, with
+      // the raw version (epoch included) in .deb names
+      const legacy = poolPath.split("/");
+      if (legacy.length === 5) {
+        const [, distribution, component, arch, filename] = legacy;
+        const pkg = packages.find(
+          (p) =>
+            p.distribution === distribution &&
+            p.component === component &&
+            p.architecture === arch &&
+            (arch === "source"
+              ? p.sourceFiles?.some((f) => f.name === filename)
+              : `${p.name}_${p.version}_${p.architecture}.deb` === filename)
+        );
+        const file = pkg && poolFiles(pkg).find(
+          (f) => arch !== "source" || f.name === filename
+        );
+        if (file) {
+          return reply.redirect(`/apt/${repo}/${file.path}`, 301);
+        }
+      }
+
+      reply.code(404).send({ error: "Package not found" });
+    },
+  });
+
+  // Pool of a snapshot: only the files of the packages it lists
+  app.route<{ Params: AptSnapshotPoolParams }>({
+    method: ["GET", "HEAD"],
+    url: "/apt/:repo/snapshots/:snapshot/pool/*",
+    preHandler: requireSnapshotAccess,
+    handler: async (request, reply) => {
+      const { repo } = request.params;
+      const snapshot = getSnapshot(repo, request.params.snapshot);
+
+      const sent = snapshot &&
+        sendPoolFile(request, reply, repo, snapshot.packages, `pool/${request.params["*"]}`);
+      if (sent) return sent;
+      reply.code(404).send({ error: "Package not found" });
+    },
+  });
+
+  // Flat repository view (`deb <url>/apt/flat/<repo>/ ./`) of the repo's
+  // configured distribution and component.  Filename entries are pool
+  // paths, which resolve under the flat root too.
+  app.get<{ Params: AptKeyParams }>(
+    "/apt/flat/:repo/Release",
+    { preHandler: requireFlatAccess },
+    async (request, reply) => {
+      const { repo } = request.params;
+      return sendRelease(request, reply, repo, getFlat(repo));
     }
   );
+
+  app.get<{ Params: AptKeyParams }>(
+    "/apt/flat/:repo/InRelease",
+    { preHandler: requireFlatAccess },
+    async (request, reply) => {
+      const { repo } = request.params;
+      return sendInRelease(request, reply, repo, getFlat(repo));
+    }
+  );
+
+  app.get<{ Params: AptKeyParams }>(
+    "/apt/flat/:repo/Release.gpg",
+    { preHandler: requireFlatAccess },
+    async (request, reply) => {
+      const { repo } = request.params;
+      return sendReleaseSignature(request, reply, repo, getFlat(repo));
+    }
+  );
+
+  for (const compression of [null, ...INDEX_COMPRESSIONS]) {
+    const suffix = compression ? `.${compression}` : "";
+    app.get<{ Params: AptKeyParams }>(
+      `/apt/flat/:repo/Packages${suffix}`,
+      { preHandler: requireFlatAccess },
+      async (request, reply) => {
+        const { repo } = request.params;
+        return sendIndexFile(request, reply, repo, getFlat(repo), "Packages", compression);
+      }
+    );
+  }
+
+  app.route<{ Params: AptPoolParams }>({
+    method: ["GET", "HEAD"],
+    url: "/apt/flat/:repo/pool/*",
+    preHandler: requireFlatAccess,
+    handler: async (request, reply) => {
+      const { repo } = request.params;
+      const flat = getRepoConfig(config, repo).flat;
+      const packages = flat
+        ? storage
+          .listPackages({ repo, distribution: flat.distribution })
+          .filter((p) => p.component === (flat.component ?? "main"))
+        : [];
+
+      const sent = sendPoolFile(request, reply, repo, packages, `pool/${request.params["*"]}`);
+      if (sent) return sent;
+      reply.code(404).send({ error: "Package not found" });
+    },
+  });
+}
+
+// null for a segment that isn't valid percent-encoding
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+function remoteContentType(name: string, binary: boolean): string {
+  if (/\.[du]?deb$/.test(name)) return "application/vnd.debian.binary-package";
+  if (name.endsWith(".dsc")) return "text/prs.lines.tag";
+  if (name === "Release.gpg") return "application/pgp-signature";
+  const compression = /\.(gz|xz|zst)$/.exec(name)?.[1] as IndexCompression | undefined;
+  if (compression) return compressionMimeTypes[compression];
+  return binary || /\.\w+$/.test(name) ? "application/octet-stream" : "text/plain; charset=utf-8";
+}
+
+function sha256(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
 }
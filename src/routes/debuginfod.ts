@@ -0,0 +1,119 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import crypto from "node:crypto";
+import { StorageService, PackageMetadata } from "../services/storage.js";
+import { ApiKeyService } from "../services/api-keys.js";
+import { Config } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { isBuildId } from "../utils/build-id.js";
+import { parseBasicAuth } from "../utils/basic-auth.js";
+import { poolFiles } from "../utils/pool.js";
+import { sendCached } from "../utils/http-cache.js";
+
+interface BuildIdParams {
+  buildid: string;
+}
+
+/**
+ * A debuginfod server over the stored packages, so gdb and other elfutils
+ * clients can fetch files by GNU build-id with
+ * `DEBUGINFOD_URLS=https://<host>/`:
+ *
+ *   /buildid/<id>/debuginfo   the .debug file from a -dbgsym .ddeb
+ *   /buildid/<id>/executable  the binary from the .deb that installs it,
+ *                             found through that .deb's -dbgsym .ddeb
+ *
+ * The URLs carry no repo, so every repo is searched.  Packages in private
+ * repos are only served to HTTP Basic credentials that could read them
+ * through apt; everyone else gets the same 404 as for an unknown build-id.
+ */
+export function registerDebuginfodRoutes(
+  app: FastifyInstance,
+  storage: StorageService,
+  apiKeyService: ApiKeyService,
+  config: Config
+): void {
+  async function canRead(request: FastifyRequest, pkg: PackageMetadata): Promise<boolean> {
+    if (!getRepoConfig(config, pkg.repo).private) {
+      return true;
+    }
+    const credentials = parseBasicAuth(request.headers.authorization);
+    const keyData = credentials
+      ? await apiKeyService.validateKeyWithId(credentials.username, credentials.password)
+      : null;
+    return !!keyData && apiKeyService.hasPermission(keyData, "read", pkg.repo, pkg.distribution);
+  }
+
+  /**
+   * Where a build-id's file may be: ddebs list theirs.  An executable is in
+   * the package a ddeb was stripped from — `<name>-dbgsym` is the debug
+   * symbols of `<name>`, same version and architecture — at a path only
+   * reading that package tells.
+   */
+  function candidates(
+    buildId: string,
+    debuginfo: boolean
+  ): { pkg: PackageMetadata; filePath?: string }[] {
+    const ddebs = storage.findByBuildId(buildId);
+    if (debuginfo) {
+      return ddebs.map((pkg) => ({ pkg, filePath: pkg.buildIds![buildId] }));
+    }
+
+    return ddebs.flatMap((ddeb) =>
+      storage
+        .listPackages({
+          repo: ddeb.repo,
+          distribution: ddeb.distribution,
+          architecture: ddeb.architecture,
+          version: ddeb.version,
+        })
+        .filter((p) => p.packageType !== "ddeb" && `${p.name}-dbgsym` === ddeb.name)
+        .map((pkg) => ({ pkg }))
+    );
+  }
+
+  async function sendBuildIdFile(
+    request: FastifyRequest<{ Params: BuildIdParams }>,
+    reply: FastifyReply,
+    debuginfo: boolean
+  ) {
+    const buildId = request.params.buildid.toLowerCase();
+
+    for (const { pkg, filePath } of isBuildId(buildId) ? candidates(buildId, debuginfo) : []) {
+      if (!(await canRead(request, pkg))) continue;
+      const file = filePath
+        ? { path: filePath, data: await storage.readPackageDataFile(pkg, filePath) }
+        : await storage.findExecutable(pkg, buildId);
+      if (!file?.data) continue;
+      const data = file.data;
+
+      // Informational headers that debuginfod servers send
+      reply
+        .header("Content-Type", "application/octet-stream")
+        .header("X-DEBUGINFOD-SIZE", data.length)
+        .header("X-DEBUGINFOD-ARCHIVE", poolFiles(pkg)[0].name)
+        .header("X-DEBUGINFOD-FILE", `/${file.path}`);
+      return sendCached(
+        request,
+        reply,
+        {
+          etag: crypto.createHash("sha256").update(data).digest("hex"),
+          lastModified: new Date(pkg.uploadedAt),
+          cacheControl: getRepoConfig(config, pkg.repo).poolCacheControl,
+        },
+        data
+      );
+    }
+
+    reply.code(404).send({ error: "Build-id not found" });
+  }
+
+  app.get<{ Params: BuildIdParams }>(
+    "/buildid/:buildid/debuginfo",
+    async (request, reply) => sendBuildIdFile(request, reply, true)
+  );
+
+  app.get<{ Params: BuildIdParams }>(
+    "/buildid/:buildid/executable",
+    async (request, reply) => sendBuildIdFile(request, reply, false)
+  );
+}
@@ -0,0 +1,89 @@
+import { FastifyInstance } from "fastify";
+import path from "node:path";
+import { ExportService } from "../services/exporter.js";
+import { ApiKeyService } from "../services/api-keys.js";
+import { isSafeName } from "../services/debian-validator.js";
+import { Config } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { Logger } from "../utils/logger.js";
+
+interface ExportBody {
+  repo?: string;
+  path?: string;              // Directory on the server
+  copy?: boolean;             // Copy files instead of hard-linking them
+}
+
+/**
+ * Static export of a repo as an apt tree on the server's filesystem — see
+ * ExportService.  `npm run export` does the same from the command line.
+ */
+export function registerExportRoutes(
+  app: FastifyInstance,
+  exporter: ExportService,
+  apiKeyService: ApiKeyService,
+  logger: Logger,
+  config: Config
+): void {
+  app.post<{ Body: ExportBody }>(
+    "/api/v1/export",
+    {
+      preHandler: async (request, reply) => {
+        if (!request.apiKey) {
+          reply.code(401).send({ error: "Authentication required" });
+          return;
+        }
+        if (!apiKeyService.hasPermission(request.apiKey, "admin", request.body?.repo ?? "default")) {
+          reply.code(403).send({ error: "Admin permission required" });
+          return;
+        }
+      },
+    },
+    async (request, reply) => {
+      const { repo = "default", path: dest, copy = false } = request.body ?? {};
+
+      if (!dest || !path.isAbsolute(dest)) {
+        reply.code(400).send({ error: "path must be an absolute directory on the server" });
+        return;
+      }
+      if (!isSafeName(repo)) {
+        reply.code(400).send({ error: "Invalid repo" });
+        return;
+      }
+      if (config.allowedRepos.length > 0 && !config.allowedRepos.includes(repo)) {
+        reply.code(403).send({ error: "Repository not allowed" });
+        return;
+      }
+      if (getRepoConfig(config, repo).remote) {
+        reply.code(409).send({ error: "Repository mirrors a remote archive" });
+        return;
+      }
+      if (exporter.listDistributions(repo).length === 0) {
+        reply.code(404).send({ error: "Repository has no distributions" });
+        return;
+      }
+      if (!exporter.canExportTo(repo, dest)) {
+        reply.code(409).send({ error: "path is not empty and not an export of this repository" });
+        return;
+      }
+
+      try {
+        const report = await exporter.exportRepo(repo, dest, { copy: copy === true });
+
+        logger.access({
+          action: "export",
+          keyId: request.apiKey!.id,
+          ip: request.ip,
+          path: repo,
+          dest,
+          written: report.written.length,
+          removed: report.removed.length,
+        });
+
+        reply.send(report);
+      } catch (error) {
+        logger.error("Export error", { error: String(error) });
+        reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
@@ -0,0 +1,95 @@
+import { FastifyInstance } from "fastify";
+import fs from "node:fs";
+import path from "node:path";
+import { ImportService } from "../services/importer.js";
+import { ApiKeyService } from "../services/api-keys.js";
+import { isSafeName } from "../services/debian-validator.js";
+import { Config } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { Logger } from "../utils/logger.js";
+
+interface ImportBody {
+  path?: string;              // Directory on the server
+  repo?: string;
+  distribution?: string;
+  component?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Bulk import of an apt repository tree (or a directory of .debs) that is
+ * already on the server — see ImportService.  `npm run import` does the
+ * same from the command line.
+ */
+export function registerImportRoutes(
+  app: FastifyInstance,
+  importer: ImportService,
+  apiKeyService: ApiKeyService,
+  logger: Logger,
+  config: Config
+): void {
+  app.post<{ Body: ImportBody }>(
+    "/api/v1/import",
+    {
+      preHandler: async (request, reply) => {
+        if (!request.apiKey) {
+          reply.code(401).send({ error: "Authentication required" });
+          return;
+        }
+        if (!apiKeyService.hasPermission(request.apiKey, "admin", request.body?.repo ?? "default")) {
+          reply.code(403).send({ error: "Admin permission required" });
+          return;
+        }
+      },
+    },
+    async (request, reply) => {
+      const { path: root, repo = "default", distribution, component, dryRun = false } = request.body ?? {};
+
+      if (!root || !path.isAbsolute(root) || !fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+        reply.code(400).send({ error: "path must be an existing directory on the server" });
+        return;
+      }
+      if (
+        !isSafeName(repo) ||
+        (distribution !== undefined && !isSafeName(distribution)) ||
+        (component !== undefined && !isSafeName(component))
+      ) {
+        reply.code(400).send({ error: "Invalid repo, distribution or component" });
+        return;
+      }
+      if (config.allowedRepos.length > 0 && !config.allowedRepos.includes(repo)) {
+        reply.code(403).send({ error: "Repository not allowed" });
+        return;
+      }
+      if (getRepoConfig(config, repo).remote) {
+        reply.code(409).send({ error: "Repository mirrors a remote archive" });
+        return;
+      }
+
+      try {
+        const report = await importer.importTree(
+          root,
+          { repo, distribution, component, dryRun: dryRun === true },
+          request.apiKey!.id
+        );
+
+        if (!report.dryRun) {
+          logger.access({
+            action: "import",
+            keyId: request.apiKey!.id,
+            ip: request.ip,
+            path: repo,
+            source: root,
+            imported: report.imported.length,
+            conflicts: report.conflicts.length,
+          });
+        }
+
+        reply.send(report);
+      } catch (error) {
+        logger.error("Import error", { error: String(error) });
+        reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
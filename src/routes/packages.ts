@@ -1,16 +1,32 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { StorageService, PackageLocation, DebControlMeta } from "../services/storage.js";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import {
+  StorageService,
+  PackageLocation,
+  PackageMetadata,
+  PhasingState,
+  DscControlMeta,
+} from "../services/storage.js";
 import {
   validateDebianPackage,
+  validateSourcePackage,
   sanitizePath,
+  isSafeName,
   isValidPackageName,
   isValidVersion,
   isValidArchitecture,
+  debControlMeta,
 } from "../services/debian-validator.js";
+import { SnapshotService } from "../services/snapshots.js";
 import { ApiKeyService } from "../services/api-keys.js";
 import { Logger } from "../utils/logger.js";
 import { Config } from "../config.js";
 import { isOidcAllowed } from "../services/oidc-scope.js";
+import { getDistributionConfig, getRepoConfig, getDependencyCheckConfig } from "../utils/config-loader.js";
+import { poolFiles, poolFilename } from "../utils/pool.js";
+import { compareVersions, parseVersionConstraints, satisfies } from "../utils/debian-version.js";
+import { DependencyInfo, unsatisfiedDependencies } from "../utils/dependencies.js";
 
 interface PackageParams {
   repo: string;
@@ -21,6 +37,23 @@ interface PackageParams {
   version: string;
 }
 
+type LatestParams = Omit<PackageParams, "version">;
+
+interface LatestQuery {
+  version?: string;           // Constraints the result must meet, e.g. ">=2.1" or ">=2.1,<<3"
+}
+
+interface PhasingBody {
+  percentage?: number;
+  action?: "pause" | "resume" | "halt";
+}
+
+interface TransferBody {
+  source?: Partial<PackageLocation>;
+  // Omitted fields default to the source's
+  target?: { repo?: string; distribution?: string; component?: string };
+}
+
 interface ListQuery {
   repo?: string;
   distribution?: string;
@@ -28,33 +61,197 @@ interface ListQuery {
   architecture?: string;
   name?: string;
   version?: string;
+  sort?: string;              // "version": by name, then newest Debian version first
+  group?: string;             // "true": also summarise each package name
+}
+
+// One package name in a grouped listing
+interface PackageGroup {
+  name: string;
+  newestVersion: string;      // Highest Debian version, not the latest upload
+  versions: string[];         // Distinct versions, newest first
+}
+
+/**
+ * By name, then newest Debian version first (so `1.10` before `1.9`, and
+ * `1.0` before `1.0~rc1`, whatever the upload order), then location.
+ */
+function sortByVersion(packages: PackageMetadata[]): PackageMetadata[] {
+  const location = (p: PackageMetadata) => `${p.repo}/${p.distribution}/${p.component}/${p.architecture}`;
+  return [...packages].sort((a, b) =>
+    (a.name < b.name ? -1 : a.name > b.name ? 1 : 0) ||
+    compareVersions(b.version, a.version) ||
+    location(a).localeCompare(location(b))
+  );
+}
+
+/** Summarise a sortByVersion() listing per package name. */
+function groupByName(sorted: PackageMetadata[]): PackageGroup[] {
+  const groups = new Map<string, PackageGroup>();
+  for (const pkg of sorted) {
+    const group = groups.get(pkg.name);
+    if (!group) {
+      groups.set(pkg.name, { name: pkg.name, newestVersion: pkg.version, versions: [pkg.version] });
+    } else if (group.versions[group.versions.length - 1] !== pkg.version) {
+      group.versions.push(pkg.version);
+    }
+  }
+  return [...groups.values()];
 }
 
 export function registerPackageRoutes(
   app: FastifyInstance,
   storage: StorageService,
+  snapshots: SnapshotService,
   apiKeyService: ApiKeyService,
   logger: Logger,
   config: Config
 ): void {
+  const uploadPreHandler = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.oidcClaims) {
+      // OIDC authenticated — scope check deferred until package name is known
+      return;
+    }
+    if (!request.apiKey) {
+      reply.code(401).send({ error: "Authentication required" });
+      return;
+    }
+    if (!apiKeyService.hasPermission(request.apiKey, "write")) {
+      reply.code(403).send({ error: "Write permission required" });
+      return;
+    }
+  };
+
+  /**
+   * Upload checks that need the package name and target: the repo
+   * allowlist and remote repos, then OIDC or API-key scope.  Sends the
+   * error reply and returns false if the upload is not allowed.
+   */
+  function authorizeUpload(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    repo: string,
+    distribution: string,
+    pkgName: string
+  ): boolean {
+    // Check if repo is allowed
+    if (
+      config.allowedRepos.length > 0 &&
+      !config.allowedRepos.includes(repo)
+    ) {
+      reply.code(403).send({ error: "Repository not allowed" });
+      return false;
+    }
+
+    // A remote repo serves upstream's packages, never uploaded ones
+    if (getRepoConfig(config, repo).remote) {
+      reply.code(409).send({ error: "Repository mirrors a remote archive" });
+      return false;
+    }
+
+    // Per-identity authorization
+    if (request.oidcClaims) {
+      // OIDC path: check package name against repo identity
+      const authz = isOidcAllowed(request.oidcClaims, pkgName, config);
+      if (!authz.allowed) {
+        reply.code(403).send({ error: "OIDC authorization denied", detail: authz.reason });
+        return false;
+      }
+    } else {
+      // API key path: check repo/distribution-level permission
+      if (
+        !apiKeyService.hasPermission(
+          request.apiKey!,
+          "write",
+          repo,
+          distribution
+        )
+      ) {
+        reply.code(403).send({ error: "No permission for this repository" });
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Pool paths carry no distribution, so a file shared between
+   * distributions must be byte-identical.  Returns the first pool path the
+   * upload would give different content, or null.  Re-uploading to the same
+   * location is a replacement, not a conflict.
+   */
+  function findPoolConflict(
+    upload: PackageLocation & Pick<PackageMetadata, "source" | "sha256" | "sourceFiles" | "packageType">
+  ): string | null {
+    const wanted = new Map(poolFiles(upload).map((f) => [f.path, f.sha256]));
+    for (const pkg of storage.listPackages({ repo: upload.repo, component: upload.component })) {
+      if (
+        pkg.distribution === upload.distribution &&
+        pkg.architecture === upload.architecture &&
+        pkg.name === upload.name &&
+        pkg.version === upload.version
+      ) {
+        continue;
+      }
+      for (const file of poolFiles(pkg)) {
+        const sha256 = wanted.get(file.path);
+        if (sha256 && sha256 !== file.sha256) return file.path;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Snapshots serve the stored files in place, so a version a snapshot
+   * lists can only be re-uploaded byte-identical.  Returns the snapshots a
+   * replacement with `sha256` would change.
+   */
+  function snapshotsPinning(loc: PackageLocation, sha256: string): string[] {
+    const existing = storage.getPackageMetadata(loc);
+    return existing && existing.sha256 !== sha256 ? snapshots.referencing(loc) : [];
+  }
+
+  /**
+   * The Depends and Pre-Depends groups of a package arriving at `loc` that
+   * the target distribution can't meet, with the distribution's
+   * dependencyCheck mode.  The package replaces any stored one at `loc`.
+   */
+  function checkDependencies(
+    loc: PackageLocation,
+    pkg: DependencyInfo
+  ): { mode: "off" | "warn" | "reject"; unsatisfied: string[] } {
+    const { mode = "off", external = [] } = getDependencyCheckConfig(config, loc.repo, loc.distribution);
+    if (mode === "off" || loc.architecture === "source") {
+      return { mode: "off", unsatisfied: [] };
+    }
+    const available = storage
+      .listPackages({ repo: loc.repo, distribution: loc.distribution })
+      .filter(
+        (p) =>
+          p.architecture !== "source" &&
+          !(p.component === loc.component && p.architecture === loc.architecture &&
+            p.name === loc.name && p.version === loc.version)
+      );
+    return { mode, unsatisfied: unsatisfiedDependencies(pkg, [...available, pkg], external) };
+  }
+
+  /** A Phased-Update-Percentage value: an integer from 0 to 100. */
+  function isPercentage(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 100;
+  }
+
+  function uploaderIdentity(request: FastifyRequest): string {
+    return request.oidcClaims
+      ? `oidc:${request.oidcClaims.repository}`
+      : request.apiKey!.id;
+  }
+
   // Upload package
   app.post<{ Body: { repo?: string; distribution?: string; component?: string; architecture?: string } }>(
     "/api/v1/packages",
     {
-      preHandler: async (request, reply) => {
-        if (request.oidcClaims) {
-          // OIDC authenticated — scope check deferred until package name is known
-          return;
-        }
-        if (!request.apiKey) {
-          reply.code(401).send({ error: "Authentication required" });
-          return;
-        }
-        if (!apiKeyService.hasPermission(request.apiKey, "write")) {
-          reply.code(403).send({ error: "Write permission required" });
-          return;
-        }
-      },
+      preHandler: uploadPreHandler,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -65,6 +262,7 @@ export function registerPackageRoutes(
         let component = "main";
         let architecture = "";
         let filename = "";
+        let phasedUpdatePercentage: string | undefined;
 
         for await (const part of parts) {
           if (part.type === "file") {
@@ -89,6 +287,9 @@ export function registerPackageRoutes(
               case "architecture":
                 architecture = value;
                 break;
+              case "phasedUpdatePercentage":
+                phasedUpdatePercentage = value;
+                break;
             }
           }
         }
@@ -98,6 +299,16 @@ export function registerPackageRoutes(
           return;
         }
 
+        // Start a staged rollout right away, so no index ever offers the
+        // new version to every machine
+        const initialPercentage = phasedUpdatePercentage === undefined
+          ? undefined
+          : Number(phasedUpdatePercentage);
+        if (initialPercentage !== undefined && !isPercentage(initialPercentage)) {
+          reply.code(400).send({ error: "phasedUpdatePercentage must be an integer from 0 to 100" });
+          return;
+        }
+
         if (fileBuffer.length > config.maxUploadSize) {
           reply.code(413).send({ error: "File too large" });
           return;
@@ -123,7 +334,7 @@ export function registerPackageRoutes(
 
         // Try to extract from filename if not in control
         if (!pkgName || !pkgVersion) {
-          const match = filename.match(/^(.+?)_(.+?)_(.+?)\.deb$/);
+          const match = filename.match(/^(.+?)_(.+?)_(.+?)\.[du]?deb$/);
           if (match) {
             pkgName = pkgName || match[1];
             pkgVersion = pkgVersion || match[2];
@@ -159,41 +370,21 @@ export function registerPackageRoutes(
           return;
         }
 
-        if (!isValidArchitecture(pkgArch)) {
+        // "source" is reserved for source packages
+        if (!isValidArchitecture(pkgArch) || pkgArch === "source") {
           reply.code(400).send({ error: "Invalid architecture" });
           return;
         }
 
-        // Check if repo is allowed
-        if (
-          config.allowedRepos.length > 0 &&
-          !config.allowedRepos.includes(repo)
-        ) {
-          reply.code(403).send({ error: "Repository not allowed" });
+        // A distribution that declares its architectures only publishes those
+        const declaredArches = getDistributionConfig(config, repo, distribution).architectures;
+        if (declaredArches && pkgArch !== "all" && !declaredArches.includes(pkgArch)) {
+          reply.code(400).send({ error: `Architecture ${pkgArch} is not declared for this distribution` });
           return;
         }
 
-        // Per-identity authorization
-        if (request.oidcClaims) {
-          // OIDC path: check package name against repo identity
-          const authz = isOidcAllowed(request.oidcClaims, pkgName, config);
-          if (!authz.allowed) {
-            reply.code(403).send({ error: "OIDC authorization denied", detail: authz.reason });
-            return;
-          }
-        } else {
-          // API key path: check repo/distribution-level permission
-          if (
-            !apiKeyService.hasPermission(
-              request.apiKey!,
-              "write",
-              repo,
-              distribution
-            )
-          ) {
-            reply.code(403).send({ error: "No permission for this repository" });
-            return;
-          }
+        if (!authorizeUpload(request, reply, repo, distribution, pkgName)) {
+          return;
         }
 
         const loc: PackageLocation = {
@@ -205,45 +396,67 @@ export function registerPackageRoutes(
           version: pkgVersion,
         };
 
-        // Carry across useful control fields so the apt Packages index is
-        // accurate.  All apt VersionHash-relevant fields (Depends, Pre-Depends,
-        // Conflicts, Breaks, Replaces) must be stored so the repo entry matches
-        // what dpkg records in /var/lib/dpkg/status.  If the built-in parser
-        // returned nothing (xz/zstd control.tar), storePackage() will fall back
-        // to dpkg-deb automatically.
-        const controlExtra: Partial<DebControlMeta> = {};
-        if (validation.control) {
-          const c = validation.control;
-          if (c.Description) controlExtra.description = c.Description;
-          if (c["Multi-Arch"]) controlExtra.multiArch = c["Multi-Arch"];
-          if (c.Maintainer) controlExtra.maintainer = c.Maintainer;
-          if (c["Pre-Depends"]) controlExtra.preDepends = c["Pre-Depends"];
-          if (c.Depends) controlExtra.depends = c.Depends;
-          if (c.Suggests) controlExtra.suggests = c.Suggests;
-          if (c.Conflicts) controlExtra.conflicts = c.Conflicts;
-          if (c.Breaks) controlExtra.breaks = c.Breaks;
-          if (c.Replaces) controlExtra.replaces = c.Replaces;
-          if (c.Provides) controlExtra.provides = c.Provides;
-          if (c.Homepage) controlExtra.homepage = c.Homepage;
-          if (c.Section) controlExtra.section = c.Section;
-          if (c.Priority) controlExtra.priority = c.Priority;
-          const installedSizeRaw = c["Installed-Size"];
-          if (installedSizeRaw) {
-            const parsed = parseInt(installedSizeRaw, 10);
-            if (!isNaN(parsed)) controlExtra.installedSize = parsed;
-          }
+        // Carry across the control fields the apt Packages index needs.  The
+        // built-in parser can't read xz/zstd control archives; dpkg-deb reads
+        // those now, as their Source decides the pool path checked below.
+        const controlExtra = validation.control
+          ? debControlMeta(validation.control)
+          : storage.readDebControl(fileBuffer) ?? {};
+
+        // Debug symbols (dh_strip's -dbgsym packages) are published in the
+        // <component>/debug component and indexed for debuginfod
+        if (filename.endsWith(".ddeb")) {
+          controlExtra.packageType = "ddeb";
+        }
+        // Installer components, published in <component>/debian-installer
+        if (filename.endsWith(".udeb")) {
+          controlExtra.packageType = "udeb";
+        }
+
+        const sha256 = crypto.createHash("sha256").update(fileBuffer).digest("hex");
+        const conflict = findPoolConflict({
+          ...loc,
+          source: controlExtra.source,
+          packageType: controlExtra.packageType,
+          sha256,
+        });
+        if (conflict) {
+          reply.code(409).send({ error: `A different file already exists at ${conflict}` });
+          return;
+        }
+        const pinnedBy = snapshotsPinning(loc, sha256);
+        if (pinnedBy.length > 0) {
+          reply.code(409).send({ error: `Package is referenced by snapshots: ${pinnedBy.join(", ")}` });
+          return;
         }
 
-        const identity = request.oidcClaims
-          ? `oidc:${request.oidcClaims.repository}`
-          : request.apiKey!.id;
+        const dependencies = checkDependencies(loc, { ...controlExtra, ...loc });
+        if (dependencies.unsatisfied.length > 0 && dependencies.mode === "reject") {
+          reply.code(409).send({
+            error: `Dependencies cannot be satisfied in ${repo}/${distribution}`,
+            unsatisfied: dependencies.unsatisfied,
+          });
+          return;
+        }
+
+        const identity = uploaderIdentity(request);
 
-        const metadata = await storage.storePackage(
+        let metadata = await storage.storePackage(
           loc,
           fileBuffer,
           identity,
-          controlExtra
+          controlExtra,
+          validation.files
         );
+        // A re-upload stays in the current rollout unless given a percentage
+        if (initialPercentage !== undefined && (initialPercentage < 100 || metadata.phasing)) {
+          metadata = storage.setPhasing(
+            loc,
+            initialPercentage < 100
+              ? { percentage: initialPercentage, updatedAt: new Date().toISOString() }
+              : undefined
+          ) ?? metadata;
+        }
 
         logger.access({
           action: "upload",
@@ -252,6 +465,14 @@ export function registerPackageRoutes(
           path: `${repo}/${distribution}/${component}/${pkgArch}/${pkgName}/${pkgVersion}`,
         });
 
+        if (dependencies.unsatisfied.length > 0) {
+          logger.warn("Unsatisfiable dependencies", {
+            path: `${repo}/${distribution}/${component}/${pkgArch}/${pkgName}/${pkgVersion}`,
+            unsatisfied: dependencies.unsatisfied,
+          });
+          reply.code(201).send({ ...metadata, warnings: dependencies.unsatisfied });
+          return;
+        }
         reply.code(201).send(metadata);
       } catch (error) {
         logger.error("Upload error", { error: String(error) });
@@ -260,6 +481,280 @@ export function registerPackageRoutes(
     }
   );
 
+  // Upload source package: the .dsc plus every file it lists
+  app.post(
+    "/api/v1/packages/source",
+    {
+      preHandler: uploadPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const parts = request.parts();
+        const uploads: { name: string; data: Buffer }[] = [];
+        let repo = "default";
+        let distribution = "stable";
+        let component = "main";
+
+        for await (const part of parts) {
+          if (part.type === "file") {
+            const chunks: Buffer[] = [];
+            for await (const chunk of part.file) {
+              chunks.push(chunk);
+            }
+            uploads.push({ name: part.filename, data: Buffer.concat(chunks) });
+          } else {
+            const value = part.value as string;
+            switch (part.fieldname) {
+              case "repo":
+                repo = value;
+                break;
+              case "distribution":
+                distribution = value;
+                break;
+              case "component":
+                component = value;
+                break;
+            }
+          }
+        }
+
+        const totalSize = uploads.reduce((total, u) => total + u.data.length, 0);
+        if (totalSize > config.maxUploadSize) {
+          reply.code(413).send({ error: "File too large" });
+          return;
+        }
+
+        const dscFiles = uploads.filter((u) => u.name.endsWith(".dsc"));
+        if (dscFiles.length !== 1) {
+          reply.code(400).send({ error: "Exactly one .dsc file is required" });
+          return;
+        }
+        const dsc = dscFiles[0];
+        if (sanitizePath(dsc.name) !== dsc.name) {
+          reply.code(400).send({ error: "Invalid .dsc file name" });
+          return;
+        }
+
+        const validation = validateSourcePackage(
+          dsc,
+          uploads.filter((u) => u !== dsc)
+        );
+        if (!validation.valid) {
+          reply.code(400).send({ error: validation.error });
+          return;
+        }
+
+        const c = validation.control!;
+        const pkgName = sanitizePath(c.Source!);
+        const pkgVersion = sanitizePath(c.Version!);
+        repo = sanitizePath(repo);
+        distribution = sanitizePath(distribution);
+        component = sanitizePath(component);
+
+        if (!isValidPackageName(pkgName)) {
+          reply.code(400).send({ error: "Invalid package name" });
+          return;
+        }
+
+        if (!isValidVersion(pkgVersion)) {
+          reply.code(400).send({ error: "Invalid package version" });
+          return;
+        }
+
+        if (!authorizeUpload(request, reply, repo, distribution, pkgName)) {
+          return;
+        }
+
+        const loc: PackageLocation = {
+          repo,
+          distribution,
+          component,
+          architecture: "source",
+          name: pkgName,
+          version: pkgVersion,
+        };
+
+        // The .dsc fields the Sources index carries
+        const controlExtra: Partial<DscControlMeta> = {};
+        if (c.Binary) controlExtra.binary = c.Binary;
+        if (c.Format) controlExtra.format = c.Format;
+        if (c.Architecture) controlExtra.dscArchitecture = c.Architecture;
+        if (c.Maintainer) controlExtra.maintainer = c.Maintainer;
+        if (c.Homepage) controlExtra.homepage = c.Homepage;
+        if (c.Section) controlExtra.section = c.Section;
+        if (c.Priority) controlExtra.priority = c.Priority;
+        if (c["Build-Depends"]) controlExtra.buildDepends = c["Build-Depends"];
+        if (c["Build-Depends-Indep"]) controlExtra.buildDependsIndep = c["Build-Depends-Indep"];
+        if (c["Build-Conflicts"]) controlExtra.buildConflicts = c["Build-Conflicts"];
+        if (c["Standards-Version"]) controlExtra.standardsVersion = c["Standards-Version"];
+
+        const conflict = findPoolConflict({
+          ...loc,
+          sha256: validation.files![0].sha256,
+          sourceFiles: validation.files,
+        });
+        if (conflict) {
+          reply.code(409).send({ error: `A different file already exists at ${conflict}` });
+          return;
+        }
+        const pinnedBy = snapshotsPinning(loc, validation.files![0].sha256);
+        if (pinnedBy.length > 0) {
+          reply.code(409).send({ error: `Package is referenced by snapshots: ${pinnedBy.join(", ")}` });
+          return;
+        }
+
+        const identity = uploaderIdentity(request);
+
+        // Store in the order validation listed them: .dsc first
+        const files = validation.files!.map(
+          (f) => uploads.find((u) => u.name === f.name)!
+        );
+        const metadata = await storage.storeSourcePackage(loc, files, identity, controlExtra);
+
+        logger.access({
+          action: "upload",
+          keyId: identity,
+          ip: request.ip,
+          path: `${repo}/${distribution}/${component}/source/${pkgName}/${pkgVersion}`,
+        });
+
+        reply.code(201).send(metadata);
+      } catch (error) {
+        logger.error("Source upload error", { error: String(error) });
+        reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  /**
+   * Put a stored package at another repo, distribution or component without
+   * re-uploading it.  "promote" and "copy" keep the source; "move" deletes
+   * it, so needs admin permission there as deleting does.
+   */
+  function registerTransfer(action: "promote" | "copy" | "move") {
+    app.post<{ Body: TransferBody }>(
+      `/api/v1/packages/${action}`,
+      { preHandler: uploadPreHandler },
+      async (request, reply) => {
+        const { source, target } = request.body ?? {};
+        const fields = ["repo", "distribution", "component", "architecture", "name", "version"] as const;
+        if (!source || fields.some((f) => typeof source[f] !== "string" || !isSafeName(source[f]!))) {
+          reply.code(400).send({ error: "source must be a complete package location" });
+          return;
+        }
+        const from = source as PackageLocation;
+        const to: PackageLocation = {
+          ...from,
+          repo: target?.repo ?? from.repo,
+          distribution: target?.distribution ?? from.distribution,
+          component: target?.component ?? from.component,
+        };
+        if (![to.repo, to.distribution, to.component].every(isSafeName)) {
+          reply.code(400).send({ error: "Invalid target" });
+          return;
+        }
+        if (to.repo === from.repo && to.distribution === from.distribution && to.component === from.component) {
+          reply.code(400).send({ error: "Target is the same as the source" });
+          return;
+        }
+
+        const pkg = storage.getPackageMetadata(from);
+        if (!pkg) {
+          reply.code(404).send({ error: "Package not found" });
+          return;
+        }
+
+        if (request.oidcClaims) {
+          if (action === "move") {
+            reply.code(403).send({ error: "Admin permission required" });
+            return;
+          }
+          // The identity must be allowed the package at the source too, and
+          // has no read access to private repos, which only API keys get
+          const authz = isOidcAllowed(request.oidcClaims, from.name, config);
+          if (!authz.allowed) {
+            reply.code(403).send({ error: "OIDC authorization denied", detail: authz.reason });
+            return;
+          }
+          if (getRepoConfig(config, from.repo).private) {
+            reply.code(403).send({ error: "No permission for the source repository" });
+            return;
+          }
+        } else {
+          const sourceRole = action === "move" ? "admin" : "read";
+          if (!apiKeyService.hasPermission(request.apiKey!, sourceRole, from.repo, from.distribution)) {
+            reply.code(403).send({ error: "No permission for the source repository" });
+            return;
+          }
+        }
+        if (!authorizeUpload(request, reply, to.repo, to.distribution, to.name)) {
+          return;
+        }
+
+        const declaredArches = getDistributionConfig(config, to.repo, to.distribution).architectures;
+        if (
+          declaredArches &&
+          !["all", "source"].includes(to.architecture) &&
+          !declaredArches.includes(to.architecture)
+        ) {
+          reply.code(400).send({ error: `Architecture ${to.architecture} is not declared for this distribution` });
+          return;
+        }
+
+        const conflict = findPoolConflict({ ...pkg, ...to });
+        if (conflict) {
+          reply.code(409).send({ error: `A different file already exists at ${conflict}` });
+          return;
+        }
+        const pinnedBy = [
+          ...snapshotsPinning(to, pkg.sha256),
+          ...(action === "move" ? snapshots.referencing(from) : []),
+        ];
+        if (pinnedBy.length > 0) {
+          reply.code(409).send({ error: `Package is referenced by snapshots: ${pinnedBy.join(", ")}` });
+          return;
+        }
+
+        const dependencies = checkDependencies(to, pkg);
+        if (dependencies.unsatisfied.length > 0 && dependencies.mode === "reject") {
+          reply.code(409).send({
+            error: `Dependencies cannot be satisfied in ${to.repo}/${to.distribution}`,
+            unsatisfied: dependencies.unsatisfied,
+          });
+          return;
+        }
+
+        const metadata = storage.copyPackage(from, to);
+        if (action === "move") {
+          storage.deletePackage(from);
+        }
+
+        logger.access({
+          action,
+          keyId: uploaderIdentity(request),
+          ip: request.ip,
+          path: `${from.repo}/${from.distribution}/${from.component}/${from.architecture}/${from.name}/${from.version}`,
+          target: `${to.repo}/${to.distribution}/${to.component}`,
+          sha256: pkg.sha256,
+        });
+
+        if (dependencies.unsatisfied.length > 0) {
+          logger.warn("Unsatisfiable dependencies", {
+            path: `${to.repo}/${to.distribution}/${to.component}/${to.architecture}/${to.name}/${to.version}`,
+            unsatisfied: dependencies.unsatisfied,
+          });
+          reply.code(201).send({ ...metadata, warnings: dependencies.unsatisfied });
+          return;
+        }
+        reply.code(201).send(metadata);
+      }
+    );
+  }
+
+  registerTransfer("promote");
+  registerTransfer("copy");
+  registerTransfer("move");
+
   // List packages
   app.get<{ Querystring: ListQuery }>(
     "/api/v1/packages",
@@ -276,9 +771,14 @@ export function registerPackageRoutes(
       },
     },
     async (request, reply) => {
-      const { repo, distribution, component, architecture, name, version } =
+      const { repo, distribution, component, architecture, name, version, sort, group } =
         request.query;
 
+      if (sort !== undefined && sort !== "version") {
+        reply.code(400).send({ error: "sort must be \"version\"" });
+        return;
+      }
+
       const packages = storage.listPackages({
         repo,
         distribution,
@@ -288,7 +788,11 @@ export function registerPackageRoutes(
         version,
       });
 
-      reply.send({ packages });
+      const sorted = sort === "version" || group === "true" ? sortByVersion(packages) : packages;
+      reply.send({
+        packages: sort === "version" ? sorted : packages,
+        ...(group === "true" ? { groups: groupByName(sorted) } : {}),
+      });
     }
   );
 
@@ -328,6 +832,94 @@ export function registerPackageRoutes(
     }
   );
 
+  // The highest Debian version of a package, optionally within version
+  // constraints.  Sends the error reply and returns null if there is none.
+  const resolveLatest = (
+    request: FastifyRequest<{ Params: LatestParams; Querystring: LatestQuery }>,
+    reply: FastifyReply
+  ): PackageMetadata | null => {
+    const params = request.params;
+    const { version } = request.query;
+    const constraints = version === undefined ? [] : parseVersionConstraints(version);
+    if (!constraints) {
+      reply.code(400).send({ error: "Invalid version constraint" });
+      return null;
+    }
+
+    const candidates = storage
+      .listPackages({
+        repo: sanitizePath(params.repo),
+        distribution: sanitizePath(params.distribution),
+        component: sanitizePath(params.component),
+        architecture: sanitizePath(params.architecture),
+        name: sanitizePath(params.name),
+      })
+      .filter((pkg) => constraints.every((c) => satisfies(pkg.version, c)));
+    if (candidates.length === 0) {
+      reply.code(404).send({ error: "No matching version" });
+      return null;
+    }
+
+    const latest = candidates.reduce((a, b) => (compareVersions(b.version, a.version) > 0 ? b : a));
+    reply.header("X-Package-Version", latest.version);
+    reply.header("X-Checksum-Sha256", latest.sha256);
+    return latest;
+  };
+
+  const requireLatestRead = async (
+    request: FastifyRequest<{ Params: LatestParams }>,
+    reply: FastifyReply
+  ) => {
+    if (!request.apiKey) {
+      reply.code(401).send({ error: "Authentication required" });
+      return;
+    }
+    const { repo, distribution } = request.params;
+    if (!apiKeyService.hasPermission(request.apiKey, "read", repo, distribution)) {
+      reply.code(403).send({ error: "Read permission required" });
+      return;
+    }
+  };
+
+  // Metadata of the latest version
+  app.get<{ Params: LatestParams; Querystring: LatestQuery }>(
+    "/api/v1/packages/:repo/:distribution/:component/:architecture/:name/latest",
+    { preHandler: requireLatestRead },
+    async (request, reply) => {
+      const latest = resolveLatest(request, reply);
+      if (latest) {
+        reply.send(latest);
+      }
+    }
+  );
+
+  // Download of the latest version
+  app.get<{ Params: LatestParams; Querystring: LatestQuery }>(
+    "/api/v1/packages/:repo/:distribution/:component/:architecture/:name/latest/download",
+    { preHandler: requireLatestRead },
+    async (request, reply) => {
+      const latest = resolveLatest(request, reply);
+      if (!latest) return;
+
+      const filePath = storage.getPackageFile(latest);
+      if (!filePath) {
+        reply.code(404).send({ error: "Package not found" });
+        return;
+      }
+
+      logger.access({
+        action: "download",
+        keyId: request.apiKey!.id,
+        ip: request.ip,
+        path: `${latest.repo}/${latest.distribution}/${latest.component}/${latest.architecture}/${latest.name}/${latest.version}`,
+      });
+
+      reply.header("Content-Type", "application/vnd.debian.binary-package");
+      reply.header("Content-Disposition", `attachment; filename="${poolFilename(latest)}"`);
+      return reply.send(fs.createReadStream(filePath));
+    }
+  );
+
   // Download package file
   app.get<{ Params: { distribution: string; component: string; architecture: string; filename: string } }>(
     "/repo/:distribution/:component/:architecture/:filename",
@@ -396,6 +988,92 @@ export function registerPackageRoutes(
     }
   );
 
+  // Staged rollout of one package version: set the percentage, or pause,
+  // resume or halt it.  Reaching 100 ends the rollout.
+  app.post<{ Params: PackageParams; Body: PhasingBody }>(
+    "/api/v1/packages/:repo/:distribution/:component/:architecture/:name/:version/phasing",
+    {
+      preHandler: async (request, reply) => {
+        if (!request.apiKey) {
+          reply.code(401).send({ error: "Authentication required" });
+          return;
+        }
+        const { repo, distribution } = request.params;
+        if (!apiKeyService.hasPermission(request.apiKey, "admin", repo, distribution)) {
+          reply.code(403).send({ error: "Admin permission required" });
+          return;
+        }
+      },
+    },
+    async (request, reply) => {
+      const params = request.params;
+      const loc: PackageLocation = {
+        repo: sanitizePath(params.repo),
+        distribution: sanitizePath(params.distribution),
+        component: sanitizePath(params.component),
+        architecture: sanitizePath(params.architecture),
+        name: sanitizePath(params.name),
+        version: sanitizePath(params.version),
+      };
+      const { percentage, action } = request.body ?? {};
+
+      if ((percentage === undefined) === (action === undefined)) {
+        reply.code(400).send({ error: "Specify either percentage or action" });
+        return;
+      }
+      if (percentage !== undefined && !isPercentage(percentage)) {
+        reply.code(400).send({ error: "percentage must be an integer from 0 to 100" });
+        return;
+      }
+      if (action !== undefined && !["pause", "resume", "halt"].includes(action)) {
+        reply.code(400).send({ error: "Invalid action" });
+        return;
+      }
+
+      const metadata = storage.getPackageMetadata(loc);
+      if (!metadata) {
+        reply.code(404).send({ error: "Package not found" });
+        return;
+      }
+
+      const current = metadata.phasing;
+      const updatedAt = new Date().toISOString();
+      let phasing: PhasingState | undefined;
+      if (percentage !== undefined) {
+        if (current?.paused) {
+          reply.code(409).send({ error: "Rollout is paused; resume it first" });
+          return;
+        }
+        phasing = percentage < 100 ? { percentage, updatedAt } : undefined;
+      } else if (action === "halt") {
+        phasing = { percentage: 0, updatedAt };
+      } else {
+        if (!current) {
+          reply.code(409).send({ error: "Package is not being phased" });
+          return;
+        }
+        phasing = action === "pause"
+          ? { ...current, paused: true, updatedAt }
+          : { percentage: current.percentage, updatedAt };
+      }
+
+      const updated = storage.setPhasing(loc, phasing);
+      if (!updated) {
+        reply.code(404).send({ error: "Package not found" });
+        return;
+      }
+
+      logger.access({
+        action: "phasing",
+        keyId: request.apiKey!.id,
+        ip: request.ip,
+        path: `${loc.repo}/${loc.distribution}/${loc.component}/${loc.architecture}/${loc.name}/${loc.version}`,
+      });
+
+      reply.send(updated);
+    }
+  );
+
   // Delete package
   app.delete<{ Params: PackageParams }>(
     "/api/v1/packages/:repo/:distribution/:component/:architecture/:name/:version",
@@ -422,6 +1100,13 @@ export function registerPackageRoutes(
         version: sanitizePath(params.version),
       };
 
+      // Snapshots serve the stored file in place
+      const pinnedBy = snapshots.referencing(loc);
+      if (pinnedBy.length > 0) {
+        reply.code(409).send({ error: `Package is referenced by snapshots: ${pinnedBy.join(", ")}` });
+        return;
+      }
+
       const deleted = storage.deletePackage(loc);
       if (!deleted) {
         reply.code(404).send({ error: "Package not found" });
@@ -0,0 +1,65 @@
+import { FastifyInstance } from "fastify";
+import { RetentionService } from "../services/retention.js";
+import { ApiKeyService } from "../services/api-keys.js";
+import { isSafeName } from "../services/debian-validator.js";
+import { Logger } from "../utils/logger.js";
+
+interface RetentionRunBody {
+  repo?: string;              // Every repo with retention enabled if unset
+  dryRun?: boolean;
+}
+
+/**
+ * On-demand retention run — the scheduled run's policy, applied now.  See
+ * RetentionService.
+ */
+export function registerRetentionRoutes(
+  app: FastifyInstance,
+  retention: RetentionService,
+  apiKeyService: ApiKeyService,
+  logger: Logger
+): void {
+  app.post<{ Body: RetentionRunBody }>(
+    "/api/v1/retention/run",
+    {
+      preHandler: async (request, reply) => {
+        if (!request.apiKey) {
+          reply.code(401).send({ error: "Authentication required" });
+          return;
+        }
+        // A run across every repo needs a key that isn't limited to some
+        const repo = request.body?.repo;
+        if (
+          !apiKeyService.hasPermission(request.apiKey, "admin", repo) ||
+          (!repo && request.apiKey.scope?.repos)
+        ) {
+          reply.code(403).send({ error: "Admin permission required" });
+          return;
+        }
+      },
+    },
+    async (request, reply) => {
+      const { repo, dryRun = false } = request.body ?? {};
+
+      if (repo !== undefined && !isSafeName(repo)) {
+        reply.code(400).send({ error: "Invalid repo" });
+        return;
+      }
+      if (repo !== undefined && !retention.isEnabled(repo)) {
+        reply.code(409).send({ error: "Retention is not enabled for this repository" });
+        return;
+      }
+
+      try {
+        const report = retention.run(
+          { repo, dryRun: dryRun === true },
+          { keyId: request.apiKey!.id, ip: request.ip }
+        );
+        reply.send(report);
+      } catch (error) {
+        logger.error("Retention error", { error: String(error) });
+        reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
@@ -0,0 +1,172 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { StorageService } from "../services/storage.js";
+import { SnapshotService, diffPackages } from "../services/snapshots.js";
+import { ApiKeyService, ApiKeyRole } from "../services/api-keys.js";
+import { isSafeName } from "../services/debian-validator.js";
+import { Logger } from "../utils/logger.js";
+
+interface CreateSnapshotBody {
+  repo?: string;
+  distribution?: string;
+  name?: string;
+  description?: string;
+}
+
+interface SnapshotParams {
+  repo: string;
+  name: string;
+}
+
+interface DiffQuery {
+  // Another snapshot of the same repo; the live distribution if omitted
+  against?: string;
+}
+
+/**
+ * Snapshots freeze a distribution's package set under a name; apt reads
+ * them at /apt/<repo>/snapshots/<name>/ (see the apt routes).
+ */
+export function registerSnapshotRoutes(
+  app: FastifyInstance,
+  storage: StorageService,
+  snapshots: SnapshotService,
+  apiKeyService: ApiKeyService,
+  logger: Logger
+): void {
+  const roleNames: Record<ApiKeyRole, string> = { admin: "Admin", write: "Write", read: "Read" };
+
+  function requireRole(role: ApiKeyRole) {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.apiKey) {
+        reply.code(401).send({ error: "Authentication required" });
+        return;
+      }
+      const { repo } = request.params as Partial<SnapshotParams>;
+      if (!apiKeyService.hasPermission(request.apiKey, role, repo)) {
+        reply.code(403).send({ error: `${roleNames[role]} permission required` });
+        return;
+      }
+    };
+  }
+
+  // Take a snapshot
+  app.post<{ Body: CreateSnapshotBody }>(
+    "/api/v1/snapshots",
+    { preHandler: requireRole("write") },
+    async (request, reply) => {
+      const { repo = "default", distribution = "stable", name, description } = request.body ?? {};
+
+      if (!name || !isSafeName(name) || !isSafeName(repo) || !isSafeName(distribution)) {
+        reply.code(400).send({ error: "Invalid snapshot name, repo or distribution" });
+        return;
+      }
+      if (!apiKeyService.hasPermission(request.apiKey!, "write", repo, distribution)) {
+        reply.code(403).send({ error: "No permission for this repository" });
+        return;
+      }
+      if (snapshots.get(repo, name)) {
+        reply.code(409).send({ error: `Snapshot ${name} already exists` });
+        return;
+      }
+      if (storage.listPackages({ repo, distribution }).length === 0) {
+        reply.code(404).send({ error: "Distribution not found" });
+        return;
+      }
+
+      const snapshot = snapshots.create(repo, distribution, name, request.apiKey!.id, description);
+
+      logger.access({
+        action: "snapshot",
+        keyId: request.apiKey!.id,
+        ip: request.ip,
+        path: `${repo}/${distribution}@${name}`,
+      });
+
+      const { packages, ...summary } = snapshot;
+      reply.code(201).send({ ...summary, packageCount: packages.length });
+    }
+  );
+
+  // List snapshots, optionally of one repo
+  app.get<{ Querystring: { repo?: string } }>(
+    "/api/v1/snapshots",
+    { preHandler: requireRole("read") },
+    async (request, reply) => {
+      const { repo } = request.query;
+      if (repo !== undefined && !isSafeName(repo)) {
+        reply.code(400).send({ error: "Invalid repo" });
+        return;
+      }
+      reply.send({ snapshots: snapshots.list(repo) });
+    }
+  );
+
+  // One snapshot with its full package list
+  app.get<{ Params: SnapshotParams }>(
+    "/api/v1/snapshots/:repo/:name",
+    { preHandler: requireRole("read") },
+    async (request, reply) => {
+      const { repo, name } = request.params;
+      const snapshot = isSafeName(repo) && isSafeName(name) ? snapshots.get(repo, name) : null;
+      if (!snapshot) {
+        reply.code(404).send({ error: "Snapshot not found" });
+        return;
+      }
+      reply.send(snapshot);
+    }
+  );
+
+  // What changed since a snapshot: up to another snapshot, or to now
+  app.get<{ Params: SnapshotParams; Querystring: DiffQuery }>(
+    "/api/v1/snapshots/:repo/:name/diff",
+    { preHandler: requireRole("read") },
+    async (request, reply) => {
+      const { repo, name } = request.params;
+      const { against } = request.query;
+      const snapshot = isSafeName(repo) && isSafeName(name) ? snapshots.get(repo, name) : null;
+      if (!snapshot) {
+        reply.code(404).send({ error: "Snapshot not found" });
+        return;
+      }
+
+      let target = storage.listPackages({ repo, distribution: snapshot.distribution });
+      if (against !== undefined) {
+        const other = isSafeName(against) ? snapshots.get(repo, against) : null;
+        if (!other) {
+          reply.code(404).send({ error: `Snapshot ${against} not found` });
+          return;
+        }
+        target = other.packages;
+      }
+
+      reply.send({
+        from: name,
+        to: against ?? snapshot.distribution,
+        ...diffPackages(snapshot.packages, target),
+      });
+    }
+  );
+
+  // Delete a snapshot.  Its packages stay unless deleted separately.
+  app.delete<{ Params: SnapshotParams }>(
+    "/api/v1/snapshots/:repo/:name",
+    { preHandler: requireRole("admin") },
+    async (request, reply) => {
+      const { repo, name } = request.params;
+      const deleted = isSafeName(repo) && isSafeName(name) && snapshots.delete(repo, name);
+      if (!deleted) {
+        reply.code(404).send({ error: "Snapshot not found" });
+        return;
+      }
+
+      logger.access({
+        action: "delete-snapshot",
+        keyId: request.apiKey!.id,
+        ip: request.ip,
+        path: `${repo}@${name}`,
+      });
+
+      reply.code(204).send();
+    }
+  );
+}
@@ -23,10 +23,21 @@ export interface ApiKeyStore {
   keys: ApiKeyData[];
 }
 
+// How long a verified HTTP Basic credential skips argon2 — apt sends one per
+// request — and how many are remembered
+const VERIFIED_TTL_MS = 60 * 1000;
+const VERIFIED_MAX = 1000;
+
+// lastUsed changes alone are written at most this often
+const LAST_USED_SAVE_INTERVAL_MS = 5 * 60 * 1000;
+
 export class ApiKeyService {
   private keysPath: string;
   private adminKey?: string;
   private store: ApiKeyStore = { keys: [] };
+  private verified = new Map<string, number>();   // id:sha256(hash, key) -> expiry
+  private lastSaved = 0;
+  private unsaved = false;
 
   constructor(keysPath: string, adminKey?: string) {
     this.keysPath = keysPath;
@@ -43,6 +54,24 @@ export class ApiKeyService {
 
   private save(): void {
     fs.writeFileSync(this.keysPath, JSON.stringify(this.store, null, 2));
+    this.lastSaved = Date.now();
+    this.unsaved = false;
+  }
+
+  /** Write lastUsed changes not yet saved, e.g. on shutdown. */
+  flush(): void {
+    if (this.unsaved) {
+      this.save();
+    }
+  }
+
+  private markUsed(keyData: ApiKeyData): void {
+    keyData.lastUsed = new Date().toISOString();
+    if (Date.now() - this.lastSaved >= LAST_USED_SAVE_INTERVAL_MS) {
+      this.save();
+    } else {
+      this.unsaved = true;
+    }
   }
 
   async createKey(
@@ -69,34 +98,88 @@ export class ApiKeyService {
     return { id, key };
   }
 
+  private getAdminKeyData(): ApiKeyData {
+    return {
+      id: "admin",
+      hash: "",
+      role: "admin",
+      createdAt: new Date().toISOString(),
+      description: "Bootstrap admin key",
+    };
+  }
+
+  private async verifyKey(keyData: ApiKeyData, key: string): Promise<boolean> {
+    try {
+      if (await argon2.verify(keyData.hash, key)) {
+        this.markUsed(keyData);
+        return true;
+      }
+    } catch {
+      // Invalid hash format, skip
+    }
+    return false;
+  }
+
   async validateKey(key: string): Promise<ApiKeyData | null> {
     // Check admin key first
     if (this.adminKey && key === this.adminKey) {
-      return {
-        id: "admin",
-        hash: "",
-        role: "admin",
-        createdAt: new Date().toISOString(),
-        description: "Bootstrap admin key",
-      };
+      return this.getAdminKeyData();
     }
 
     for (const keyData of this.store.keys) {
-      try {
-        if (await argon2.verify(keyData.hash, key)) {
-          // Update last used
-          keyData.lastUsed = new Date().toISOString();
-          this.save();
-          return keyData;
-        }
-      } catch {
-        // Invalid hash format, skip
+      if (await this.verifyKey(keyData, key)) {
+        return keyData;
       }
     }
 
     return null;
   }
 
+  /**
+   * Validate a key whose id is already known, as with HTTP Basic auth for
+   * apt (username = key id, password = key).  Only that key's hash is
+   * checked, and a match is remembered for a minute so the requests of one
+   * `apt update` don't each pay for argon2.  The bootstrap admin key has
+   * the id "admin".
+   */
+  async validateKeyWithId(id: string, key: string): Promise<ApiKeyData | null> {
+    if (id === "admin") {
+      return this.adminKey && key === this.adminKey ? this.getAdminKeyData() : null;
+    }
+
+    const keyData = this.store.keys.find((k) => k.id === id);
+    if (!keyData) {
+      return null;
+    }
+
+    // Keyed on the stored hash too, so a replaced key is verified afresh
+    const verifiedKey = `${id}:${crypto.createHash("sha256").update(`${keyData.hash}\0${key}`).digest("hex")}`;
+    if ((this.verified.get(verifiedKey) ?? 0) > Date.now()) {
+      this.markUsed(keyData);
+      return keyData;
+    }
+    if (await this.verifyKey(keyData, key)) {
+      this.rememberVerified(verifiedKey);
+      return keyData;
+    }
+
+    return null;
+  }
+
+  private rememberVerified(verifiedKey: string): void {
+    const now = Date.now();
+    if (this.verified.size >= VERIFIED_MAX) {
+      for (const [k, expires] of this.verified) {
+        if (expires <= now) this.verified.delete(k);
+      }
+      // Still full: drop the oldest
+      if (this.verified.size >= VERIFIED_MAX) {
+        this.verified.delete(this.verified.keys().next().value!);
+      }
+    }
+    this.verified.set(verifiedKey, now + VERIFIED_TTL_MS);
+  }
+
   deleteKey(id: string): boolean {
     const index = this.store.keys.findIndex((k) => k.id === id);
     if (index === -1) {
@@ -0,0 +1,768 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import { StorageService, PackageMetadata } from "./storage.js";
+import { ByHashStore, ByHashAlgorithm } from "./by-hash.js";
+import { Snapshot } from "./snapshots.js";
+import { Config, FlatConfig, ReleaseConfig } from "../config.js";
+import { getRepoConfig, getDistributionConfig, getReleaseConfig } from "../utils/config-loader.js";
+import { poolDirectory, poolFiles } from "../utils/pool.js";
+import {
+  IndexCompression,
+  compressIndex,
+  isIndexCompression,
+} from "../utils/compression.js";
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/**
+ * The full Description field of a package, as it appears in Packages.
+ *
+ * Use the real description from the control file if available, otherwise
+ * fall back to a minimal synthetic description.
+ * Normalise continuation lines: apt requires exactly one leading space.
+ * dpkg -I may return two spaces (the control file format uses one space but
+ * dpkg's output indents once more for display).
+ */
+function normaliseDescription(pkg: PackageMetadata): string {
+  const rawDesc = pkg.description ?? `${pkg.name} ${pkg.version}`;
+  return rawDesc
+    .split("\n")
+    .map((line, i) =>
+      i === 0 ? line : " " + line.replace(/^\s*/, "")
+    )
+    .join("\n");
+}
+
+function descriptionMd5(description: string): string {
+  return crypto.createHash("md5").update(description + "\n").digest("hex");
+}
+
+/**
+ * Generate the apt-format Packages file content for a given set of packages.
+ * Filename paths are relative to the repo base URL.
+ *
+ * With `splitDescriptions`, only the short description is inline (as in the
+ * Debian archive) and the long one is published in Translation-en.
+ */
+export function generatePackagesContent(
+  packages: PackageMetadata[],
+  splitDescriptions = false
+): string {
+  const entries: string[] = [];
+
+  for (const pkg of packages) {
+    // Compute the relative Filename for apt download
+    const filename = poolFiles(pkg)[0].path;
+
+    const lines = [`Package: ${pkg.name}`];
+    if (pkg.source) lines.push(`Source: ${pkg.source}`);
+    lines.push(
+      `Version: ${pkg.version}`,
+      `Architecture: ${pkg.architecture}`,
+    );
+
+    // Emit optional control fields stored at upload time, in the conventional
+    // Packages-file order.
+    if (pkg.maintainer) lines.push(`Maintainer: ${pkg.maintainer}`);
+
+    // Emit Multi-Arch in the Packages index.
+    //
+    // The value emitted here must exactly match what dpkg will record in
+    // /var/lib/dpkg/status when the package is installed.  dpkg copies the
+    // Multi-Arch field from the deb's own control file (or from the Packages
+    // index) verbatim into the status database.
+    //
+    // Rule: only emit Multi-Arch when the deb's control file explicitly
+    // declares it (stored in pkg.multiArch at upload time).  Do NOT synthesise
+    // a Multi-Arch value for any package.  If a synthetic value is added here
+    // but the deb doesn't carry the same field, dpkg will record the synthetic
+    // value in its status the first time the package is installed, and then
+    // subsequent apt runs will see a mismatch between the Packages-file entry
+    // (which no longer has the synthetic value) and the status entry (which
+    // does), causing the package to appear perpetually "upgradeable".
+    if (pkg.multiArch) {
+      lines.push(`Multi-Arch: ${pkg.multiArch}`);
+    }
+
+    if (pkg.homepage) lines.push(`Homepage: ${pkg.homepage}`);
+    if (pkg.section) lines.push(`Section: ${pkg.section}`);
+    if (pkg.priority) lines.push(`Priority: ${pkg.priority}`);
+    if (pkg.preDepends) lines.push(`Pre-Depends: ${pkg.preDepends}`);
+    if (pkg.depends) lines.push(`Depends: ${pkg.depends}`);
+    if (pkg.suggests) lines.push(`Suggests: ${pkg.suggests}`);
+    if (pkg.conflicts) lines.push(`Conflicts: ${pkg.conflicts}`);
+    if (pkg.breaks) lines.push(`Breaks: ${pkg.breaks}`);
+    if (pkg.replaces) lines.push(`Replaces: ${pkg.replaces}`);
+    if (pkg.provides) lines.push(`Provides: ${pkg.provides}`);
+
+    // Only emit Installed-Size if the deb's control explicitly declared it.
+    // A synthetic size computed from the download size would diverge from what
+    // dpkg/status stores (which comes from the deb itself), causing a version
+    // hash mismatch in apt and making the package appear perpetually upgradeable.
+    if (pkg.installedSize != null) {
+      lines.push(`Installed-Size: ${pkg.installedSize}`);
+    }
+
+    lines.push(
+      `Filename: ${filename}`,
+      `Size: ${pkg.size}`,
+      `SHA256: ${pkg.sha256}`,
+    );
+
+    // Computed at upload time; never re-read the .deb here
+    if (pkg.md5) {
+      lines.push(`MD5sum: ${pkg.md5}`);
+    }
+
+    // Description-md5 always covers the full description, so apt can match
+    // the Translation-en entry when only the short description is inline.
+    const description = normaliseDescription(pkg);
+    const shortDescription = description.split("\n")[0];
+    lines.push(`Description: ${splitDescriptions ? shortDescription : description}`);
+    lines.push(`Description-md5: ${descriptionMd5(description)}`);
+
+    // Staged rollout; not part of apt's VersionHash, so changing it never
+    // makes installed packages look upgradeable
+    if (pkg.phasing && pkg.phasing.percentage < 100) {
+      lines.push(`Phased-Update-Percentage: ${pkg.phasing.percentage}`);
+    }
+
+    entries.push(lines.join("\n"));
+  }
+
+  return entries.length > 0 ? entries.join("\n\n") + "\n\n" : "";
+}
+
+/**
+ * Generate the apt-format Sources file content for a set of source
+ * packages.  Directory is relative to the repo base URL; Files and
+ * Checksums-Sha256 list the .dsc and everything it references.
+ */
+export function generateSourcesContent(packages: PackageMetadata[]): string {
+  const entries: string[] = [];
+
+  for (const pkg of packages) {
+    const files = pkg.sourceFiles ?? [];
+    const lines = [`Package: ${pkg.name}`];
+    if (pkg.binary) lines.push(`Binary: ${pkg.binary}`);
+    lines.push(`Version: ${pkg.version}`);
+    if (pkg.maintainer) lines.push(`Maintainer: ${pkg.maintainer}`);
+    if (pkg.buildDepends) lines.push(`Build-Depends: ${pkg.buildDepends}`);
+    if (pkg.buildDependsIndep) lines.push(`Build-Depends-Indep: ${pkg.buildDependsIndep}`);
+    if (pkg.buildConflicts) lines.push(`Build-Conflicts: ${pkg.buildConflicts}`);
+    if (pkg.dscArchitecture) lines.push(`Architecture: ${pkg.dscArchitecture}`);
+    if (pkg.standardsVersion) lines.push(`Standards-Version: ${pkg.standardsVersion}`);
+    if (pkg.format) lines.push(`Format: ${pkg.format}`);
+    lines.push(
+      `Files:`,
+      ...files.map((f) => ` ${f.md5} ${f.size} ${f.name}`),
+      `Checksums-Sha256:`,
+      ...files.map((f) => ` ${f.sha256} ${f.size} ${f.name}`),
+    );
+    if (pkg.homepage) lines.push(`Homepage: ${pkg.homepage}`);
+    lines.push(`Directory: ${poolDirectory(pkg.component, pkg.name)}`);
+    if (pkg.priority) lines.push(`Priority: ${pkg.priority}`);
+    if (pkg.section) lines.push(`Section: ${pkg.section}`);
+
+    entries.push(lines.join("\n"));
+  }
+
+  return entries.length > 0 ? entries.join("\n\n") + "\n\n" : "";
+}
+
+/**
+ * The plain index plus each configured compressed variant, keyed by the
+ * path suffix apt requests ("" for the uncompressed file).  Variants whose
+ * compressor is unavailable on this host are left out.
+ */
+function indexVariants(
+  content: string,
+  compressions: IndexCompression[]
+): { suffix: string; data: Buffer }[] {
+  const plain = Buffer.from(content, "utf-8");
+  const variants: { suffix: string; data: Buffer }[] = [{ suffix: "", data: plain }];
+  for (const compression of compressions) {
+    const data = compressIndex(plain, compression);
+    if (data) variants.push({ suffix: `.${compression}`, data });
+  }
+  return variants;
+}
+
+/**
+ * Generate a Translation-en index: the full description of every package,
+ * keyed by Package and Description-md5.  Each distinct description is
+ * listed once, even if several versions or arches share it.
+ */
+export function generateTranslationContent(packages: PackageMetadata[]): string {
+  const entries = new Map<string, string>();
+  for (const pkg of packages) {
+    const description = normaliseDescription(pkg);
+    const md5 = descriptionMd5(description);
+    const key = `${pkg.name}\0${md5}`;
+    if (entries.has(key)) continue;
+    entries.set(key, [
+      `Package: ${pkg.name}`,
+      `Description-md5: ${md5}`,
+      `Description-en: ${description}`,
+    ].join("\n"));
+  }
+
+  const sorted = Array.from(entries.keys()).sort().map((key) => entries.get(key)!);
+  return sorted.length > 0 ? sorted.join("\n\n") + "\n\n" : "";
+}
+
+/**
+ * Generate a Contents index: every file shipped by the given packages, with
+ * the packages that ship it as `section/name`, sorted by path.
+ */
+export function generateContentsContent(
+  packages: PackageMetadata[],
+  getContents: (pkg: PackageMetadata) => string[] | null
+): string {
+  const owners = new Map<string, Set<string>>();
+  for (const pkg of packages) {
+    const location = pkg.section ? `${pkg.section}/${pkg.name}` : pkg.name;
+    for (const file of getContents(pkg) ?? []) {
+      let set = owners.get(file);
+      if (!set) {
+        set = new Set();
+        owners.set(file, set);
+      }
+      set.add(location);
+    }
+  }
+
+  // apt-file splits each line on the last run of whitespace, so paths that
+  // contain spaces are still unambiguous
+  return Array.from(owners.keys())
+    .sort()
+    .map((file) => `${file.padEnd(59)} ${Array.from(owners.get(file)!).sort().join(",")}\n`)
+    .join("");
+}
+
+/** An index file referenced from Release, relative to dists/<distribution>/. */
+export interface IndexFile {
+  path: string;
+  data: Buffer;
+  md5: string;
+  sha256: string;
+  sha512: string;
+}
+
+function pushIndexFile(
+  indexFiles: IndexFile[],
+  relPath: string,
+  content: string,
+  compressions: IndexCompression[]
+): void {
+  for (const { suffix, data } of indexVariants(content, compressions)) {
+    indexFiles.push({
+      path: `${relPath}${suffix}`,
+      data,
+      md5: crypto.createHash("md5").update(data).digest("hex"),
+      sha256: crypto.createHash("sha256").update(data).digest("hex"),
+      sha512: crypto.createHash("sha512").update(data).digest("hex"),
+    });
+  }
+}
+
+/**
+ * The small Release file apt reads from each binary-<arch>/ and source/
+ * directory, as in the Debian archive.
+ */
+export function generateComponentReleaseContent(
+  distribution: string,
+  component: string,
+  architecture: string,
+  release: ReleaseConfig
+): string {
+  const lines = [`Archive: ${distribution}`];
+  if (release.origin) lines.push(`Origin: ${release.origin}`);
+  if (release.label) lines.push(`Label: ${release.label}`);
+  if (release.version) lines.push(`Version: ${release.version}`);
+  lines.push(
+    `Acquire-By-Hash: yes`,
+    `Component: ${component}`,
+    `Architecture: ${architecture}`,
+  );
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generate an apt Release file listing available components and hashes for
+ * every Packages, Sources, Contents and Translation file (and their
+ * compressed variants) under this distribution.  The hashed index files are returned
+ * alongside the content so they can be published for Acquire-By-Hash.
+ */
+interface ReleaseOptions {
+  compressions: IndexCompression[];
+  splitDescriptions: boolean;
+  date: Date;
+  release: ReleaseConfig;
+  // Declared in config; otherwise derived from the stored packages
+  architectures?: string[];
+  components?: string[];
+  getContents: (pkg: PackageMetadata) => string[] | null;
+}
+
+function generateReleaseContent(
+  distribution: string,
+  packages: PackageMetadata[],
+  options: ReleaseOptions
+): { content: string; indexFiles: IndexFile[] } {
+  const { compressions, splitDescriptions, date, release } = options;
+
+  // Architecture: all packages are in every Contents-<arch>; read each
+  // package's file list once per build
+  const contents = new Map<PackageMetadata, string[] | null>();
+  const getContents = (pkg: PackageMetadata) => {
+    if (!contents.has(pkg)) contents.set(pkg, options.getContents(pkg));
+    return contents.get(pkg)!;
+  };
+
+  // Source packages are stored under architecture "source" and only appear
+  // in the Sources indexes; debug symbol packages only in <component>/debug
+  // and installer packages only in <component>/debian-installer
+  const sources = packages.filter((p) => p.architecture === "source");
+  const binaries = packages.filter((p) => p.architecture !== "source" && !p.packageType);
+  const ddebs = packages.filter((p) => p.packageType === "ddeb");
+  const udebs = packages.filter((p) => p.packageType === "udeb");
+
+  const components = Array.from(new Set([
+    ...(options.components ?? []),
+    ...packages.map((p) => p.component),
+  ]));
+  const debugComponents = components.filter((c) => ddebs.some((p) => p.component === c));
+
+  // Declared architectures each get an index even while empty, so clients
+  // of that arch never hit a missing Release entry.  Otherwise publish the
+  // arches that have packages, with amd64 standing in for a distribution
+  // that only holds Architecture:all packages.
+  let architectures = options.architectures;
+  if (!architectures) {
+    const archSet = new Set<string>();
+    for (const pkg of [...binaries, ...ddebs, ...udebs]) {
+      if (pkg.architecture !== "all") archSet.add(pkg.architecture);
+    }
+    if (archSet.size === 0) archSet.add("amd64");
+    architectures = Array.from(archSet);
+  }
+  const declared = options.architectures !== undefined;
+
+  const indexFiles: IndexFile[] = [];
+
+  // For every component × binary arch, generate the Packages content and compute checksums
+  for (const component of components) {
+    const debugForComponent = ddebs.filter((p) => p.component === component);
+    const installerForComponent = udebs.filter((p) => p.component === component);
+    // Packages that belong to this component and match the exact arch.
+    // Architecture:all packages are included in each binary-{arch}/Packages file
+    // (same as real Debian/Ubuntu repos) so that apt can merge the installed
+    // dpkg/status record with the repo Packages entry.  Without this, apt keeps
+    // the records separate and reports every arch=all package as "upgradeable"
+    // even when the installed version already matches.
+    for (const arch of architectures) {
+      const pkgsForArch = binaries.filter(
+        (p) =>
+          p.component === component &&
+          (p.architecture === arch || p.architecture === "all")
+      );
+      if (pkgsForArch.length === 0 && !declared) continue;
+
+      pushIndexFile(
+        indexFiles,
+        `${component}/binary-${arch}/Packages`,
+        generatePackagesContent(pkgsForArch, splitDescriptions),
+        compressions
+      );
+      pushIndexFile(
+        indexFiles,
+        `${component}/binary-${arch}/Release`,
+        generateComponentReleaseContent(distribution, component, arch, release),
+        []
+      );
+
+      // Contents-<arch> lists the same package set, so apt-file sees the
+      // files of Architecture:all packages on every arch too
+      pushIndexFile(
+        indexFiles,
+        `${component}/Contents-${arch}`,
+        generateContentsContent(pkgsForArch, getContents),
+        compressions
+      );
+
+      // Debug symbols for the same arch, as the parallel <component>/debug
+      // component of the Debian archive
+      const debugForArch = debugForComponent.filter(
+        (p) => p.architecture === arch || p.architecture === "all"
+      );
+      if (debugForArch.length > 0) {
+        pushIndexFile(
+          indexFiles,
+          `${component}/debug/binary-${arch}/Packages`,
+          generatePackagesContent(debugForArch),
+          compressions
+        );
+        pushIndexFile(
+          indexFiles,
+          `${component}/debug/binary-${arch}/Release`,
+          generateComponentReleaseContent(distribution, `${component}/debug`, arch, release),
+          []
+        );
+      }
+
+      // Installer packages, where debian-installer looks for them.  Like
+      // Debian's, this is a subdirectory of the component rather than a
+      // component of its own, and has no Release of its own.
+      const installerForArch = installerForComponent.filter(
+        (p) => p.architecture === arch || p.architecture === "all"
+      );
+      if (installerForArch.length > 0) {
+        pushIndexFile(
+          indexFiles,
+          `${component}/debian-installer/binary-${arch}/Packages`,
+          generatePackagesContent(installerForArch),
+          compressions
+        );
+      }
+    }
+
+    if (splitDescriptions) {
+      pushIndexFile(
+        indexFiles,
+        `${component}/i18n/Translation-en`,
+        generateTranslationContent(binaries.filter((p) => p.component === component)),
+        compressions
+      );
+    }
+
+    const sourcesForComponent = sources.filter((p) => p.component === component);
+    if (sourcesForComponent.length > 0) {
+      pushIndexFile(
+        indexFiles,
+        `${component}/source/Sources`,
+        generateSourcesContent(sourcesForComponent),
+        compressions
+      );
+      pushIndexFile(
+        indexFiles,
+        `${component}/source/Release`,
+        generateComponentReleaseContent(distribution, component, "source", release),
+        []
+      );
+    }
+
+    // Architecture:all packages are included in each binary-{arch}/Packages
+    // above.  Do NOT generate a separate binary-all/Packages — that would cause
+    // apt to see arch=all packages from two sources and report them as
+    // perpetually upgradeable (the original issue #5).
+  }
+
+  const header: string[] = [];
+  if (release.origin) header.push(`Origin: ${release.origin}`);
+  if (release.label) header.push(`Label: ${release.label}`);
+  header.push(`Suite: ${distribution}`);
+  if (release.version) header.push(`Version: ${release.version}`);
+  if (release.codename) header.push(`Codename: ${release.codename}`);
+  header.push(...dateLines(release, date));
+  header.push(
+    `Architectures: ${architectures.join(" ")}`,
+    `Components: ${[...components, ...debugComponents.map((c) => `${c}/debug`)].join(" ")}`,
+  );
+  if (release.description) header.push(`Description: ${release.description}`);
+
+  const content = [
+    ...header,
+    // Every index is also served under <dir>/by-hash/<algorithm>/<hash>
+    `Acquire-By-Hash: yes`,
+    ...checksumLines(indexFiles),
+  ].join("\n") + "\n";
+
+  return { content, indexFiles };
+}
+
+/**
+ * Generate the Packages index and Release of a flat repository: one
+ * component of one distribution, every architecture in a single Packages
+ * file at the root.  Filename keeps the pool path, which resolves inside
+ * the flat tree as well.
+ */
+export function generateFlatReleaseContent(
+  packages: PackageMetadata[],
+  options: Pick<ReleaseOptions, "compressions" | "date" | "release">
+): { content: string; indexFiles: IndexFile[] } {
+  const { compressions, date, release } = options;
+  const binaries = packages.filter((p) => p.architecture !== "source" && !p.packageType);
+
+  const indexFiles: IndexFile[] = [];
+  pushIndexFile(indexFiles, "Packages", generatePackagesContent(binaries), compressions);
+
+  // No Suite, Codename or Components: apt has nothing to check them against
+  // for a "./" source line
+  const header: string[] = [];
+  if (release.origin) header.push(`Origin: ${release.origin}`);
+  if (release.label) header.push(`Label: ${release.label}`);
+  if (release.version) header.push(`Version: ${release.version}`);
+  header.push(...dateLines(release, date));
+  if (release.description) header.push(`Description: ${release.description}`);
+
+  const content = [...header, ...checksumLines(indexFiles)].join("\n") + "\n";
+  return { content, indexFiles };
+}
+
+// Date, Valid-Until and the NotAutomatic pair, in Release field order
+function dateLines(release: ReleaseConfig, date: Date): string[] {
+  const lines = [`Date: ${date.toUTCString()}`];
+  if (release.validForDays) {
+    const validUntil = new Date(date.getTime() + release.validForDays * DAY_MS);
+    lines.push(`Valid-Until: ${validUntil.toUTCString()}`);
+  }
+  if (release.notAutomatic) {
+    lines.push(`NotAutomatic: yes`);
+    if (release.butAutomaticUpgrades) lines.push(`ButAutomaticUpgrades: yes`);
+  }
+  return lines;
+}
+
+function checksumLines(indexFiles: IndexFile[]): string[] {
+  return [
+    `MD5Sum:`,
+    ...indexFiles.map((f) => ` ${f.md5} ${f.data.length} ${f.path}`),
+    `SHA256:`,
+    ...indexFiles.map((f) => ` ${f.sha256} ${f.data.length} ${f.path}`),
+    `SHA512:`,
+    ...indexFiles.map((f) => ` ${f.sha512} ${f.data.length} ${f.path}`),
+  ];
+}
+
+/**
+ * Everything apt fetches from dists/<distribution>/ (or from the root of a
+ * flat repository), built in one pass.
+ */
+export interface DistributionIndex {
+  release: string;
+  files: Map<string, IndexFile>;
+  lastModified: Date;
+  // Release Date; served as Last-Modified for everything under dists/
+  date: Date;
+  // Set when Release carries Valid-Until: rebuild (and re-sign) after this
+  refreshAt?: Date;
+  // Filled in lazily by the signing routes
+  inRelease?: string;
+  releaseSignature?: string;
+}
+
+/**
+ * Builds and caches the apt indexes for each repo/distribution.
+ *
+ * Generating a distribution's indexes touches every package entry and runs
+ * the compressors, so the result is kept in memory and only rebuilt when the
+ * distribution's last-modified stamp in storage changes (i.e. a package was
+ * stored or deleted).  Each rebuild also publishes the new index files to
+ * the by-hash store before any Release referencing them is served.
+ *
+ * A Release with Valid-Until is dated when it is built rather than by the
+ * last change, and rebuilt halfway through its validity so that clients
+ * never see an expired one.
+ */
+export class AptIndexService {
+  private storage: StorageService;
+  private config: Config;
+  private byHash: ByHashStore;
+  private cache: Map<string, DistributionIndex> = new Map();
+  private flatCache: Map<string, DistributionIndex> = new Map();
+  private snapshotCache: Map<string, DistributionIndex> = new Map();
+  // Indexes built for a distribution with no history
+  private undated: WeakSet<DistributionIndex> = new WeakSet();
+
+  constructor(storage: StorageService, config: Config) {
+    this.storage = storage;
+    this.config = config;
+    this.byHash = new ByHashStore(config.dataRoot);
+  }
+
+  getDistribution(repo: string, distribution: string): DistributionIndex {
+    return this.getCached(this.cache, `${repo}/${distribution}`, repo, distribution,
+      (lastModified) => this.build(repo, distribution, lastModified));
+  }
+
+  /** The flat-repository view of a repo, or null if none is configured. */
+  getFlat(repo: string): DistributionIndex | null {
+    const flat = getRepoConfig(this.config, repo).flat;
+    if (!flat) return null;
+    return this.getCached(this.flatCache, repo, repo, flat.distribution,
+      (lastModified) => this.buildFlat(repo, flat, lastModified));
+  }
+
+  /**
+   * The dists/ tree of a snapshot.  A snapshot never changes, so it is
+   * built once; the Release is dated when the snapshot was taken and never
+   * carries Valid-Until, which would make old snapshots unusable.  Nothing
+   * is published to the by-hash store: every index is still in memory.
+   */
+  getSnapshot(snapshot: Snapshot): DistributionIndex {
+    const key = `${snapshot.repo}/${snapshot.name}`;
+    const createdAt = new Date(snapshot.createdAt);
+    const cached = this.snapshotCache.get(key);
+    // A snapshot deleted and retaken under the same name is a new one
+    if (cached && cached.lastModified.getTime() === createdAt.getTime()) {
+      return cached;
+    }
+
+    const { repo, distribution } = snapshot;
+    const repoConfig = getRepoConfig(this.config, repo);
+    const distConfig = getDistributionConfig(this.config, repo, distribution);
+    const release = { ...getReleaseConfig(this.config, repo, distribution), validForDays: undefined };
+    const { content, indexFiles } = generateReleaseContent(distribution, snapshot.packages, {
+      compressions: (repoConfig.compressions ?? []).filter(isIndexCompression),
+      splitDescriptions: repoConfig.translations ?? false,
+      date: createdAt,
+      release,
+      architectures: distConfig.architectures,
+      components: distConfig.components,
+      getContents: (pkg) => this.storage.getPackageContents(pkg),
+    });
+
+    const index: DistributionIndex = {
+      release: content,
+      files: new Map(indexFiles.map((f) => [f.path, f])),
+      lastModified: createdAt,
+      date: createdAt,
+    };
+    this.snapshotCache.set(key, index);
+    return index;
+  }
+
+  private getCached(
+    cache: Map<string, DistributionIndex>,
+    key: string,
+    repo: string,
+    distribution: string,
+    build: (lastModified: Date) => DistributionIndex
+  ): DistributionIndex {
+    const lastModified = this.storage.getLastModified(repo, distribution);
+
+    // A distribution with no history (configured, nothing uploaded yet) is
+    // dated when first built, and that index stands until its first change,
+    // so its Release and signatures don't change from request to request
+    const cached = cache.get(key);
+    if (
+      cached &&
+      (lastModified
+        ? !this.undated.has(cached) && cached.lastModified.getTime() === lastModified.getTime()
+        : this.undated.has(cached)) &&
+      (!cached.refreshAt || Date.now() < cached.refreshAt.getTime())
+    ) {
+      return cached;
+    }
+
+    const index = build(lastModified ?? new Date());
+    if (!lastModified) {
+      this.undated.add(index);
+    }
+    cache.set(key, index);
+    return index;
+  }
+
+  /** One index file by its path relative to dists/<distribution>/. */
+  getIndexFile(repo: string, distribution: string, relPath: string): IndexFile | null {
+    return this.getDistribution(repo, distribution).files.get(relPath) ?? null;
+  }
+
+  /** Path of a current or recently superseded index file, by hash. */
+  getByHashFile(
+    repo: string,
+    distribution: string,
+    indexDir: string,
+    algorithm: ByHashAlgorithm,
+    hash: string
+  ): string | null {
+    // Building (or validating the cache for) the distribution first
+    // guarantees the current indexes have been published
+    this.getDistribution(repo, distribution);
+    return this.byHash.getFile(repo, distribution, indexDir, algorithm, hash);
+  }
+
+  /** Every by-hash file getByHashFile() would serve for a distribution. */
+  listByHashFiles(repo: string, distribution: string): { path: string; filePath: string }[] {
+    this.getDistribution(repo, distribution);
+    return this.byHash.list(repo, distribution);
+  }
+
+  // Release dates follow the last change, except with Valid-Until (see above)
+  private releaseDates(release: ReleaseConfig, lastModified: Date): { date: Date; refreshAt?: Date } {
+    const date = release.validForDays ? new Date() : lastModified;
+    const refreshAt = release.validForDays
+      ? new Date(date.getTime() + (release.validForDays * DAY_MS) / 2)
+      : undefined;
+    return { date, refreshAt };
+  }
+
+  private build(repo: string, distribution: string, lastModified: Date): DistributionIndex {
+    const repoConfig = getRepoConfig(this.config, repo);
+    const distConfig = getDistributionConfig(this.config, repo, distribution);
+    const release = getReleaseConfig(this.config, repo, distribution);
+    const compressions = (repoConfig.compressions ?? []).filter(isIndexCompression);
+    const packages = this.storage.listPackages({ repo, distribution });
+
+    const { date, refreshAt } = this.releaseDates(release, lastModified);
+
+    // An empty package set still produces a valid (empty) Release
+    const { content, indexFiles } = generateReleaseContent(distribution, packages, {
+      compressions,
+      splitDescriptions: repoConfig.translations ?? false,
+      date,
+      release,
+      architectures: distConfig.architectures,
+      components: distConfig.components,
+      getContents: (pkg) => this.storage.getPackageContents(pkg),
+    });
+
+    const byDir = new Map<string, IndexFile[]>();
+    for (const file of indexFiles) {
+      const dir = path.posix.dirname(file.path);
+      byDir.set(dir, [...(byDir.get(dir) ?? []), file]);
+    }
+    const graceMs = (repoConfig.byHashGraceHours ?? 0) * 3600 * 1000;
+    for (const [dir, files] of byDir) {
+      this.byHash.publish(repo, distribution, dir, "SHA256",
+        files.map((f) => ({ hash: f.sha256, data: f.data })), graceMs);
+      this.byHash.publish(repo, distribution, dir, "SHA512",
+        files.map((f) => ({ hash: f.sha512, data: f.data })), graceMs);
+    }
+
+    return {
+      release: content,
+      files: new Map(indexFiles.map((f) => [f.path, f])),
+      lastModified,
+      date,
+      refreshAt,
+    };
+  }
+
+  // A flat Release does not announce Acquire-By-Hash, so nothing is
+  // published by hash
+  private buildFlat(repo: string, flat: FlatConfig, lastModified: Date): DistributionIndex {
+    const repoConfig = getRepoConfig(this.config, repo);
+    const release = getReleaseConfig(this.config, repo, flat.distribution);
+    const component = flat.component ?? "main";
+    const packages = this.storage
+      .listPackages({ repo, distribution: flat.distribution })
+      .filter((p) => p.component === component);
+    const { date, refreshAt } = this.releaseDates(release, lastModified);
+
+    const { content, indexFiles } = generateFlatReleaseContent(packages, {
+      compressions: (repoConfig.compressions ?? []).filter(isIndexCompression),
+      date,
+      release,
+    });
+
+    return {
+      release: content,
+      files: new Map(indexFiles.map((f) => [f.path, f])),
+      lastModified,
+      date,
+      refreshAt,
+    };
+  }
+}
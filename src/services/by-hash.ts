@@ -0,0 +1,155 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Content-addressed copies of apt index files for Acquire-By-Hash.
+ *
+ * apt fetches `<dir>/by-hash/SHA256/<hash>` using the hash from the Release
+ * file it already holds, so an upload that lands between the client fetching
+ * Release and fetching Packages no longer causes "Hash Sum mismatch".  For
+ * that to work, superseded index files must stay around for a while after a
+ * newer Release replaces them.
+ *
+ * Layout: `<dataRoot>/<repo>/.by-hash/<distribution>/<dir>/<algorithm>/<hash>`,
+ * plus a `.current` file listing the hashes of the latest publish.  apt
+ * uses the strongest hash in Release, so every file is published under each
+ * algorithm Release lists.  When a
+ * file drops out of the current set its mtime is bumped, so the mtime of a
+ * superseded file records when it was superseded; files superseded longer
+ * ago than the grace period are pruned the next time the directory is
+ * published.
+ */
+export type ByHashAlgorithm = "SHA256" | "SHA512";
+
+const hashPatterns: Record<ByHashAlgorithm, RegExp> = {
+  SHA256: /^[a-f0-9]{64}$/,
+  SHA512: /^[a-f0-9]{128}$/,
+};
+
+export function isByHashAlgorithm(value: string): value is ByHashAlgorithm {
+  return value in hashPatterns;
+}
+
+export class ByHashStore {
+  private dataRoot: string;
+
+  constructor(dataRoot: string) {
+    this.dataRoot = dataRoot;
+  }
+
+  private getDir(
+    repo: string,
+    distribution: string,
+    indexDir: string,
+    algorithm: ByHashAlgorithm
+  ): string {
+    // Repo and distribution names can't start with "." (see sanitizePath), so
+    // ".by-hash" never collides with package storage
+    return path.join(this.dataRoot, repo, ".by-hash", distribution, indexDir, algorithm);
+  }
+
+  /**
+   * Record the current set of index files for one directory of a
+   * distribution (e.g. `main/binary-amd64`) under one hash algorithm, and
+   * prune superseded files older than `graceMs`.
+   */
+  publish(
+    repo: string,
+    distribution: string,
+    indexDir: string,
+    algorithm: ByHashAlgorithm,
+    files: { hash: string; data: Buffer }[],
+    graceMs: number
+  ): void {
+    const dir = this.getDir(repo, distribution, indexDir, algorithm);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const currentListPath = path.join(dir, ".current");
+    const previous = fs.existsSync(currentListPath)
+      ? fs.readFileSync(currentListPath, "utf-8").split("\n").filter(Boolean)
+      : [];
+
+    const now = new Date();
+    const current = new Set<string>();
+    for (const file of files) {
+      current.add(file.hash);
+      const filePath = path.join(dir, file.hash);
+      if (fs.existsSync(filePath)) {
+        fs.utimesSync(filePath, now, now);
+        continue;
+      }
+      // Write-then-rename so a concurrent reader never sees a partial file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, file.data);
+      fs.renameSync(tmpPath, filePath);
+    }
+
+    // Start the grace period for files this publish supersedes
+    for (const hash of previous) {
+      if (current.has(hash)) continue;
+      try {
+        fs.utimesSync(path.join(dir, hash), now, now);
+      } catch {
+        // Already pruned
+      }
+    }
+    fs.writeFileSync(currentListPath, [...current].join("\n") + "\n");
+
+    const cutoff = now.getTime() - graceMs;
+    for (const entry of fs.readdirSync(dir)) {
+      if (current.has(entry) || entry.startsWith(".") || entry.endsWith(".tmp")) continue;
+      const filePath = path.join(dir, entry);
+      try {
+        if (fs.statSync(filePath).mtimeMs < cutoff) {
+          fs.unlinkSync(filePath);
+        }
+      } catch {
+        // Already pruned by a concurrent publish
+      }
+    }
+  }
+
+  /** Path of a stored index file, or null if it is unknown or was pruned. */
+  getFile(
+    repo: string,
+    distribution: string,
+    indexDir: string,
+    algorithm: ByHashAlgorithm,
+    hash: string
+  ): string | null {
+    if (!hashPatterns[algorithm].test(hash)) return null;
+    const filePath = path.join(this.getDir(repo, distribution, indexDir, algorithm), hash);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * Every stored file of a distribution, current and superseded, as
+   * `<dir>/by-hash/<algorithm>/<hash>` paths relative to
+   * dists/<distribution>/.
+   */
+  list(repo: string, distribution: string): { path: string; filePath: string }[] {
+    const root = path.join(this.dataRoot, repo, ".by-hash", distribution);
+    const files: { path: string; filePath: string }[] = [];
+    const walk = (indexDir: string) => {
+      const dir = path.join(root, indexDir);
+      if (!fs.existsSync(dir)) return;
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const sub = indexDir ? `${indexDir}/${entry.name}` : entry.name;
+        if (!isByHashAlgorithm(entry.name)) {
+          walk(sub);
+          continue;
+        }
+        for (const hash of fs.readdirSync(path.join(dir, entry.name))) {
+          if (!hashPatterns[entry.name].test(hash)) continue;
+          files.push({
+            path: `${indexDir}/by-hash/${entry.name}/${hash}`,
+            filePath: path.join(dir, entry.name, hash),
+          });
+        }
+      }
+    };
+    walk("");
+    return files;
+  }
+}
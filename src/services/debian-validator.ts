@@ -1,3 +1,7 @@
+import crypto from "node:crypto";
+import { SourceFile, DebControlMeta } from "./storage.js";
+import { readTarEntries } from "../utils/tar.js";
+
 export interface DebianControlData {
   Package?: string;
   Version?: string;
@@ -7,15 +11,16 @@ export interface DebianControlData {
 
 /**
  * Validates that a buffer contains a valid Debian package (ar archive)
- * and extracts control data.
+ * and extracts control data and the list of files it installs.
  * 
- * Note: Control data extraction supports gzip-compressed control.tar files.
- * xz and zstd compressed control files are validated but metadata extraction
- * is skipped (package name/version must be provided via filename or form fields).
+ * Note: Control data and file list extraction support gzip-compressed (or
+ * uncompressed) tar members.  xz and zstd compressed members are validated
+ * but extraction is skipped (package name/version must be provided via
+ * filename or form fields; storage falls back to dpkg-deb for the rest).
  */
 export async function validateDebianPackage(
   buffer: Buffer
-): Promise<{ valid: boolean; control?: DebianControlData; error?: string }> {
+): Promise<{ valid: boolean; control?: DebianControlData; files?: string[]; error?: string }> {
   // Check ar archive magic
   const arMagic = "!<arch>\n";
   if (buffer.length < 8 || buffer.subarray(0, 8).toString() !== arMagic) {
@@ -89,7 +94,10 @@ export async function validateDebianPackage(
   // Try to extract control file
   const control = await extractControlFile(controlEntry.data, controlEntry.name);
 
-  return { valid: true, control };
+  // Try to list the installed files (for the Contents indexes)
+  const files = await extractFileList(dataEntry.data, dataEntry.name);
+
+  return { valid: true, control, files };
 }
 
 async function extractControlFile(
@@ -114,10 +122,10 @@ async function extractControlFile(
       decompressed = data;
     }
 
-    // Parse tar to find ./control or control
-    const controlData = extractFileFromTar(decompressed, "control");
-    if (controlData) {
-      return parseControlFile(controlData.toString());
+    // Names come normalised: "./control" is "control"
+    const controlFile = readTarEntries(decompressed).find((e) => e.type === "file" && e.name === "control");
+    if (controlFile) {
+      return parseControlFile(controlFile.data.toString());
     }
   } catch {
     // Control extraction failed, but package may still be valid
@@ -126,34 +134,41 @@ async function extractControlFile(
   return undefined;
 }
 
-function extractFileFromTar(tarData: Buffer, filename: string): Buffer | null {
-  let offset = 0;
-
-  while (offset < tarData.length) {
-    // Tar header is 512 bytes
-    if (offset + 512 > tarData.length) break;
-
-    const header = tarData.subarray(offset, offset + 512);
-
-    // Check for empty block (end of archive)
-    if (header.every((b) => b === 0)) break;
-
-    const name = header.subarray(0, 100).toString().replace(/\0/g, "").trim();
-    const sizeOctal = header.subarray(124, 136).toString().replace(/\0/g, "").trim();
-    const size = parseInt(sizeOctal, 8) || 0;
-
-    offset += 512;
+async function extractFileList(
+  data: Buffer,
+  name: string
+): Promise<string[] | undefined> {
+  try {
+    let decompressed: Buffer;
 
-    if (name === filename || name === `./${filename}`) {
-      return tarData.subarray(offset, offset + size);
+    if (name.endsWith(".gz")) {
+      const { gunzipSync } = await import("node:zlib");
+      decompressed = gunzipSync(data);
+    } else if (name === "data.tar") {
+      decompressed = data;
+    } else {
+      // xz, zstd and bzip2 need external tools; dpkg-deb handles these at
+      // store time
+      return undefined;
     }
 
-    // Skip file data and padding to 512-byte boundary
-    const blocks = Math.ceil(size / 512);
-    offset += blocks * 512;
+    return listTarFiles(decompressed);
+  } catch {
+    // Listing failed, but package may still be valid
   }
 
-  return null;
+  return undefined;
+}
+
+/**
+ * List the non-directory entries of a tar archive in Contents-file form:
+ * no leading "./" or "/".
+ */
+export function listTarFiles(tarData: Buffer): string[] {
+  // Directories carry no Contents entry
+  return readTarEntries(tarData)
+    .filter((entry) => entry.type !== "dir")
+    .map((entry) => entry.name);
 }
 
 function parseControlFile(content: string): DebianControlData {
@@ -179,6 +194,148 @@ function parseControlFile(content: string): DebianControlData {
   return control;
 }
 
+/**
+ * Parse a file of control stanzas separated by blank lines, such as an apt
+ * Packages index.
+ */
+export function parseControlStanzas(content: string): DebianControlData[] {
+  return content
+    .split(/\n[ \t]*\n/)
+    .filter((stanza) => stanza.trim() !== "")
+    .map(parseControlFile);
+}
+
+/**
+ * The control fields stored with a package so the apt Packages index is
+ * accurate.  All apt VersionHash-relevant fields (Depends, Pre-Depends,
+ * Conflicts, Breaks, Replaces) must be kept so the repo entry matches what
+ * dpkg records in /var/lib/dpkg/status.
+ */
+export function debControlMeta(c: DebianControlData): Partial<DebControlMeta> {
+  const meta: Partial<DebControlMeta> = {};
+  if (c.Description) meta.description = c.Description;
+  if (c.Source) meta.source = c.Source;
+  if (c["Multi-Arch"]) meta.multiArch = c["Multi-Arch"];
+  if (c.Maintainer) meta.maintainer = c.Maintainer;
+  if (c["Pre-Depends"]) meta.preDepends = c["Pre-Depends"];
+  if (c.Depends) meta.depends = c.Depends;
+  if (c.Suggests) meta.suggests = c.Suggests;
+  if (c.Conflicts) meta.conflicts = c.Conflicts;
+  if (c.Breaks) meta.breaks = c.Breaks;
+  if (c.Replaces) meta.replaces = c.Replaces;
+  if (c.Provides) meta.provides = c.Provides;
+  if (c.Homepage) meta.homepage = c.Homepage;
+  if (c.Section) meta.section = c.Section;
+  if (c.Priority) meta.priority = c.Priority;
+  const installedSizeRaw = c["Installed-Size"];
+  if (installedSizeRaw) {
+    const parsed = parseInt(installedSizeRaw, 10);
+    if (!isNaN(parsed)) meta.installedSize = parsed;
+  }
+  const packageType = c["Package-Type"];
+  if (packageType === "ddeb" || packageType === "udeb") meta.packageType = packageType;
+  return meta;
+}
+
+/**
+ * Validates a source package upload: parses the .dsc (clearsigned or not)
+ * and checks every file it lists in Files and Checksums-Sha256 against the
+ * uploaded files.  Every upload other than the .dsc must be listed.
+ *
+ * On success, `files` lists the .dsc first, then the files it references,
+ * with digests computed from the uploaded bytes.
+ */
+export function validateSourcePackage(
+  dsc: { name: string; data: Buffer },
+  uploads: { name: string; data: Buffer }[]
+): { valid: boolean; control?: DebianControlData; files?: SourceFile[]; error?: string } {
+  const control = parseControlFile(stripClearsign(dsc.data.toString("utf-8")));
+
+  if (!control.Source || !control.Version) {
+    return { valid: false, error: "Invalid .dsc: missing Source or Version" };
+  }
+  if (!control.Files && !control["Checksums-Sha256"]) {
+    return { valid: false, error: "Invalid .dsc: no Files or Checksums-Sha256" };
+  }
+
+  // name -> expected size and digests, merged across both fields
+  const listed = new Map<string, { size: number; md5?: string; sha256?: string }>();
+  const fields: [string, "md5" | "sha256", RegExp][] = [
+    ["Files", "md5", /^[a-f0-9]{32}$/],
+    ["Checksums-Sha256", "sha256", /^[a-f0-9]{64}$/],
+  ];
+  for (const [field, digest, pattern] of fields) {
+    for (const line of (control[field] ?? "").split("\n")) {
+      if (!line.trim()) continue;
+      const [hash, sizeRaw, name, ...rest] = line.trim().split(/\s+/);
+      const size = Number(sizeRaw);
+      if (!pattern.test(hash) || !Number.isInteger(size) || !name || rest.length > 0) {
+        return { valid: false, error: `Invalid .dsc: malformed ${field} entry` };
+      }
+      if (sanitizePath(name) !== name) {
+        return { valid: false, error: `Invalid .dsc: unsafe file name ${name}` };
+      }
+      const entry = listed.get(name) ?? { size };
+      if (entry.size !== size) {
+        return { valid: false, error: `Invalid .dsc: conflicting sizes for ${name}` };
+      }
+      entry[digest] = hash;
+      listed.set(name, entry);
+    }
+  }
+
+  const files: SourceFile[] = [digestFile(dsc)];
+  for (const [name, expected] of listed) {
+    const upload = uploads.find((u) => u.name === name);
+    if (!upload) {
+      return { valid: false, error: `Missing file listed in .dsc: ${name}` };
+    }
+    const actual = digestFile(upload);
+    if (
+      actual.size !== expected.size ||
+      (expected.md5 && actual.md5 !== expected.md5) ||
+      (expected.sha256 && actual.sha256 !== expected.sha256)
+    ) {
+      return { valid: false, error: `Checksum mismatch for ${name}` };
+    }
+    files.push(actual);
+  }
+
+  const unlisted = uploads.find((u) => !listed.has(u.name));
+  if (unlisted) {
+    return { valid: false, error: `File not listed in .dsc: ${unlisted.name}` };
+  }
+
+  return { valid: true, control, files };
+}
+
+function digestFile(file: { name: string; data: Buffer }): SourceFile {
+  return {
+    name: file.name,
+    size: file.data.length,
+    md5: crypto.createHash("md5").update(file.data).digest("hex"),
+    sha256: crypto.createHash("sha256").update(file.data).digest("hex"),
+  };
+}
+
+/**
+ * The signed text of a clearsigned document, with dash-escaping undone;
+ * anything else is returned unchanged.  The signature itself is not checked.
+ */
+function stripClearsign(content: string): string {
+  const lines = content.split(/\r?\n/);
+  if (lines[0] !== "-----BEGIN PGP SIGNED MESSAGE-----") return content;
+
+  // Armor headers ("Hash: ...") end at the first blank line
+  const start = lines.indexOf("", 1) + 1;
+  let end = lines.indexOf("-----BEGIN PGP SIGNATURE-----", start);
+  if (end === -1) end = lines.length;
+  return lines
+    .slice(start, end)
+    .map((line) => (line.startsWith("- ") ? line.substring(2) : line))
+    .join("\n");
+}
+
 /**
  * Sanitizes a path component to prevent directory traversal
  */
@@ -190,6 +347,11 @@ export function sanitizePath(component: string): string {
     .replace(/^\.+/, "");
 }
 
+/** True for a non-empty name that sanitizePath leaves untouched. */
+export function isSafeName(name: string): boolean {
+  return name !== "" && sanitizePath(name) === name;
+}
+
 /**
  * Validates a Debian package name
  */
@@ -0,0 +1,256 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { StorageService } from "./storage.js";
+import { AptIndexService } from "./apt-index.js";
+import { SigningService } from "./signing.js";
+import { Config } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { poolFiles } from "../utils/pool.js";
+
+export interface ExportOptions {
+  // Copy pool and by-hash files instead of hard-linking them
+  copy?: boolean;
+}
+
+export interface ExportReport {
+  written: string[];          // Paths relative to the export root
+  unchanged: number;
+  removed: string[];
+}
+
+// What the export root should hold at one path.  A by-hash file is named
+// by its content, so is in place as soon as it exists.
+type ExportFile =
+  | { path: string; data: Buffer }
+  | { path: string; filePath: string; byHash?: boolean };
+
+// Marks a directory as an export, so stale files are only ever removed
+// from a tree this service wrote
+const MARKER = ".pository-export";
+
+/**
+ * Writes a repo as a static apt tree, for a web server or rsync target that
+ * can't run Pository: the same files the apt routes serve under
+ * /apt/<repo>/ — dists/ with Release, indexes, by-hash and signatures,
+ * pool/, and key.gpg/key.asc — at the same relative paths.
+ *
+ * Exports are incremental.  Files whose content is already in place are
+ * left alone (so rsync and mtimes see no change), an unchanged Release
+ * keeps the signatures exported with it, and files the repo no longer
+ * serves are removed.  Pool files and Release files are written
+ * first and last respectively, so a client reading the tree mid-export
+ * never gets a Release referencing missing indexes.  Every write goes
+ * through a temporary file and a rename.
+ */
+export class ExportService {
+  private storage: StorageService;
+  private aptIndex: AptIndexService;
+  private signing: SigningService | null;
+  private config: Config;
+
+  constructor(
+    storage: StorageService,
+    aptIndex: AptIndexService,
+    signing: SigningService | null,
+    config: Config
+  ) {
+    this.storage = storage;
+    this.aptIndex = aptIndex;
+    this.signing = signing;
+    this.config = config;
+  }
+
+  /**
+   * The distributions the repo serves: those holding packages and those
+   * configured.  A repo with neither has nothing to export.
+   */
+  listDistributions(repo: string): string[] {
+    const distributions = new Set(this.storage.listPackages({ repo }).map((p) => p.distribution));
+    for (const name of Object.keys(getRepoConfig(this.config, repo).distributions ?? {})) {
+      distributions.add(name);
+    }
+    return [...distributions].sort();
+  }
+
+  /** True if `dest` is missing, empty or a previous export of `repo`. */
+  canExportTo(repo: string, dest: string): boolean {
+    if (!fs.existsSync(dest)) return true;
+    if (!fs.statSync(dest).isDirectory()) return false;
+    const markerPath = path.join(dest, MARKER);
+    if (fs.existsSync(markerPath)) {
+      return fs.readFileSync(markerPath, "utf-8").trim() === repo;
+    }
+    return fs.readdirSync(dest).length === 0;
+  }
+
+  async exportRepo(repo: string, dest: string, options: ExportOptions = {}): Promise<ExportReport> {
+    // Keyed by path: distributions sharing a package share its pool files
+    const pool = new Map<string, ExportFile>();
+    for (const pkg of this.storage.listPackages({ repo })) {
+      for (const file of poolFiles(pkg)) {
+        const filePath = pkg.architecture === "source"
+          ? this.storage.getSourceFile(pkg, file.name)
+          : this.storage.getPackageFile(pkg);
+        if (filePath && !pool.has(file.path)) pool.set(file.path, { path: file.path, filePath });
+      }
+    }
+
+    // The public key the export already carries, if it is still the repo's
+    const publicKey = this.signing ? await this.signing.getPublicKey(repo, false) : null;
+    const sameKey = !!publicKey && readIfExists(path.join(dest, "key.gpg"))?.equals(publicKey) === true;
+
+    const indexes: ExportFile[] = [];
+    const releases: ExportFile[] = [];
+    for (const distribution of this.listDistributions(repo)) {
+      const dir = `dists/${distribution}`;
+      const index = this.aptIndex.getDistribution(repo, distribution);
+      for (const file of index.files.values()) {
+        indexes.push({ path: `${dir}/${file.path}`, data: file.data });
+      }
+      for (const file of this.aptIndex.listByHashFiles(repo, distribution)) {
+        indexes.push({ path: `${dir}/${file.path}`, filePath: file.filePath, byHash: true });
+      }
+
+      const release = Buffer.from(index.release);
+      releases.push({ path: `${dir}/Release`, data: release });
+      if (this.signing) {
+        // Signatures already exported over the same Release with the same
+        // key stay, so an unchanged distribution is not re-signed
+        const exported = path.join(dest, dir);
+        let inRelease = sameKey && readIfExists(path.join(exported, "Release"))?.equals(release)
+          ? readIfExists(path.join(exported, "InRelease"))
+          : null;
+        let releaseSignature = inRelease && readIfExists(path.join(exported, "Release.gpg"));
+        if (!inRelease || !releaseSignature) {
+          // Cached on the index like the apt routes do, so the export
+          // carries the same signatures the server is serving
+          inRelease = Buffer.from(index.inRelease ??= await this.signing.clearsign(repo, index.release));
+          releaseSignature = Buffer.from(
+            index.releaseSignature ??= await this.signing.detachSign(repo, index.release)
+          );
+        }
+        releases.push({ path: `${dir}/InRelease`, data: inRelease });
+        releases.push({ path: `${dir}/Release.gpg`, data: releaseSignature });
+      }
+    }
+    if (this.signing) {
+      releases.push({ path: "key.gpg", data: publicKey! });
+      releases.push({ path: "key.asc", data: Buffer.from(await this.signing.getPublicKey(repo, true)) });
+    }
+
+    fs.mkdirSync(dest, { recursive: true });
+    fs.writeFileSync(path.join(dest, MARKER), `${repo}\n`);
+
+    const report: ExportReport = { written: [], unchanged: 0, removed: [] };
+    for (const file of [...pool.values(), ...indexes, ...releases]) {
+      if (this.place(dest, file, !!options.copy)) {
+        report.written.push(file.path);
+      } else {
+        report.unchanged++;
+      }
+    }
+
+    const expected = new Set([...pool.keys(), ...indexes.map((f) => f.path), ...releases.map((f) => f.path)]);
+    report.removed = removeStale(dest, expected);
+    return report;
+  }
+
+  /** Put one file in place unless it already is.  Returns true if written. */
+  private place(dest: string, file: ExportFile, copy: boolean): boolean {
+    const target = path.join(dest, file.path);
+    const existing = fs.existsSync(target) ? fs.statSync(target) : null;
+
+    if ("data" in file) {
+      if (existing?.size === file.data.length && fs.readFileSync(target).equals(file.data)) {
+        return false;
+      }
+      writeAtomic(target, (tmpPath) => fs.writeFileSync(tmpPath, file.data));
+      return true;
+    }
+
+    // Stored files are replaced, never rewritten in place, so the same
+    // inode (a hard link), or a copy with the source's size and mtime, is
+    // the same content.  Like rsync, mtimes compare to the second, as
+    // utimes doesn't carry the source's full precision over.
+    const source = fs.statSync(file.filePath);
+    if (
+      existing &&
+      (file.byHash ||
+        (existing.ino === source.ino && existing.dev === source.dev) ||
+        (existing.size === source.size &&
+          Math.floor(existing.mtimeMs / 1000) === Math.floor(source.mtimeMs / 1000)))
+    ) {
+      return false;
+    }
+    writeAtomic(target, (tmpPath) => {
+      if (!copy) {
+        try {
+          fs.linkSync(file.filePath, tmpPath);
+          return;
+        } catch {
+          // Another filesystem: copy instead
+        }
+      }
+      fs.copyFileSync(file.filePath, tmpPath);
+      fs.utimesSync(tmpPath, source.atime, source.mtime);
+    });
+    return true;
+  }
+}
+
+function readIfExists(filePath: string): Buffer | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+}
+
+function writeAtomic(target: string, write: (tmpPath: string) => void): void {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const tmpPath = path.join(path.dirname(target), `.${path.basename(target)}.${crypto.randomUUID()}.tmp`);
+  try {
+    write(tmpPath);
+    fs.renameSync(tmpPath, target);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+/**
+ * Remove files under dists/ and pool/ (and the key files) that are not in
+ * `expected`, then any directories left empty.  Returns what was removed.
+ */
+function removeStale(dest: string, expected: Set<string>): string[] {
+  const removed: string[] = [];
+  for (const name of ["key.gpg", "key.asc"]) {
+    if (!expected.has(name) && fs.existsSync(path.join(dest, name))) {
+      fs.rmSync(path.join(dest, name));
+      removed.push(name);
+    }
+  }
+
+  const walk = (rel: string): boolean => {
+    const dir = path.join(dest, rel);
+    let empty = true;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryRel = `${rel}/${entry.name}`;
+      if (entry.isDirectory()) {
+        if (walk(entryRel)) {
+          fs.rmdirSync(path.join(dest, entryRel));
+        } else {
+          empty = false;
+        }
+      } else if (expected.has(entryRel)) {
+        empty = false;
+      } else {
+        fs.rmSync(path.join(dest, entryRel));
+        removed.push(entryRel);
+      }
+    }
+    return empty;
+  };
+  for (const root of ["dists", "pool"]) {
+    if (fs.existsSync(path.join(dest, root)) && walk(root)) {
+      fs.rmdirSync(path.join(dest, root));
+    }
+  }
+  return removed.sort();
+}
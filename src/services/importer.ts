@@ -0,0 +1,308 @@
+import fs from "node:fs";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
+import { execFileSync } from "node:child_process";
+import { StorageService, PackageLocation, DebControlMeta, DebDigests, digestDebFile } from "./storage.js";
+import { SnapshotService } from "./snapshots.js";
+import {
+  DebianControlData,
+  validateDebianPackage,
+  parseControlStanzas,
+  debControlMeta,
+  isSafeName,
+  isValidPackageName,
+  isValidVersion,
+  isValidArchitecture,
+} from "./debian-validator.js";
+import { Config } from "../config.js";
+import { getDistributionConfig } from "../utils/config-loader.js";
+import { poolFiles } from "../utils/pool.js";
+
+export interface ImportOptions {
+  repo: string;
+  // Where the .debs of a plain directory go; a dists/ tree keeps its own
+  distribution?: string;      // Default "stable"
+  component?: string;         // Default "main"
+  dryRun?: boolean;           // Report only; store nothing
+}
+
+/** A package found in the tree, with its file relative to the tree root. */
+export interface ImportEntry extends PackageLocation {
+  file: string;
+}
+
+export interface ImportConflict {
+  file: string;
+  location?: PackageLocation;
+  reason: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  imported: ImportEntry[];    // Stored, or that would be on a dry run
+  unchanged: ImportEntry[];   // Already stored byte-identical
+  conflicts: ImportConflict[];  // Skipped
+}
+
+// A package as found, before any checks
+interface Candidate {
+  loc: PackageLocation;
+  file: string;
+  control: DebianControlData;
+  sha256?: string;            // From the Packages stanza, if any
+  files?: string[];           // Installed files, if the .deb has been read
+}
+
+const INVALID_LOCATION = "Invalid name, version, architecture, distribution or component";
+
+// Index directories under dists/<dist>/<component>/ that list .debs
+const BINARY_INDEX_DIRS = ["", "debug/", "debian-installer/"];
+
+/**
+ * Bulk import of an existing apt repository — a reprepro or aptly
+ * `dists/` + `pool/` tree, or a plain directory of .deb files — into one
+ * repo.
+ *
+ * A tree is read through its Packages indexes, so every package keeps its
+ * distribution and component and is checked against the SHA256 listed for
+ * it.  Packages keep their file's mtime as the upload date, and are added
+ * to the index in a single write.  Anything that can't be imported as is
+ * — a version already stored with different bytes, a pool path taken by
+ * different bytes, an undeclared architecture — is reported and skipped.
+ */
+export class ImportService {
+  private storage: StorageService;
+  private snapshots: SnapshotService;
+  private config: Config;
+
+  constructor(storage: StorageService, snapshots: SnapshotService, config: Config) {
+    this.storage = storage;
+    this.snapshots = snapshots;
+    this.config = config;
+  }
+
+  async importTree(root: string, options: ImportOptions, uploaderKeyId: string): Promise<ImportReport> {
+    const report: ImportReport = { dryRun: !!options.dryRun, imported: [], unchanged: [], conflicts: [] };
+    const candidates = fs.existsSync(path.join(root, "dists"))
+      ? this.readDists(root, options.repo, report)
+      : await this.readDebs(root, options, report);
+
+    // Pool path → sha256 and location of what is (or will be) there
+    const pool = new Map<string, { sha256: string; key: string }>();
+    const locationKey = (loc: PackageLocation) =>
+      `${loc.distribution}/${loc.component}/${loc.architecture}/${loc.name}/${loc.version}`;
+    for (const pkg of this.storage.listPackages({ repo: options.repo })) {
+      for (const f of poolFiles(pkg)) pool.set(f.path, { sha256: f.sha256, key: locationKey(pkg) });
+    }
+
+    const accepted: {
+      loc: PackageLocation;
+      filePath: string;
+      uploadedAt: Date;
+      digests: DebDigests;
+      files?: string[];
+      controlExtra: Partial<DebControlMeta>;
+    }[] = [];
+    for (const { loc, file, control, sha256: listed, files: listedFiles } of candidates) {
+      const conflict = (reason: string) => report.conflicts.push({ file, location: loc, reason });
+      const filePath = path.join(root, file);
+      if (!fs.existsSync(filePath)) {
+        conflict("File not found");
+        continue;
+      }
+      // Read as a stream: a large tree mustn't hold up other requests
+      const digests = await digestDebFile(filePath);
+      const { sha256 } = digests;
+      if (listed && listed !== sha256) {
+        conflict("File does not match its SHA256 in Packages");
+        continue;
+      }
+      const declaredArches = getDistributionConfig(this.config, loc.repo, loc.distribution).architectures;
+      if (declaredArches && loc.architecture !== "all" && !declaredArches.includes(loc.architecture)) {
+        conflict(`Architecture ${loc.architecture} is not declared for this distribution`);
+        continue;
+      }
+
+      const existing = this.storage.getPackageMetadata(loc);
+      if (existing?.sha256 === sha256) {
+        report.unchanged.push({ ...loc, file });
+        continue;
+      }
+      if (existing) {
+        const pinnedBy = this.snapshots.referencing(loc);
+        conflict(
+          pinnedBy.length > 0
+            ? `A different file is stored for this version, referenced by snapshots: ${pinnedBy.join(", ")}`
+            : "A different file is stored for this version"
+        );
+        continue;
+      }
+
+      const controlExtra = debControlMeta(control);
+      if (file.endsWith(".ddeb")) controlExtra.packageType = "ddeb";
+      if (file.endsWith(".udeb")) controlExtra.packageType = "udeb";
+      const [poolFile] = poolFiles({
+        ...loc,
+        source: controlExtra.source,
+        packageType: controlExtra.packageType,
+        sha256,
+      });
+      const taken = pool.get(poolFile.path);
+      if (taken && taken.sha256 !== sha256 && taken.key !== locationKey(loc)) {
+        conflict(`A different file already exists at ${poolFile.path}`);
+        continue;
+      }
+      pool.set(poolFile.path, { sha256, key: locationKey(loc) });
+
+      report.imported.push({ ...loc, file });
+      if (options.dryRun) continue;
+      // The file list behind the Contents indexes; storage would otherwise
+      // run dpkg-deb for it
+      const files = listedFiles ?? (await validateDebianPackage(await fs.promises.readFile(filePath))).files;
+      accepted.push({ loc, filePath, uploadedAt: fs.statSync(filePath).mtime, digests, files, controlExtra });
+    }
+
+    if (accepted.length > 0) {
+      await this.storage.importPackages(accepted, uploaderKeyId);
+    }
+    return report;
+  }
+
+  /** Every package listed in the binary Packages indexes of a dists/ tree. */
+  private readDists(root: string, repo: string, report: ImportReport): Candidate[] {
+    const candidates = new Map<string, Candidate>();
+    const distsDir = path.join(root, "dists");
+    // Symlinked suites (stable → bookworm) are skipped: they would list
+    // everything twice
+    for (const distribution of subdirectories(distsDir)) {
+      const distDir = path.join(distsDir, distribution);
+      for (const component of subdirectories(distDir)) {
+        for (const sub of BINARY_INDEX_DIRS) {
+          const componentDir = path.join(distDir, component, sub);
+          for (const binaryDir of subdirectories(componentDir).filter((d) => d.startsWith("binary-"))) {
+            const indexPath = path.join(componentDir, binaryDir, "Packages");
+            const relIndex = path.relative(root, indexPath);
+            const content = readIndex(indexPath);
+            if (content === null) continue;
+
+            for (const stanza of parseControlStanzas(content)) {
+              const { Package: name = "", Version: version = "", Architecture: architecture = "" } = stanza;
+              const file = stanza.Filename ?? "";
+              const loc: PackageLocation = { repo, distribution, component, architecture, name, version };
+              if (!file || path.isAbsolute(file) || file.split("/").includes("..")) {
+                report.conflicts.push({
+                  file: relIndex,
+                  location: loc,
+                  reason: "Invalid Filename in Packages",
+                });
+                continue;
+              }
+              if (!isImportable(loc)) {
+                report.conflicts.push({ file, location: loc, reason: INVALID_LOCATION });
+                continue;
+              }
+              // Architecture: all packages are listed in every binary-<arch>
+              const key = `${distribution}/${component}/${architecture}/${name}/${version}`;
+              if (!candidates.has(key)) {
+                candidates.set(key, { loc, file, control: stanza, sha256: stanza.SHA256 });
+              }
+            }
+          }
+        }
+      }
+    }
+    return Array.from(candidates.values());
+  }
+
+  /** Every .deb under a plain directory, named by its control file. */
+  private async readDebs(root: string, options: ImportOptions, report: ImportReport): Promise<Candidate[]> {
+    const { repo, distribution = "stable", component = "main" } = options;
+    const candidates: Candidate[] = [];
+    const files = listFiles(root).filter((f) => /\.[du]?deb$/.test(f));
+
+    for (const file of files) {
+      const validation = await validateDebianPackage(await fs.promises.readFile(path.join(root, file)));
+      if (!validation.valid) {
+        report.conflicts.push({ file, reason: validation.error ?? "Not a Debian package" });
+        continue;
+      }
+
+      // As for uploads: the control file, else the file name
+      const control = validation.control ?? {};
+      const match = path.basename(file).match(/^(.+?)_(.+?)_(.+?)\.[du]?deb$/);
+      const loc: PackageLocation = {
+        repo,
+        distribution,
+        component,
+        architecture: control.Architecture || match?.[3] || "all",
+        name: control.Package || match?.[1] || "",
+        version: control.Version || match?.[2] || "",
+      };
+      if (!isImportable(loc)) {
+        report.conflicts.push({ file, location: loc, reason: INVALID_LOCATION });
+        continue;
+      }
+      candidates.push({ loc, file, control, files: validation.files });
+    }
+    return candidates;
+  }
+}
+
+function isImportable(loc: PackageLocation): boolean {
+  return (
+    isSafeName(loc.distribution) &&
+    isSafeName(loc.component) &&
+    isValidPackageName(loc.name) &&
+    isValidVersion(loc.version) &&
+    isSafeName(loc.version) &&
+    isValidArchitecture(loc.architecture) &&
+    loc.architecture !== "source"
+  );
+}
+
+function subdirectories(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name)
+    .sort();
+}
+
+/** Regular files under `dir`, as sorted paths relative to it. */
+function listFiles(dir: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+    const rel = path.join(prefix, entry.name);
+    if (entry.isDirectory()) files.push(...listFiles(dir, rel));
+    else if (entry.isFile()) files.push(rel);
+  }
+  return files.sort();
+}
+
+/**
+ * A Packages index from whichever variant the tree has: plain, gzip or
+ * xz.  Null if there is none (or xz is needed and not installed).
+ */
+function readIndex(plainPath: string): string | null {
+  if (fs.existsSync(plainPath)) {
+    return fs.readFileSync(plainPath, "utf-8");
+  }
+  if (fs.existsSync(`${plainPath}.gz`)) {
+    return gunzipSync(fs.readFileSync(`${plainPath}.gz`)).toString("utf-8");
+  }
+  if (fs.existsSync(`${plainPath}.xz`)) {
+    try {
+      return execFileSync("xz", ["-dc", `${plainPath}.xz`], {
+        encoding: "utf-8",
+        maxBuffer: 1024 * 1024 * 1024,
+        timeout: 60_000,
+      });
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
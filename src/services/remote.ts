@@ -0,0 +1,629 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+import { execFile } from "node:child_process";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { ReadableStream } from "node:stream/web";
+import * as openpgp from "openpgp";
+import { Config, RemoteConfig } from "../config.js";
+import { getRepoConfig } from "../utils/config-loader.js";
+import { Logger } from "../utils/logger.js";
+
+/** A mirrored file on disk, with what the apt routes need to serve it. */
+export interface RemoteFile {
+  path: string;
+  sha256: string;
+  mtime: Date;
+}
+
+type HashAlgorithm = "sha256" | "sha512";
+
+// What an index says a pool file must be
+interface PoolEntry {
+  size?: number;
+  sha256: string;
+}
+
+const RELEASE_FILES = ["InRelease", "Release", "Release.gpg"];
+const DEFAULT_TTL_SECONDS = 300;
+const FETCH_TIMEOUT_MS = 30_000;
+
+// Release entries for the indexes that list pool files, in any compression
+const POOL_INDEX = /^(?:.+\/)?(?:binary-[^/]+\/Packages|source\/Sources)(?:\.(gz|xz|zst))?$/;
+// Parsed indexes kept in memory, by content hash
+const MAX_POOL_INDEXES = 32;
+// File digests kept in memory
+const MAX_DIGESTS = 4096;
+// Preferred compression when an index has to be fetched to find a pool file
+const INDEX_COMPRESSIONS = ["gz", undefined, "xz", "zst"];
+
+/**
+ * Pull-through caching of upstream apt archives, for repos with `remote`
+ * configured.
+ *
+ * Files are kept under `<dataRoot>/<repo>/.remote/` at their upstream
+ * paths and served byte-for-byte, so clients verify them with upstream's
+ * key as they would against the upstream itself.
+ *
+ * - A suite's InRelease, Release and Release.gpg are refetched once their
+ *   TTL has passed.  With a keyring configured, a Release whose signature
+ *   does not verify is never stored; next to a verified InRelease, such a
+ *   Release and Release.gpg are dropped.
+ * - Every other file under dists/ is only mirrored if Release lists it, and
+ *   must match the SHA256 Release gives (by-hash files, the hash in their
+ *   name).  A cached index is refetched when a new Release no longer
+ *   matches it, so indexes never disagree with the Release being served.
+ * - Pool files are only mirrored if a Packages or Sources index of the
+ *   repo's suites lists them, and must match the Size and SHA256 it gives.
+ *   Indexes are looked up in the cache first, then fetched like any other
+ *   index.  Pool files never change, so are fetched once and served from
+ *   disk.
+ *
+ * While upstream is unreachable, the last good Release and everything
+ * already cached keep being served.
+ */
+export class RemoteRepoService {
+  private config: Config;
+  private logger: Logger;
+  // Parsed SHA256 section of each suite's current Release, by "<repo>/<suite>"
+  private suites: Map<string, { checkedAt: number; checksums: Map<string, string> }> = new Map();
+  // File digests by "<path>:<algorithm>", so large files are hashed once;
+  // an entry stands while the file keeps its mtime.  Least recently used
+  // entries go first.
+  private digests: Map<string, { mtimeMs: number; digest: string }> = new Map();
+  // Pool files listed by a Packages or Sources index, by the index's SHA256;
+  // least recently used first
+  private poolIndexes: Map<string, Map<string, PoolEntry>> = new Map();
+  // Concurrent requests for the same Release or file share one fetch
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  constructor(config: Config, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  isRemote(repo: string): boolean {
+    return getRepoConfig(this.config, repo).remote !== undefined;
+  }
+
+  private getRoot(repo: string): string {
+    // Repo subdirectories are distributions, which can't start with "."
+    return path.join(this.config.dataRoot, repo, ".remote");
+  }
+
+  /**
+   * A file under `dists/<suite>/`, or null if upstream does not have it
+   * (or Release does not list it).  Throws when upstream can't be reached
+   * and nothing usable is cached.
+   */
+  async getDistsFile(repo: string, suite: string, relPath: string): Promise<RemoteFile | null> {
+    const remote = getRepoConfig(this.config, repo).remote;
+    if (!remote || (remote.suites && !remote.suites.includes(suite))) {
+      return null;
+    }
+
+    const checksums = await this.refreshRelease(repo, remote, suite);
+    if (!checksums) {
+      return null;
+    }
+
+    const localPath = path.join(this.getRoot(repo), "dists", suite, relPath);
+    if (RELEASE_FILES.includes(relPath)) {
+      return this.statFile(localPath);
+    }
+
+    const byHash = /(?:^|\/)by-hash\/(SHA256|SHA512)\/([0-9a-f]+)$/.exec(relPath);
+    const algorithm: HashAlgorithm = byHash?.[1] === "SHA512" ? "sha512" : "sha256";
+    const expected = byHash ? byHash[2] : checksums.get(relPath);
+    if (!expected) {
+      return null;
+    }
+
+    if (fs.existsSync(localPath) && (await this.digest(localPath, algorithm)) === expected) {
+      return this.statFile(localPath);
+    }
+    const url = `${remote.url}/dists/${encodePath(suite)}/${encodePath(relPath)}`;
+    const fetched = await this.once(localPath, () =>
+      this.download(repo, url, localPath, { algorithm, hash: expected })
+    );
+    return fetched ? this.statFile(localPath) : null;
+  }
+
+  /**
+   * A file under `pool/`, downloaded on first request.  Returns null if
+   * upstream does not have it or no cached index lists it; throws if
+   * upstream can't be reached.
+   */
+  async getPoolFile(repo: string, relPath: string): Promise<RemoteFile | null> {
+    const remote = getRepoConfig(this.config, repo).remote;
+    if (!remote) {
+      return null;
+    }
+
+    const localPath = path.join(this.getRoot(repo), "pool", relPath);
+    if (!fs.existsSync(localPath)) {
+      const entry = await this.findPoolEntry(repo, remote, `pool/${relPath}`);
+      if (!entry) {
+        return null;
+      }
+      const url = `${remote.url}/pool/${encodePath(relPath)}`;
+      const fetched = await this.once(localPath, () =>
+        this.download(repo, url, localPath, { algorithm: "sha256", hash: entry.sha256, size: entry.size })
+      );
+      if (!fetched) return null;
+    }
+    return this.statFile(localPath);
+  }
+
+  /**
+   * Size and SHA256 of a pool file, from the Packages and Sources indexes
+   * of the repo's suites: first those cached for the Release in effect,
+   * then those of an earlier Release still in memory (for clients that
+   * haven't updated since), then the indexes that could list it, fetched
+   * and checked against Release.  Null if none lists it.
+   */
+  private async findPoolEntry(
+    repo: string,
+    remote: RemoteConfig,
+    filename: string
+  ): Promise<PoolEntry | null> {
+    const distsDir = path.join(this.getRoot(repo), "dists");
+    const cachedSuites = fs.existsSync(distsDir)
+      ? fs.readdirSync(distsDir, { withFileTypes: true }).filter((e) => e.isDirectory()).map((e) => e.name)
+      : [];
+    const suites = remote.suites ?? cachedSuites;
+
+    const releases: [string, Map<string, string>][] = [];
+    for (const suite of suites) {
+      const checksums = await this.refreshRelease(repo, remote, suite).catch(() => null);
+      if (!checksums) continue;
+      releases.push([suite, checksums]);
+      for (const [indexPath, hash] of checksums) {
+        const match = POOL_INDEX.exec(indexPath);
+        if (!match) continue;
+        const entries = await this.readPoolIndex(path.join(distsDir, suite), indexPath, hash, match[1]);
+        const entry = entries?.get(filename);
+        if (entry) return entry;
+      }
+    }
+
+    for (const entries of this.poolIndexes.values()) {
+      const entry = entries.get(filename);
+      if (entry) return entry;
+    }
+
+    for (const [suite, checksums] of releases) {
+      for (const indexPath of indexesListing(checksums, filename)) {
+        const file = await this.getDistsFile(repo, suite, indexPath).catch(() => null);
+        if (!file) continue;
+        const entries = await this.readPoolIndex(
+          path.join(distsDir, suite),
+          indexPath,
+          file.sha256,
+          POOL_INDEX.exec(indexPath)![1]
+        );
+        const entry = entries?.get(filename);
+        if (entry) return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The pool files an index lists, if the index with SHA256 `hash` is
+   * cached at its path or by hash.  Null if it isn't.
+   */
+  private async readPoolIndex(
+    suiteDir: string,
+    indexPath: string,
+    hash: string,
+    compression: string | undefined
+  ): Promise<Map<string, PoolEntry> | null> {
+    const cached = this.poolIndexes.get(hash);
+    if (cached) {
+      remember(this.poolIndexes, hash, cached, MAX_POOL_INDEXES);
+      return cached;
+    }
+
+    const candidates = [
+      path.join(suiteDir, indexPath),
+      path.join(suiteDir, path.dirname(indexPath), "by-hash", "SHA256", hash),
+    ];
+    let localPath: string | undefined;
+    for (const candidate of candidates) {
+      if (fs.existsSync(candidate) && (await this.digest(candidate, "sha256")) === hash) {
+        localPath = candidate;
+        break;
+      }
+    }
+    if (!localPath) {
+      return null;
+    }
+
+    let content: Buffer;
+    try {
+      content = await decompress(localPath, compression);
+    } catch {
+      return null;
+    }
+    const entries = parsePoolEntries(content.toString());
+    remember(this.poolIndexes, hash, entries, MAX_POOL_INDEXES);
+    return entries;
+  }
+
+  /**
+   * Fetch a suite's Release files if the TTL has passed, returning the
+   * SHA256 checksums of the Release now in effect, or null if upstream has
+   * no such suite.  Falls back to the cached Release if upstream fails.
+   */
+  private async refreshRelease(
+    repo: string,
+    remote: RemoteConfig,
+    suite: string
+  ): Promise<Map<string, string> | null> {
+    const key = `${repo}/${suite}`;
+    const ttlMs = (remote.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+    const state = this.suites.get(key);
+    if (state && Date.now() - state.checkedAt < ttlMs) {
+      return state.checksums;
+    }
+
+    return this.once(key, async () => {
+      const dir = path.join(this.getRoot(repo), "dists", suite);
+      let checksums: Map<string, string> | null;
+      try {
+        checksums = await this.fetchRelease(repo, remote, suite, dir);
+      } catch (error) {
+        // Only verified Release files are ever written, so the cached ones
+        // can be trusted
+        checksums = await this.readCachedRelease(dir);
+        this.logger.warn("Upstream Release fetch failed", {
+          repo,
+          suite,
+          error: String(error),
+          servingCached: checksums !== null,
+        });
+        if (!checksums) throw error;
+      }
+      if (checksums) {
+        this.suites.set(key, { checkedAt: Date.now(), checksums });
+      } else {
+        this.suites.delete(key);
+      }
+      return checksums;
+    });
+  }
+
+  private async fetchRelease(
+    repo: string,
+    remote: RemoteConfig,
+    suite: string,
+    dir: string
+  ): Promise<Map<string, string> | null> {
+    const base = `${remote.url}/dists/${encodePath(suite)}`;
+    const [inRelease, fetchedRelease, fetchedSignature] = await Promise.all(
+      RELEASE_FILES.map((name) => fetchBuffer(`${base}/${name}`))
+    );
+    let release = fetchedRelease;
+    let signature = fetchedSignature;
+    if (!inRelease && !release) {
+      return null;
+    }
+
+    let content: string;
+    if (inRelease) {
+      content = await this.readInRelease(inRelease.toString(), remote.keyring);
+      // Release and Release.gpg are served too, so must verify on their own
+      if (release && remote.keyring) {
+        const verified = await verifyDetached(release, signature, remote.keyring).then(() => true, () => false);
+        if (!verified) {
+          this.logger.warn("Upstream Release.gpg does not verify; serving InRelease only", { repo, suite });
+          release = null;
+          signature = null;
+        }
+      }
+    } else {
+      if (remote.keyring) {
+        await verifyDetached(release!, signature, remote.keyring);
+      }
+      content = release!.toString();
+    }
+
+    const files = { InRelease: inRelease, Release: release, "Release.gpg": signature };
+    fs.mkdirSync(dir, { recursive: true });
+    for (const [name, data] of Object.entries(files)) {
+      const filePath = path.join(dir, name);
+      if (data) {
+        this.writeAtomic(repo, filePath, data);
+      } else {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+    return parseReleaseChecksums(content);
+  }
+
+  private async readCachedRelease(dir: string): Promise<Map<string, string> | null> {
+    const inReleasePath = path.join(dir, "InRelease");
+    const releasePath = path.join(dir, "Release");
+    if (fs.existsSync(inReleasePath)) {
+      return parseReleaseChecksums(await this.readInRelease(fs.readFileSync(inReleasePath, "utf-8")));
+    }
+    if (fs.existsSync(releasePath)) {
+      return parseReleaseChecksums(fs.readFileSync(releasePath, "utf-8"));
+    }
+    return null;
+  }
+
+  /** The Release text inside an InRelease, after verifying it if `keyring` is set. */
+  private async readInRelease(armored: string, keyring?: string): Promise<string> {
+    const message = await openpgp.readCleartextMessage({ cleartextMessage: armored });
+    if (keyring) {
+      const { signatures } = await openpgp.verify({
+        message,
+        verificationKeys: await readKeyring(keyring),
+      });
+      await requireOneValid(signatures);
+    }
+    return message.getText();
+  }
+
+  /**
+   * Download `url` to `dest`, checking it against `expected` (and its
+   * size, if known) if given.
+   * Returns false on 404; throws on any other failure, leaving `dest` as it
+   * was.
+   */
+  private async download(
+    repo: string,
+    url: string,
+    dest: string,
+    expected?: { algorithm: HashAlgorithm; hash: string; size?: number }
+  ): Promise<boolean> {
+    const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch((error) => {
+      this.logger.warn("Upstream fetch failed", { repo, url, error: String(error) });
+      throw error;
+    });
+    if (res.status === 404 || res.status === 410) {
+      return false;
+    }
+    if (!res.ok || !res.body) {
+      this.logger.warn("Upstream fetch failed", { repo, url, status: res.status });
+      throw new Error(`${url}: HTTP ${res.status}`);
+    }
+
+    const tmpPath = this.getTempPath(repo);
+    const algorithm = expected?.algorithm ?? "sha256";
+    const hash = crypto.createHash(algorithm);
+    let size = 0;
+    try {
+      await pipeline(
+        Readable.fromWeb(res.body as ReadableStream<Uint8Array>),
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            size += chunk.length;
+            yield chunk;
+          }
+        },
+        fs.createWriteStream(tmpPath)
+      );
+      const digest = hash.digest("hex");
+      if (expected && (digest !== expected.hash || (expected.size !== undefined && size !== expected.size))) {
+        this.logger.warn("Upstream file does not match its listed checksum", { repo, url });
+        throw new Error(`${url}: checksum mismatch`);
+      }
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.renameSync(tmpPath, dest);
+      remember(this.digests, `${dest}:${algorithm}`, { mtimeMs: fs.statSync(dest).mtimeMs, digest }, MAX_DIGESTS);
+    } finally {
+      fs.rmSync(tmpPath, { force: true });
+    }
+    return true;
+  }
+
+  private writeAtomic(repo: string, dest: string, data: Buffer): void {
+    const tmpPath = this.getTempPath(repo);
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, dest);
+  }
+
+  // Outside dists/ and pool/, so a partial download is never served
+  private getTempPath(repo: string): string {
+    const dir = path.join(this.getRoot(repo), ".tmp");
+    fs.mkdirSync(dir, { recursive: true });
+    return path.join(dir, crypto.randomUUID());
+  }
+
+  private async statFile(filePath: string): Promise<RemoteFile | null> {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return {
+      path: filePath,
+      sha256: await this.digest(filePath, "sha256"),
+      mtime: fs.statSync(filePath).mtime,
+    };
+  }
+
+  private async digest(filePath: string, algorithm: HashAlgorithm): Promise<string> {
+    const key = `${filePath}:${algorithm}`;
+    const mtimeMs = fs.statSync(filePath).mtimeMs;
+    const cached = this.digests.get(key);
+    if (cached?.mtimeMs === mtimeMs) {
+      remember(this.digests, key, cached, MAX_DIGESTS);
+      return cached.digest;
+    }
+    const hash = crypto.createHash(algorithm);
+    await pipeline(fs.createReadStream(filePath), hash);
+    const digest = hash.digest("hex");
+    remember(this.digests, key, { mtimeMs, digest }, MAX_DIGESTS);
+    return digest;
+  }
+
+  private once<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    let pending = this.pending.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = fn().finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+/** The SHA256 section of a Release file: path → hash. */
+export function parseReleaseChecksums(content: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+  let inSection = false;
+  for (const line of content.split("\n")) {
+    if (!line.startsWith(" ")) {
+      inSection = line.trim() === "SHA256:";
+      continue;
+    }
+    const [hash, , file] = line.trim().split(/\s+/);
+    if (inSection && file) checksums.set(file, hash);
+  }
+  return checksums;
+}
+
+/**
+ * The pool files a Packages or Sources index lists: Filename, Size and
+ * SHA256 of each binary package; Directory and Checksums-Sha256 of each
+ * source package.  Entries without a SHA256 are left out.
+ */
+function parsePoolEntries(content: string): Map<string, PoolEntry> {
+  const entries = new Map<string, PoolEntry>();
+  for (const stanza of content.split(/\n\s*\n/)) {
+    const fields = new Map<string, string>();
+    let key = "";
+    for (const line of stanza.split("\n")) {
+      if (/^\s/.test(line) && key) {
+        fields.set(key, `${fields.get(key)}\n${line.trim()}`);
+      } else if (line.includes(":")) {
+        key = line.substring(0, line.indexOf(":"));
+        fields.set(key, line.substring(line.indexOf(":") + 1).trim());
+      }
+    }
+
+    const filename = fields.get("Filename");
+    const sha256 = fields.get("SHA256");
+    if (filename && sha256) {
+      entries.set(filename, { size: parseSize(fields.get("Size")), sha256 });
+    }
+    const directory = fields.get("Directory");
+    for (const line of directory ? (fields.get("Checksums-Sha256") ?? "").split("\n") : []) {
+      const [hash, size, name] = line.trim().split(/\s+/);
+      if (name) entries.set(`${directory}/${name}`, { size: parseSize(size), sha256: hash });
+    }
+  }
+  return entries;
+}
+
+/**
+ * The indexes of a Release that could list `filename`, one compression
+ * each: Packages for the package's architecture (any, for "all") or
+ * Sources, preferring those of the component in its pool path.
+ */
+function indexesListing(checksums: Map<string, string>, filename: string): string[] {
+  const binary = /_([^_/]+)\.[du]?deb$/.exec(filename);
+  const component = filename.split("/")[1];
+  const byIndex = new Map<string, string>();
+  for (const indexPath of checksums.keys()) {
+    const match = POOL_INDEX.exec(indexPath);
+    if (!match) continue;
+    const base = match[1] ? indexPath.slice(0, -match[1].length - 1) : indexPath;
+    const wanted = binary
+      ? base.endsWith("/Packages") && (binary[1] === "all" || base.includes(`binary-${binary[1]}/`))
+      : base.endsWith("/Sources");
+    const current = byIndex.get(base);
+    const rank = (p: string) => INDEX_COMPRESSIONS.indexOf(POOL_INDEX.exec(p)![1]);
+    if (wanted && rank(indexPath) >= 0 && (!current || rank(indexPath) < rank(current))) {
+      byIndex.set(base, indexPath);
+    }
+  }
+  const indexes = Array.from(byIndex.values());
+  const inComponent = indexes.filter((p) => p.startsWith(`${component}/`));
+  return inComponent.length > 0 ? inComponent : indexes;
+}
+
+function parseSize(value: string | undefined): number | undefined {
+  const size = parseInt(value ?? "", 10);
+  return Number.isNaN(size) ? undefined : size;
+}
+
+async function decompress(filePath: string, compression: string | undefined): Promise<Buffer> {
+  switch (compression) {
+    case "gz":
+      return promisify(gunzip)(fs.readFileSync(filePath));
+    case "xz":
+    case "zst": {
+      const command = compression === "xz" ? "xz" : "zstd";
+      const { stdout } = await promisify(execFile)(command, ["-dc", filePath], {
+        encoding: "buffer",
+        maxBuffer: 1024 * 1024 * 1024,
+        timeout: 60_000,
+      });
+      return stdout;
+    }
+    default:
+      return fs.readFileSync(filePath);
+  }
+}
+
+// Insert as the most recently used entry, evicting the least recently used
+function remember<K, V>(map: Map<K, V>, key: K, value: V, max: number): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > max) {
+    map.delete(map.keys().next().value!);
+  }
+}
+
+// Percent-encode each segment; "/" stays a separator
+function encodePath(relPath: string): string {
+  return relPath.split("/").map(encodeURIComponent).join("/");
+}
+
+/** GET `url`; null on 404, throws on other failures. */
+async function fetchBuffer(url: string): Promise<Buffer | null> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (res.status === 404 || res.status === 410) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`${url}: HTTP ${res.status}`);
+  }
+  return Buffer.from(await res.arrayBuffer());
+}
+
+async function readKeyring(keyringPath: string): Promise<openpgp.Key[]> {
+  const data = fs.readFileSync(keyringPath);
+  return data.toString("latin1").includes("-----BEGIN PGP")
+    ? openpgp.readKeys({ armoredKeys: data.toString() })
+    : openpgp.readKeys({ binaryKeys: data });
+}
+
+async function verifyDetached(release: Buffer, signature: Buffer | null, keyring: string): Promise<void> {
+  if (!signature) {
+    throw new Error("Upstream Release is not signed");
+  }
+  const text = signature.toString("latin1");
+  const { signatures } = await openpgp.verify({
+    message: await openpgp.createMessage({ binary: release }),
+    signature: text.includes("-----BEGIN PGP")
+      ? await openpgp.readSignature({ armoredSignature: text })
+      : await openpgp.readSignature({ binarySignature: signature }),
+    verificationKeys: await readKeyring(keyring),
+  });
+  await requireOneValid(signatures);
+}
+
+// Upstream archives sign with several keys; one from the keyring is enough
+async function requireOneValid(signatures: { verified: Promise<boolean> }[]): Promise<void> {
+  const results = await Promise.allSettled(signatures.map((s) => s.verified));
+  if (!results.some((r) => r.status === "fulfilled" && r.value)) {
+    throw new Error("Upstream Release signature does not verify against the keyring");
+  }
+}
@@ -0,0 +1,196 @@
+import { StorageService, PackageLocation, PackageMetadata } from "./storage.js";
+import { SnapshotService } from "./snapshots.js";
+import { Config } from "../config.js";
+import { getRetentionConfig } from "../utils/config-loader.js";
+import { compareVersions } from "../utils/debian-version.js";
+import { Logger } from "../utils/logger.js";
+
+export interface RetentionEntry extends PackageLocation {
+  uploadedAt: string;
+  reason: string;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  deleted: RetentionEntry[];      // With dryRun, what would be deleted; reason is the rule
+  protected: RetentionEntry[];    // Matched by a rule but kept; reason says why
+}
+
+// Who a run's deletions are logged against
+export interface RetentionActor {
+  keyId: string;
+  ip?: string;
+}
+
+const SCHEDULED: RetentionActor = { keyId: "retention" };
+
+const DEFAULT_INTERVAL_HOURS = 24;
+// setInterval takes at most 2^31 - 1 ms, about 596 hours; a longer delay
+// fires after 1 ms instead
+const MAX_INTERVAL_HOURS = (2 ** 31 - 1) / (60 * 60 * 1000);
+
+/**
+ * Prunes old versions by the `retention` policy (global, overridden per
+ * repo).  Packages are grouped by repo, distribution, component,
+ * architecture and name, and ordered by Debian version; within a group a
+ * version is pruned when it is beyond the newest `keepLastN` or was
+ * uploaded more than `maxAgeDays` ago.  The newest version always stays,
+ * as do protected versions and versions a snapshot holds.
+ *
+ * Runs every `intervalHours` once started, and on demand through
+ * POST /api/v1/retention/run.  Every deletion goes to the access log.
+ */
+export class RetentionService {
+  private storage: StorageService;
+  private snapshots: SnapshotService;
+  private logger: Logger;
+  private config: Config;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(storage: StorageService, snapshots: SnapshotService, logger: Logger, config: Config) {
+    this.storage = storage;
+    this.snapshots = snapshots;
+    this.logger = logger;
+    this.config = config;
+  }
+
+  /**
+   * Run now and then on the configured interval, if retention is enabled
+   * globally or for any configured repo — also before any repo holds
+   * packages.  Each run skips the repos it is disabled for.
+   */
+  start(): void {
+    const enabled =
+      this.config.retention.enabled ||
+      Object.values(this.config.repos).some((repo) => repo.retention?.enabled);
+    if (!enabled) return;
+
+    const configured = this.config.retention.intervalHours ?? DEFAULT_INTERVAL_HOURS;
+    let hours = configured;
+    if (!(configured > 0)) {
+      this.logger.warn("Invalid retention intervalHours, using the default", {
+        intervalHours: configured,
+        default: DEFAULT_INTERVAL_HOURS,
+      });
+      hours = DEFAULT_INTERVAL_HOURS;
+    } else if (configured > MAX_INTERVAL_HOURS) {
+      this.logger.warn("Retention intervalHours too long, using the maximum", {
+        intervalHours: configured,
+        maximum: Math.floor(MAX_INTERVAL_HOURS),
+      });
+      hours = MAX_INTERVAL_HOURS;
+    }
+    const tick = () => {
+      try {
+        const report = this.run({}, SCHEDULED);
+        this.logger.info("Retention run", {
+          deleted: report.deleted.length,
+          protected: report.protected.length,
+        });
+      } catch (error) {
+        this.logger.error("Retention error", { error: String(error) });
+      }
+    };
+    this.timer = setInterval(tick, Math.floor(hours * 60 * 60 * 1000));
+    this.timer.unref();
+    setImmediate(tick).unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isEnabled(repo: string): boolean {
+    return getRetentionConfig(this.config, repo).enabled;
+  }
+
+  /**
+   * Apply the policy to `repo`, or to every repo it is enabled for.
+   * With `dryRun`, only reports what would be deleted.
+   */
+  run(options: { repo?: string; dryRun?: boolean }, actor: RetentionActor): RetentionReport {
+    const dryRun = options.dryRun === true;
+    const repos = options.repo ? [options.repo] : this.listRepos();
+    const report: RetentionReport = { dryRun, deleted: [], protected: [] };
+
+    for (const repo of repos.filter((r) => this.isEnabled(r))) {
+      const plan = this.plan(repo);
+      report.protected.push(...plan.protected);
+      for (const entry of plan.prune) {
+        if (!dryRun) {
+          if (!this.storage.deletePackage(entry)) continue;
+          this.logger.access({
+            action: "delete",
+            keyId: actor.keyId,
+            ip: actor.ip,
+            path: [entry.repo, entry.distribution, entry.component, entry.architecture, entry.name, entry.version].join("/"),
+            retention: entry.reason,
+          });
+        }
+        report.deleted.push(entry);
+      }
+    }
+    return report;
+  }
+
+  /** What the repo's policy prunes now, and what it matches but keeps. */
+  plan(repo: string, now = new Date()): { prune: RetentionEntry[]; protected: RetentionEntry[] } {
+    const policy = getRetentionConfig(this.config, repo);
+    const isProtected = (pkg: PackageMetadata) =>
+      (policy.protectedVersions ?? []).some((p) => p === pkg.name || p === `${pkg.name}=${pkg.version}`);
+    const cutoff = policy.maxAgeDays !== undefined
+      ? new Date(now.getTime() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const groups = new Map<string, PackageMetadata[]>();
+    for (const pkg of this.storage.listPackages({ repo })) {
+      const key = [pkg.distribution, pkg.component, pkg.architecture, pkg.name].join("/");
+      groups.set(key, [...(groups.get(key) ?? []), pkg]);
+    }
+
+    const result = { prune: [] as RetentionEntry[], protected: [] as RetentionEntry[] };
+    for (const versions of groups.values()) {
+      versions.sort((a, b) => compareVersions(b.version, a.version));
+      // versions[0] is the newest, which always stays
+      for (const [i, pkg] of versions.entries()) {
+        let rule: string;
+        if (i === 0) {
+          continue;
+        } else if (policy.keepLastN !== undefined && i >= policy.keepLastN) {
+          rule = "keepLastN";
+        } else if (cutoff && pkg.uploadedAt < cutoff) {
+          rule = "maxAgeDays";
+        } else {
+          continue;
+        }
+
+        const entry: RetentionEntry = {
+          repo: pkg.repo,
+          distribution: pkg.distribution,
+          component: pkg.component,
+          architecture: pkg.architecture,
+          name: pkg.name,
+          version: pkg.version,
+          uploadedAt: pkg.uploadedAt,
+          reason: rule,
+        };
+        const pinnedBy = this.snapshots.referencing(entry);
+        if (isProtected(pkg)) {
+          result.protected.push({ ...entry, reason: "Protected version" });
+        } else if (pinnedBy.length > 0) {
+          result.protected.push({ ...entry, reason: `Referenced by snapshots: ${pinnedBy.join(", ")}` });
+        } else {
+          result.prune.push(entry);
+        }
+      }
+    }
+    return result;
+  }
+
+  private listRepos(): string[] {
+    return [...new Set(this.storage.listPackages({}).map((p) => p.repo))].sort();
+  }
+}
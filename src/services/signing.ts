@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import path from "node:path";
+import * as openpgp from "openpgp";
+import { RepoConfig } from "../config.js";
+
+/**
+ * OpenPGP signing for apt Release files.
+ *
+ * Every repo signs with its own key.  If the repo's config names an armored
+ * private key (`signingKeyFile`), that key is used as-is; otherwise a key is
+ * generated on first use and kept in `keyDir/<repo>.asc` so it survives
+ * restarts.  Clients pin the public half with `signed-by=`, so a generated
+ * key must never be silently replaced.
+ */
+export class SigningService {
+  private keyDir: string;
+  private repos: Record<string, RepoConfig>;
+  private keyCache: Map<string, Promise<openpgp.PrivateKey>> = new Map();
+
+  constructor(keyDir: string, repos: Record<string, RepoConfig> = {}) {
+    this.keyDir = keyDir;
+    this.repos = repos;
+    if (!fs.existsSync(keyDir)) {
+      fs.mkdirSync(keyDir, { recursive: true, mode: 0o700 });
+    }
+  }
+
+  private getGeneratedKeyPath(repo: string): string {
+    return path.join(this.keyDir, `${repo}.asc`);
+  }
+
+  /**
+   * Load (and cache) the private key for a repo, generating one if the repo
+   * has neither an imported nor a previously generated key.
+   */
+  private getPrivateKey(repo: string): Promise<openpgp.PrivateKey> {
+    let pending = this.keyCache.get(repo);
+    if (!pending) {
+      pending = this.loadPrivateKey(repo);
+      // Don't cache failures — a fixed key file should be picked up on retry
+      pending.catch(() => this.keyCache.delete(repo));
+      this.keyCache.set(repo, pending);
+    }
+    return pending;
+  }
+
+  private async loadPrivateKey(repo: string): Promise<openpgp.PrivateKey> {
+    const repoConfig = this.repos[repo] ?? {};
+
+    if (repoConfig.signingKeyFile) {
+      const armoredKey = fs.readFileSync(repoConfig.signingKeyFile, "utf-8");
+      const key = await openpgp.readPrivateKey({ armoredKey });
+      if (key.isDecrypted()) return key;
+      if (!repoConfig.signingKeyPassphrase) {
+        throw new Error(`Signing key for repo "${repo}" is passphrase-protected but no signingKeyPassphrase is configured`);
+      }
+      return openpgp.decryptKey({ privateKey: key, passphrase: repoConfig.signingKeyPassphrase });
+    }
+
+    const keyPath = this.getGeneratedKeyPath(repo);
+    if (fs.existsSync(keyPath)) {
+      const armoredKey = fs.readFileSync(keyPath, "utf-8");
+      return openpgp.readPrivateKey({ armoredKey });
+    }
+
+    const { privateKey } = await openpgp.generateKey({
+      type: "ecc",
+      curve: "ed25519Legacy",
+      userIDs: [{ name: `Pository ${repo} archive signing key` }],
+      format: "armored",
+    });
+    // "wx": never overwrite a key that clients may already have pinned
+    fs.writeFileSync(keyPath, privateKey, { mode: 0o600, flag: "wx" });
+    return openpgp.readPrivateKey({ armoredKey: privateKey });
+  }
+
+  /** Produce an InRelease document: the Release content, clearsigned. */
+  async clearsign(repo: string, content: string): Promise<string> {
+    const signingKey = await this.getPrivateKey(repo);
+    const message = await openpgp.createCleartextMessage({ text: content });
+    return openpgp.sign({ message, signingKeys: signingKey });
+  }
+
+  /** Produce a Release.gpg document: an armored detached signature. */
+  async detachSign(repo: string, content: string): Promise<string> {
+    const signingKey = await this.getPrivateKey(repo);
+    const message = await openpgp.createMessage({
+      binary: Buffer.from(content, "utf-8"),
+    });
+    return openpgp.sign({ message, signingKeys: signingKey, detached: true });
+  }
+
+  /**
+   * The repo's public key, either as a binary keyring (usable directly as an
+   * apt `signed-by=` file) or ASCII-armored.
+   */
+  getPublicKey(repo: string, armored: true): Promise<string>;
+  getPublicKey(repo: string, armored: false): Promise<Buffer>;
+  async getPublicKey(repo: string, armored: boolean): Promise<Buffer | string> {
+    const publicKey = (await this.getPrivateKey(repo)).toPublic();
+    return armored ? publicKey.armor() : Buffer.from(publicKey.write());
+  }
+}
@@ -0,0 +1,195 @@
+import fs from "node:fs";
+import path from "node:path";
+import { StorageService, PackageMetadata, PackageLocation } from "./storage.js";
+
+/**
+ * A frozen copy of a distribution's package set.  The package metadata is
+ * copied; the files are not, so a package stays in storage (and in the
+ * pool) for as long as a snapshot lists it.
+ */
+export interface Snapshot {
+  name: string;
+  repo: string;
+  distribution: string;
+  createdAt: string;
+  createdBy: string;          // Key id (or OIDC identity) that took it
+  description?: string;
+  packages: PackageMetadata[];
+}
+
+export type SnapshotSummary = Omit<Snapshot, "packages"> & { packageCount: number };
+
+/** One package version as it appears in a diff. */
+export interface SnapshotDiffEntry {
+  component: string;
+  architecture: string;
+  name: string;
+  version: string;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotDiffEntry[];
+  removed: SnapshotDiffEntry[];
+  // Same location, different file (a replaced upload)
+  changed: SnapshotDiffEntry[];
+}
+
+/**
+ * Named snapshots of repo distributions.
+ *
+ * Layout: `<dataRoot>/<repo>/.snapshots/<name>.json`.  Distribution names
+ * can't start with "." (see sanitizePath), so the directory never collides
+ * with package storage.  A snapshot never changes once taken, so each
+ * repo's snapshots are read from disk once and kept in memory.
+ */
+export class SnapshotService {
+  private dataRoot: string;
+  private storage: StorageService;
+  // Snapshots by name, per repo
+  private cache: Map<string, Map<string, Snapshot>> = new Map();
+  // Names of the snapshots listing each package location, per repo;
+  // rebuilt after a snapshot is taken or deleted
+  private references: Map<string, Map<string, string[]>> = new Map();
+
+  constructor(dataRoot: string, storage: StorageService) {
+    this.dataRoot = dataRoot;
+    this.storage = storage;
+  }
+
+  private getDir(repo: string): string {
+    return path.join(this.dataRoot, repo, ".snapshots");
+  }
+
+  private getPath(repo: string, name: string): string {
+    return path.join(this.getDir(repo), `${name}.json`);
+  }
+
+  /** Freeze the current package set of a distribution under `name`. */
+  create(
+    repo: string,
+    distribution: string,
+    name: string,
+    createdBy: string,
+    description?: string
+  ): Snapshot {
+    const snapshot: Snapshot = {
+      name,
+      repo,
+      distribution,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      ...(description ? { description } : {}),
+      packages: this.storage.listPackages({ repo, distribution }),
+    };
+
+    fs.mkdirSync(this.getDir(repo), { recursive: true });
+    fs.writeFileSync(this.getPath(repo, name), JSON.stringify(snapshot, null, 2));
+    this.load(repo).set(name, snapshot);
+    this.references.delete(repo);
+    return snapshot;
+  }
+
+  get(repo: string, name: string): Snapshot | null {
+    return this.load(repo).get(name) ?? null;
+  }
+
+  /** Every snapshot of a repo, or of every repo, oldest first. */
+  list(repo?: string): SnapshotSummary[] {
+    const repos = repo ? [repo] : this.listRepos();
+    const summaries: SnapshotSummary[] = [];
+    for (const r of repos) {
+      for (const snapshot of this.load(r).values()) {
+        const { packages, ...summary } = snapshot;
+        summaries.push({ ...summary, packageCount: packages.length });
+      }
+    }
+    return summaries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  delete(repo: string, name: string): boolean {
+    const snapshotPath = this.getPath(repo, name);
+    if (!fs.existsSync(snapshotPath)) {
+      return false;
+    }
+    fs.rmSync(snapshotPath);
+    this.cache.get(repo)?.delete(name);
+    this.references.delete(repo);
+    return true;
+  }
+
+  /** Names of the snapshots that list the package stored at `loc`. */
+  referencing(loc: PackageLocation): string[] {
+    let references = this.references.get(loc.repo);
+    if (!references) {
+      references = new Map();
+      for (const snapshot of this.load(loc.repo).values()) {
+        for (const pkg of snapshot.packages) {
+          const key = locationKey(pkg);
+          references.set(key, [...(references.get(key) ?? []), snapshot.name]);
+        }
+      }
+      this.references.set(loc.repo, references);
+    }
+    return references.get(locationKey(loc)) ?? [];
+  }
+
+  // A repo's snapshots by name, read from disk on first use
+  private load(repo: string): Map<string, Snapshot> {
+    const cached = this.cache.get(repo);
+    if (cached) return cached;
+
+    const snapshots = new Map<string, Snapshot>();
+    const dir = this.getDir(repo);
+    if (fs.existsSync(dir)) {
+      for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+        const snapshot = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as Snapshot;
+        snapshots.set(snapshot.name, snapshot);
+      }
+    }
+    this.cache.set(repo, snapshots);
+    return snapshots;
+  }
+
+  private listRepos(): string[] {
+    if (!fs.existsSync(this.dataRoot)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dataRoot, { withFileTypes: true })
+      .filter((e) => e.isDirectory() && !e.name.startsWith("."))
+      .map((e) => e.name);
+  }
+}
+
+/**
+ * What changed going from package set `from` to `to`: package versions
+ * only in `to`, only in `from`, and at the same location with a different
+ * file.
+ */
+export function diffPackages(from: PackageMetadata[], to: PackageMetadata[]): SnapshotDiff {
+  const key = (p: PackageMetadata) => `${p.component}/${p.architecture}/${p.name}/${p.version}`;
+  const entry = (p: PackageMetadata): SnapshotDiffEntry => ({
+    component: p.component,
+    architecture: p.architecture,
+    name: p.name,
+    version: p.version,
+  });
+  const before = new Map(from.map((p) => [key(p), p]));
+  const after = new Map(to.map((p) => [key(p), p]));
+
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] };
+  for (const [k, pkg] of after) {
+    const old = before.get(k);
+    if (!old) diff.added.push(entry(pkg));
+    else if (old.sha256 !== pkg.sha256) diff.changed.push(entry(pkg));
+  }
+  for (const [k, pkg] of before) {
+    if (!after.has(k)) diff.removed.push(entry(pkg));
+  }
+  return diff;
+}
+
+// Snapshots only list packages of their own repo, so the repo is left out
+function locationKey(loc: PackageLocation): string {
+  return [loc.distribution, loc.component, loc.architecture, loc.name, loc.version].join("/");
+}
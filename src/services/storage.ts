@@ -1,9 +1,12 @@
 import crypto from "node:crypto";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import { pipeline } from "node:stream/promises";
 import { Readable } from "node:stream";
-import { execFileSync } from "node:child_process";
+import { execFileSync, spawn } from "node:child_process";
+import { TarEntry, findTarEntry } from "../utils/tar.js";
+import { debugFileBuildId, elfBuildId } from "../utils/build-id.js";
 
 export interface PackageMetadata {
   name: string;
@@ -11,6 +14,10 @@ export interface PackageMetadata {
   architecture: string;
   size: number;
   sha256: string;
+  // MD5 of the .deb, computed once at upload so index generation never has
+  // to re-read package files.  Missing only on entries that pre-date it,
+  // which loadIndex() heals.
+  md5?: string;
   mime: string;
   uploadedAt: string;
   uploaderKeyId: string;
@@ -20,6 +27,9 @@ export interface PackageMetadata {
   // Optional fields extracted from the deb control file at upload time.
   // Stored so the apt Packages index can serve accurate metadata.
   description?: string;
+  // Control Source field, when the source package is named differently
+  // (may carry a version: "foo (1.2-1)").  Decides the pool directory.
+  source?: string;
   multiArch?: string;
   maintainer?: string;
   depends?: string;
@@ -39,6 +49,46 @@ export interface PackageMetadata {
   breaks?: string;
   replaces?: string;
   provides?: string;
+  // "ddeb" for debug symbol packages, published under <component>/debug;
+  // "udeb" for installer packages, under <component>/debian-installer;
+  // absent for ordinary .debs
+  packageType?: "ddeb" | "udeb";
+  // GNU build-id → path inside the data archive, for debuginfod: the
+  // .debug files of a ddeb
+  buildIds?: Record<string, string>;
+  // Staged rollout of this version, published as Phased-Update-Percentage;
+  // absent once it is available to every machine
+  phasing?: PhasingState;
+  // Source packages only (architecture "source").  `sha256`, `md5` and
+  // `mime` describe the .dsc; `size` is the total of every file.
+  sourceFiles?: SourceFile[];
+  binary?: string;
+  format?: string;
+  // The .dsc Architecture field: what the binaries are built for, e.g. "any all"
+  dscArchitecture?: string;
+  buildDepends?: string;
+  buildDependsIndep?: string;
+  buildConflicts?: string;
+  standardsVersion?: string;
+}
+
+/**
+ * A staged rollout.  apt installs a phased version on a machine only if
+ * the machine's hash of the package and version falls below the
+ * percentage, so raising it widens the rollout to a stable set of hosts.
+ */
+export interface PhasingState {
+  percentage: number;         // 0–100; 0 halts the rollout
+  paused?: boolean;           // Held at the current percentage until resumed
+  updatedAt: string;
+}
+
+/** One file of a source package: the .dsc or a file it lists. */
+export interface SourceFile {
+  name: string;
+  size: number;
+  md5: string;
+  sha256: string;
 }
 
 export interface PackageLocation {
@@ -52,17 +102,37 @@ export interface PackageLocation {
 
 export interface PackageIndex {
   packages: PackageMetadata[];
+  // ISO timestamp of the last store/delete per distribution.  Used as the
+  // apt Release Date and to invalidate cached indexes.
+  lastModified?: Record<string, string>;
+}
+
+/** Size and digests of a .deb, for a caller that has already read it. */
+export interface DebDigests {
+  size: number;
+  sha256: string;
+  md5: string;
 }
 
 /** The subset of PackageMetadata that originates from the deb's control file. */
 export type DebControlMeta = Pick<PackageMetadata,
-  "description" | "multiArch" | "maintainer" | "depends" | "preDepends" |
+  "description" | "source" | "multiArch" | "maintainer" | "depends" | "preDepends" |
   "suggests" | "conflicts" | "breaks" | "replaces" | "provides" |
-  "homepage" | "section" | "priority" | "installedSize">;
+  "homepage" | "section" | "priority" | "installedSize" | "packageType">;
+
+/** The subset of PackageMetadata that originates from a source package's .dsc. */
+export type DscControlMeta = Pick<PackageMetadata,
+  "binary" | "format" | "dscArchitecture" | "maintainer" | "homepage" |
+  "section" | "priority" | "buildDepends" | "buildDependsIndep" |
+  "buildConflicts" | "standardsVersion">;
 
 export class StorageService {
   private dataRoot: string;
   private indexCache: Map<string, PackageIndex> = new Map();
+  // Build-id → packages listing it, across repos; rebuilt after any change
+  private buildIdLookup: Map<string, PackageMetadata[]> | null = null;
+  // File lists that could not be written to contents.txt, by package path
+  private unwrittenContents: Map<string, string[]> = new Map();
 
   constructor(dataRoot: string) {
     this.dataRoot = dataRoot;
@@ -106,22 +176,27 @@ export class StorageService {
       const content = fs.readFileSync(indexPath, "utf-8");
       const index = JSON.parse(content) as PackageIndex;
 
-      // Self-heal: backfill control fields from .deb for any entries that
-      // pre-date the upload-time extraction logic.
+      // Self-heal: backfill control fields and digests from .deb for any
+      // entries that pre-date the upload-time extraction logic.
       let healed = false;
       for (let i = 0; i < index.packages.length; i++) {
         const pkg = index.packages[i];
+        const debPath = path.join(this.getPackagePath(pkg), "package.deb");
+        let fields: Partial<PackageMetadata> | null = null;
         if (!pkg.description) {
-          const debPath = path.join(this.getPackagePath(pkg), "package.deb");
-          const fields = this.extractDebControl(debPath);
-          if (fields) {
-            index.packages[i] = { ...pkg, ...fields };
-            try {
-              const metaPath = path.join(this.getPackagePath(pkg), "metadata.json");
-              fs.writeFileSync(metaPath, JSON.stringify(index.packages[i], null, 2));
-            } catch { /* best-effort */ }
-            healed = true;
-          }
+          fields = this.extractDebControl(debPath);
+        }
+        if (!pkg.md5 && fs.existsSync(debPath)) {
+          const md5 = crypto.createHash("md5").update(fs.readFileSync(debPath)).digest("hex");
+          fields = { ...fields, md5 };
+        }
+        if (fields) {
+          index.packages[i] = { ...pkg, ...fields };
+          try {
+            const metaPath = path.join(this.getPackagePath(pkg), "metadata.json");
+            fs.writeFileSync(metaPath, JSON.stringify(index.packages[i], null, 2));
+          } catch { /* best-effort */ }
+          healed = true;
         }
       }
 
@@ -146,81 +221,292 @@ export class StorageService {
     }
     fs.writeFileSync(indexPath, JSON.stringify(index, null, 2));
     this.indexCache.set(repo, index);
+    this.buildIdLookup = null;
   }
 
   async storePackage(
     loc: PackageLocation,
     fileBuffer: Buffer,
     uploaderKeyId: string,
-    controlExtra?: Partial<DebControlMeta>
+    controlExtra?: Partial<DebControlMeta>,
+    fileList?: string[]
   ): Promise<PackageMetadata> {
-    const pkgPath = this.getPackagePath(loc);
-    const debPath = path.join(pkgPath, "package.deb");
-    const metaPath = path.join(pkgPath, "metadata.json");
+    const debPath = path.join(this.getPackagePath(loc), "package.deb");
+    fs.mkdirSync(path.dirname(debPath), { recursive: true });
 
-    // Create directory
-    if (!fs.existsSync(pkgPath)) {
-      fs.mkdirSync(pkgPath, { recursive: true });
+    // Write file.  Unlink first: a copied package shares the inode, and
+    // replacing this one must not rewrite the copy.
+    fs.rmSync(debPath, { force: true });
+    await pipeline(Readable.from(fileBuffer), fs.createWriteStream(debPath));
+
+    const metadata = this.writeDebMetadata(loc, uploaderKeyId, new Date(), controlExtra, fileList);
+    this.addToIndex(metadata);
+    return metadata;
+  }
+
+  /**
+   * Store many binary packages from files on disk (a migrated repository),
+   * then add them all to the index in one write.  Each keeps the upload
+   * date it is given, e.g. the file's own mtime, and the digests and file
+   * list the caller computed while checking it.  Yields to the event loop between
+   * packages, so a large import doesn't hold up other requests.
+   */
+  async importPackages(
+    files: {
+      loc: PackageLocation;
+      filePath: string;
+      uploadedAt: Date;
+      digests: DebDigests;
+      files?: string[];
+      controlExtra?: Partial<DebControlMeta>;
+    }[],
+    uploaderKeyId: string
+  ): Promise<PackageMetadata[]> {
+    const imported: PackageMetadata[] = [];
+    for (const { loc, filePath, uploadedAt, digests, files: fileList, controlExtra } of files) {
+      const debPath = path.join(this.getPackagePath(loc), "package.deb");
+      await fs.promises.mkdir(path.dirname(debPath), { recursive: true });
+      await fs.promises.rm(debPath, { force: true });
+      // A reflink where the filesystem supports it, else a plain copy
+      await fs.promises.copyFile(filePath, debPath, fs.constants.COPYFILE_FICLONE);
+      imported.push(this.writeDebMetadata(loc, uploaderKeyId, uploadedAt, controlExtra, fileList, digests));
+      await new Promise((resolve) => setImmediate(resolve));
     }
+    this.addToIndex(...imported);
+    return imported;
+  }
 
-    // Compute SHA256
-    const sha256 = crypto.createHash("sha256").update(fileBuffer).digest("hex");
+  /**
+   * Describe the package.deb just written at `loc`: digests, control
+   * fields, file list and build-ids.  Writes metadata.json and
+   * contents.txt, and returns the metadata for the index.  `digests`, if
+   * given, must describe the file just written; it then isn't read again.
+   * A replaced build keeps the staged rollout of the one it replaces.
+   */
+  private writeDebMetadata(
+    loc: PackageLocation,
+    uploaderKeyId: string,
+    uploadedAt: Date,
+    controlExtra?: Partial<DebControlMeta>,
+    fileList?: string[],
+    digests?: DebDigests
+  ): PackageMetadata {
+    const pkgPath = this.getPackagePath(loc);
+    const debPath = path.join(pkgPath, "package.deb");
+    const metaPath = path.join(pkgPath, "metadata.json");
 
-    // Write file
-    await pipeline(Readable.from(fileBuffer), fs.createWriteStream(debPath));
+    // Compute digests once; the apt indexes are built from these
+    const { size, sha256, md5 } = digests ?? digestDeb(fs.readFileSync(debPath));
 
     // If the built-in control parser could not extract metadata (e.g. for
     // xz/zstd-compressed control archives), fall back to dpkg-deb on the
     // file we just wrote.  This ensures every upload stores complete metadata
-    // without requiring an external backfill step.
+    // without requiring an external backfill step.  Fields the caller gave
+    // win: they are what it checked the pool path against.
     let resolvedExtra = controlExtra;
     if (!resolvedExtra?.description) {
       const extracted = this.extractDebControl(debPath);
       if (extracted) {
-        resolvedExtra = { ...resolvedExtra, ...extracted };
+        resolvedExtra = { ...extracted, ...resolvedExtra };
       }
     }
 
+    // Same fallback for the installed-file list behind the Contents indexes
+    const files = fileList ?? this.extractDebFileList(debPath);
+    this.writeContents(pkgPath, files ?? []);
+
+    // Only a ddeb's build-ids are known without reading every binary;
+    // debuginfod finds executables through the ddeb (see findExecutable)
+    const buildIds = resolvedExtra?.packageType === "ddeb" ? debugBuildIds(files ?? []) : null;
+
     // Create metadata
     const metadata: PackageMetadata = {
       name: loc.name,
       version: loc.version,
       architecture: loc.architecture,
-      size: fileBuffer.length,
+      size,
       sha256,
+      md5,
       mime: "application/vnd.debian.binary-package",
-      uploadedAt: new Date().toISOString(),
+      uploadedAt: uploadedAt.toISOString(),
       uploaderKeyId,
       repo: loc.repo,
       distribution: loc.distribution,
       component: loc.component,
       ...resolvedExtra,
+      ...(buildIds && Object.keys(buildIds).length > 0 ? { buildIds } : {}),
     };
+    const phasing = this.getPackageMetadata(loc)?.phasing;
+    if (phasing) {
+      metadata.phasing = phasing;
+    }
 
     // Write metadata
     fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+    return metadata;
+  }
 
-    // Update index
-    const index = this.loadIndex(loc.repo);
-    const existingIdx = index.packages.findIndex(
-      (p) =>
-        p.name === loc.name &&
-        p.version === loc.version &&
-        p.distribution === loc.distribution &&
-        p.component === loc.component &&
-        p.architecture === loc.architecture
-    );
+  /**
+   * Store a source package: the .dsc plus the files it lists, already
+   * verified against its checksums.  Stored under architecture "source".
+   * Re-uploading a version replaces all of its files.
+   */
+  async storeSourcePackage(
+    loc: PackageLocation,
+    files: { name: string; data: Buffer }[],
+    uploaderKeyId: string,
+    controlExtra?: Partial<DscControlMeta>
+  ): Promise<PackageMetadata> {
+    const pkgPath = this.getPackagePath(loc);
+    const metaPath = path.join(pkgPath, "metadata.json");
+
+    // Files from a previous upload of this version may not be listed any more
+    fs.rmSync(pkgPath, { recursive: true, force: true });
+    fs.mkdirSync(pkgPath, { recursive: true });
+
+    const sourceFiles: SourceFile[] = [];
+    for (const file of files) {
+      await pipeline(Readable.from(file.data), fs.createWriteStream(path.join(pkgPath, file.name)));
+      sourceFiles.push({
+        name: file.name,
+        size: file.data.length,
+        md5: crypto.createHash("md5").update(file.data).digest("hex"),
+        sha256: crypto.createHash("sha256").update(file.data).digest("hex"),
+      });
+    }
+
+    const dsc = sourceFiles[0];
+    const metadata: PackageMetadata = {
+      name: loc.name,
+      version: loc.version,
+      architecture: loc.architecture,
+      size: sourceFiles.reduce((total, f) => total + f.size, 0),
+      sha256: dsc.sha256,
+      md5: dsc.md5,
+      mime: "text/prs.lines.tag",
+      uploadedAt: new Date().toISOString(),
+      uploaderKeyId,
+      repo: loc.repo,
+      distribution: loc.distribution,
+      component: loc.component,
+      ...controlExtra,
+      sourceFiles,
+    };
+
+    fs.writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+
+    this.addToIndex(metadata);
+    return metadata;
+  }
+
+  /**
+   * Store an existing package at another location (another distribution,
+   * component or repo) without a second copy of its files: they are
+   * hard-linked, and only copied when the locations are on different
+   * filesystems.  Metadata and digests are carried across; a staged
+   * rollout is not, as it belongs to the distribution.  Returns null if
+   * the source does not exist.
+   */
+  copyPackage(from: PackageLocation, to: PackageLocation): PackageMetadata | null {
+    const source = this.getPackageMetadata(from);
+    if (!source) {
+      return null;
+    }
 
-    if (existingIdx >= 0) {
-      index.packages[existingIdx] = metadata;
-    } else {
-      index.packages.push(metadata);
+    const fromPath = this.getPackagePath(from);
+    const toPath = this.getPackagePath(to);
+    if (fromPath === toPath) {
+      return source;
+    }
+    fs.rmSync(toPath, { recursive: true, force: true });
+    fs.mkdirSync(toPath, { recursive: true });
+    for (const file of fs.readdirSync(fromPath)) {
+      const src = path.join(fromPath, file);
+      const dest = path.join(toPath, file);
+      // Small files that later writes update in place are never shared
+      if (file === "metadata.json") continue;
+      if (file === "contents.txt") {
+        fs.copyFileSync(src, dest);
+        continue;
+      }
+      try {
+        fs.linkSync(src, dest);
+      } catch {
+        fs.copyFileSync(src, dest);
+      }
     }
-    this.saveIndex(loc.repo, index);
 
+    const metadata: PackageMetadata = {
+      ...source,
+      repo: to.repo,
+      distribution: to.distribution,
+      component: to.component,
+    };
+    delete metadata.phasing;
+    fs.writeFileSync(path.join(toPath, "metadata.json"), JSON.stringify(metadata, null, 2));
+
+    this.addToIndex(metadata);
     return metadata;
   }
 
+  /** Add or replace packages' entries in their repo indexes, one write per repo. */
+  private addToIndex(...packages: PackageMetadata[]): void {
+    for (const repo of new Set(packages.map((p) => p.repo))) {
+      const index = this.loadIndex(repo);
+      for (const metadata of packages.filter((p) => p.repo === repo)) {
+        const existingIdx = index.packages.findIndex(
+          (p) =>
+            p.name === metadata.name &&
+            p.version === metadata.version &&
+            p.distribution === metadata.distribution &&
+            p.component === metadata.component &&
+            p.architecture === metadata.architecture
+        );
+
+        if (existingIdx >= 0) {
+          index.packages[existingIdx] = metadata;
+        } else {
+          index.packages.push(metadata);
+        }
+        this.touchDistribution(index, metadata.distribution);
+      }
+      this.saveIndex(repo, index);
+    }
+  }
+
+  private touchDistribution(index: PackageIndex, distribution: string): void {
+    // Strictly increasing, so two changes within one millisecond still
+    // invalidate anything cached against the first
+    const previous = index.lastModified?.[distribution];
+    let now = Date.now();
+    if (previous && now <= Date.parse(previous)) {
+      now = Date.parse(previous) + 1;
+    }
+    index.lastModified = {
+      ...index.lastModified,
+      [distribution]: new Date(now).toISOString(),
+    };
+  }
+
+  /**
+   * When the package set of a distribution last changed.  Falls back to the
+   * newest upload for indexes written before this was tracked, and null
+   * for a distribution that has never held packages.
+   */
+  getLastModified(repo: string, distribution: string): Date | null {
+    const index = this.loadIndex(repo);
+    const recorded = index.lastModified?.[distribution];
+    if (recorded) return new Date(recorded);
+
+    let newest: string | null = null;
+    for (const pkg of index.packages) {
+      if (pkg.distribution === distribution && (!newest || pkg.uploadedAt > newest)) {
+        newest = pkg.uploadedAt;
+      }
+    }
+    return newest ? new Date(newest) : null;
+  }
+
   getPackageFile(loc: PackageLocation): string | null {
     const pkgPath = this.getPackagePath(loc);
     const debPath = path.join(pkgPath, "package.deb");
@@ -230,6 +516,100 @@ export class StorageService {
     return null;
   }
 
+  /**
+   * Path of one file of a source package, or null if the package does not
+   * list a file of that name.
+   */
+  getSourceFile(loc: PackageLocation, filename: string): string | null {
+    const metadata = this.getPackageMetadata(loc);
+    if (!metadata?.sourceFiles?.some((f) => f.name === filename)) {
+      return null;
+    }
+    const filePath = path.join(this.getPackagePath(loc), filename);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * The files a package installs, as listed in the Contents indexes.  Kept
+   * next to the .deb rather than in the index because it can be long.
+   * Packages stored before file lists were recorded are healed on first
+   * access via dpkg-deb.
+   */
+  getPackageContents(loc: PackageLocation): string[] {
+    const pkgPath = this.getPackagePath(loc);
+    const unwritten = this.unwrittenContents.get(pkgPath);
+    if (unwritten) {
+      return unwritten;
+    }
+    const contentsPath = path.join(pkgPath, "contents.txt");
+    if (fs.existsSync(contentsPath)) {
+      return fs.readFileSync(contentsPath, "utf-8").split("\n").filter(Boolean);
+    }
+
+    const files = this.extractDebFileList(path.join(pkgPath, "package.deb")) ?? [];
+    this.writeContents(pkgPath, files);
+    return files;
+  }
+
+  /**
+   * Record a package's file list in contents.txt: empty if it could not be
+   * listed, so dpkg-deb isn't retried on every index build.  If the file
+   * can't be written, the list is kept in memory instead.
+   */
+  private writeContents(pkgPath: string, files: string[]): void {
+    try {
+      fs.writeFileSync(path.join(pkgPath, "contents.txt"), files.map((f) => f + "\n").join(""));
+      this.unwrittenContents.delete(pkgPath);
+    } catch {
+      this.unwrittenContents.set(pkgPath, files);
+    }
+  }
+
+  /**
+   * One file from a package's data archive, by its path as listed in the
+   * Contents indexes.  Returns null if the package, the file or dpkg-deb is
+   * missing.
+   */
+  async readPackageDataFile(loc: PackageLocation, filePath: string): Promise<Buffer | null> {
+    const entry = await this.findDataEntry(
+      loc,
+      (name, type) => name === filePath && type === "file",
+      () => true
+    );
+    return entry ? entry.data : null;
+  }
+
+  /**
+   * The ELF file with GNU build-id `buildId` in a package's data archive,
+   * and its path there.  Every file is read in turn until one matches, so
+   * this is for packages known to hold it, not for searching.
+   */
+  async findExecutable(
+    loc: PackageLocation,
+    buildId: string
+  ): Promise<{ path: string; data: Buffer } | null> {
+    const entry = await this.findDataEntry(
+      loc,
+      (_name, type) => type === "file",
+      (e) => elfBuildId(e.data) === buildId
+    );
+    return entry ? { path: entry.name, data: entry.data } : null;
+  }
+
+  /** Packages whose metadata lists `buildId`, in any repo. */
+  findByBuildId(buildId: string): PackageMetadata[] {
+    if (!this.buildIdLookup) {
+      const lookup = new Map<string, PackageMetadata[]>();
+      for (const pkg of this.listPackages({})) {
+        for (const id of Object.keys(pkg.buildIds ?? {})) {
+          lookup.set(id, [...(lookup.get(id) ?? []), pkg]);
+        }
+      }
+      this.buildIdLookup = lookup;
+    }
+    return this.buildIdLookup.get(buildId) ?? [];
+  }
+
   getPackageMetadata(loc: PackageLocation): PackageMetadata | null {
     const pkgPath = this.getPackagePath(loc);
     const metaPath = path.join(pkgPath, "metadata.json");
@@ -240,6 +620,26 @@ export class StorageService {
     return null;
   }
 
+  /**
+   * Set or clear (`undefined`) a package's staged rollout.  Returns the
+   * updated metadata, or null if the package does not exist.
+   */
+  setPhasing(loc: PackageLocation, phasing: PhasingState | undefined): PackageMetadata | null {
+    const metadata = this.getPackageMetadata(loc);
+    if (!metadata) {
+      return null;
+    }
+
+    const updated: PackageMetadata = { ...metadata, phasing };
+    if (!phasing) delete updated.phasing;
+    fs.writeFileSync(
+      path.join(this.getPackagePath(loc), "metadata.json"),
+      JSON.stringify(updated, null, 2)
+    );
+    this.addToIndex(updated);
+    return updated;
+  }
+
   deletePackage(loc: PackageLocation): boolean {
     const pkgPath = this.getPackagePath(loc);
     if (!fs.existsSync(pkgPath)) {
@@ -248,6 +648,7 @@ export class StorageService {
 
     // Remove directory recursively
     fs.rmSync(pkgPath, { recursive: true });
+    this.unwrittenContents.delete(pkgPath);
 
     // Update index
     const index = this.loadIndex(loc.repo);
@@ -261,6 +662,7 @@ export class StorageService {
     );
     if (idx >= 0) {
       index.packages.splice(idx, 1);
+      this.touchDistribution(index, loc.distribution);
       this.saveIndex(loc.repo, index);
     }
 
@@ -270,6 +672,22 @@ export class StorageService {
     return true;
   }
 
+  /**
+   * Control-file metadata of a .deb that isn't stored yet, via dpkg-deb —
+   * for control archives the built-in parser can't read (xz, zstd).
+   * Returns null if dpkg-deb is not available or the file is unreadable.
+   */
+  readDebControl(fileBuffer: Buffer): Partial<DebControlMeta> | null {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-control-"));
+    try {
+      const debPath = path.join(tmpDir, "package.deb");
+      fs.writeFileSync(debPath, fileBuffer);
+      return this.extractDebControl(debPath);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Extract control-file metadata from a .deb using dpkg-deb.
    * Returns null if dpkg-deb is not available or the file is unreadable.
@@ -299,6 +717,7 @@ export class StorageService {
 
       const result: Partial<DebControlMeta> = {};
       if (fields.Description) result.description = fields.Description.trimEnd();
+      if (fields.Source) result.source = fields.Source;
       if (fields["Multi-Arch"]) result.multiArch = fields["Multi-Arch"];
       if (fields.Maintainer) result.maintainer = fields.Maintainer;
       if (fields.Depends) result.depends = fields.Depends;
@@ -311,6 +730,8 @@ export class StorageService {
       if (fields.Homepage) result.homepage = fields.Homepage;
       if (fields.Section) result.section = fields.Section;
       if (fields.Priority) result.priority = fields.Priority;
+      const packageType = fields["Package-Type"];
+      if (packageType === "ddeb" || packageType === "udeb") result.packageType = packageType;
       if (fields["Installed-Size"]) {
         const parsed = parseInt(fields["Installed-Size"], 10);
         if (!isNaN(parsed)) result.installedSize = parsed;
@@ -321,6 +742,64 @@ export class StorageService {
     }
   }
 
+  /**
+   * List the files in a .deb's data archive using dpkg-deb, which handles
+   * every data.tar compression.  Returns null if dpkg-deb is not available
+   * or the file is unreadable.
+   */
+  private extractDebFileList(debPath: string): string[] | null {
+    if (!fs.existsSync(debPath)) return null;
+    try {
+      const raw = execFileSync("dpkg-deb", ["--contents", debPath], {
+        encoding: "utf-8",
+        timeout: 60_000,
+        maxBuffer: 256 * 1024 * 1024,
+      });
+
+      // tar -tv style: "<mode> <owner> <size> <date> <time> <name>[ -> target]"
+      const files: string[] = [];
+      for (const line of raw.split("\n")) {
+        const fields = line.split(/\s+/);
+        if (fields.length < 6 || fields[0].startsWith("d")) continue;
+        let name = fields.slice(5).join(" ");
+        if (fields[0].startsWith("l")) name = name.replace(/ -> .*$/, "");
+        name = name.replace(/ link to .*$/, "").replace(/^\.?\/+/, "");
+        if (name) files.push(name);
+      }
+      return files;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stream a .deb's data archive through `dpkg-deb --fsys-tarfile`, which
+   * handles every compression, to the first entry `match` accepts; see
+   * findTarEntry().  dpkg-deb is stopped as soon as one does.  Returns null
+   * if none does, or the package or dpkg-deb is missing.
+   */
+  private async findDataEntry(
+    loc: PackageLocation,
+    wanted: (name: string, type: TarEntry["type"]) => boolean,
+    match: (entry: TarEntry) => boolean
+  ): Promise<TarEntry | null> {
+    const debPath = path.join(this.getPackagePath(loc), "package.deb");
+    if (!fs.existsSync(debPath)) return null;
+
+    const child = spawn("dpkg-deb", ["--fsys-tarfile", debPath], {
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 60_000,
+    });
+    child.on("error", () => { /* reported as a null result */ });
+    try {
+      return await findTarEntry(child.stdout, wanted, match);
+    } catch {
+      return null;
+    } finally {
+      child.kill();
+    }
+  }
+
   private cleanEmptyDirs(dir: string): void {
     while (dir !== this.dataRoot && dir.startsWith(this.dataRoot)) {
       try {
@@ -401,3 +880,34 @@ export class StorageService {
     }
   }
 }
+
+/** Build-ids of a ddeb, from the names of its .build-id/ debug files. */
+function debugBuildIds(files: string[]): Record<string, string> {
+  const buildIds: Record<string, string> = {};
+  for (const file of files) {
+    const buildId = debugFileBuildId(file);
+    if (buildId) buildIds[buildId] = file;
+  }
+  return buildIds;
+}
+
+function digestDeb(data: Buffer): DebDigests {
+  return {
+    size: data.length,
+    sha256: crypto.createHash("sha256").update(data).digest("hex"),
+    md5: crypto.createHash("md5").update(data).digest("hex"),
+  };
+}
+
+/** Size and digests of a .deb on disk, read as a stream in one pass. */
+export async function digestDebFile(filePath: string): Promise<DebDigests> {
+  const sha256 = crypto.createHash("sha256");
+  const md5 = crypto.createHash("md5");
+  let size = 0;
+  for await (const chunk of fs.createReadStream(filePath) as AsyncIterable<Buffer>) {
+    sha256.update(chunk);
+    md5.update(chunk);
+    size += chunk.length;
+  }
+  return { size, sha256: sha256.digest("hex"), md5: md5.digest("hex") };
+}
@@ -0,0 +1,8 @@
+/** Username and password from an HTTP Basic Authorization header. */
+export function parseBasicAuth(header: string | undefined): { username: string; password: string } | null {
+  if (!header || !header.startsWith("Basic ")) return null;
+  const decoded = Buffer.from(header.slice(6), "base64").toString("utf-8");
+  const colon = decoded.indexOf(":");
+  if (colon === -1) return null;
+  return { username: decoded.substring(0, colon), password: decoded.substring(colon + 1) };
+}
@@ -0,0 +1,74 @@
+/**
+ * GNU build-ids, the keys debuginfod looks files up by.
+ *
+ * A -dbgsym .ddeb ships each debug file as
+ * `usr/lib/debug/.build-id/<first two hex digits>/<rest>.debug`, so its
+ * build-ids come from the file list alone.  The executables themselves
+ * carry theirs in an ELF note (NT_GNU_BUILD_ID), read from the binary.
+ */
+
+const DEBUG_FILE = /^usr\/lib\/debug\/\.build-id\/([0-9a-f]{2})\/([0-9a-f]+)\.debug$/;
+
+const SHT_NOTE = 7;
+const NT_GNU_BUILD_ID = 3;
+
+/** A lowercase hex build-id, as debuginfod URLs carry it. */
+export function isBuildId(value: string): boolean {
+  return /^[0-9a-f]{2,128}$/.test(value) && value.length % 2 === 0;
+}
+
+/** The build-id a ddeb file path is named after, or null. */
+export function debugFileBuildId(filePath: string): string | null {
+  const match = DEBUG_FILE.exec(filePath);
+  return match ? match[1] + match[2] : null;
+}
+
+/**
+ * The build-id of an ELF file, from its note sections.  Returns null for
+ * anything that is not ELF or has no GNU build-id note.
+ */
+export function elfBuildId(data: Buffer): string | null {
+  if (data.length < 52 || data.readUInt32BE(0) !== 0x7f454c46) return null;
+
+  const is64 = data[4] === 2;
+  const littleEndian = data[5] === 1;
+  const u16 = (offset: number) =>
+    littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset);
+  const u32 = (offset: number) =>
+    littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+  const word = (offset: number) =>
+    is64
+      ? Number(littleEndian ? data.readBigUInt64LE(offset) : data.readBigUInt64BE(offset))
+      : u32(offset);
+
+  try {
+    const shoff = word(is64 ? 0x28 : 0x20);
+    const shentsize = u16(is64 ? 0x3a : 0x2e);
+    const shnum = u16(is64 ? 0x3c : 0x30);
+
+    for (let i = 0; i < shnum; i++) {
+      const section = shoff + i * shentsize;
+      if (u32(section + 4) !== SHT_NOTE) continue;
+      const start = word(section + (is64 ? 0x18 : 0x10));
+      const size = word(section + (is64 ? 0x20 : 0x14));
+
+      // Notes: namesz, descsz, type, then name and desc, each 4-aligned
+      let offset = start;
+      while (offset + 12 <= start + size) {
+        const namesz = u32(offset);
+        const descsz = u32(offset + 4);
+        const type = u32(offset + 8);
+        const nameStart = offset + 12;
+        const descStart = nameStart + Math.ceil(namesz / 4) * 4;
+        const name = data.subarray(nameStart, nameStart + namesz).toString().replace(/\0+$/, "");
+        if (type === NT_GNU_BUILD_ID && name === "GNU") {
+          return data.subarray(descStart, descStart + descsz).toString("hex");
+        }
+        offset = descStart + Math.ceil(descsz / 4) * 4;
+      }
+    }
+  } catch {
+    // Truncated or malformed headers
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+import { gzipSync } from "node:zlib";
+import { execFileSync } from "node:child_process";
+
+export type IndexCompression = "gz" | "xz" | "zst";
+
+export const INDEX_COMPRESSIONS: IndexCompression[] = ["gz", "xz", "zst"];
+
+/**
+ * Compress an apt index file.  gzip uses zlib; xz and zstd shell out to the
+ * `xz`/`zstd` binaries (Node has no built-in xz, and zstd only landed in
+ * zlib after our minimum Node version).
+ *
+ * Returns null if the required tool is unavailable, so callers can simply
+ * skip that variant instead of failing the whole index.
+ */
+export function compressIndex(content: Buffer, compression: IndexCompression): Buffer | null {
+  switch (compression) {
+    case "gz":
+      // mtime stays 0 in gzipSync output, so identical input compresses to
+      // identical bytes — required for stable Release checksums
+      return gzipSync(content, { level: 9 });
+    case "xz":
+      return runCompressor("xz", ["-c", "-6"], content);
+    case "zst":
+      return runCompressor("zstd", ["-c", "-q", "-9"], content);
+  }
+}
+
+function runCompressor(command: string, args: string[], input: Buffer): Buffer | null {
+  try {
+    return execFileSync(command, args, {
+      input,
+      maxBuffer: 1024 * 1024 * 1024,
+      timeout: 60_000,
+      stdio: ["pipe", "pipe", "ignore"],
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function isIndexCompression(value: string): value is IndexCompression {
+  return (INDEX_COMPRESSIONS as string[]).includes(value);
+}
@@ -1,7 +1,16 @@
 import fs from "node:fs";
 import path from "node:path";
 import { parse } from "yaml";
-import { Config, defaultConfig } from "../config.js";
+import {
+  Config,
+  RepoConfig,
+  DistributionConfig,
+  ReleaseConfig,
+  RetentionConfig,
+  DependencyCheckConfig,
+  defaultConfig,
+  defaultRepoConfig,
+} from "../config.js";
 
 export function loadConfig(configPath?: string): Config {
   const configFile =
@@ -28,6 +37,14 @@ export function loadConfig(configPath?: string): Config {
       ...defaultConfig.retention,
       ...(fileConfig.retention || {}),
     },
+    signing: {
+      ...defaultConfig.signing,
+      ...(fileConfig.signing || {}),
+    },
+    repos: {
+      ...defaultConfig.repos,
+      ...(fileConfig.repos || {}),
+    },
     // OIDC overrides merge separately so the default map isn't clobbered
     oidcOverrides: {
       ...(defaultConfig.oidcOverrides || {}),
@@ -68,6 +85,9 @@ export function loadConfig(configPath?: string): Config {
   if (process.env.POSITORY_CORS_ORIGINS) {
     config.corsOrigins = process.env.POSITORY_CORS_ORIGINS.split(",").map((o) => o.trim()).filter(Boolean);
   }
+  if (process.env.POSITORY_SIGNING_KEY_DIR) {
+    config.signing.keyDir = process.env.POSITORY_SIGNING_KEY_DIR;
+  }
   if (process.env.POSITORY_OIDC_AUDIENCE) {
     config.oidcAudience = process.env.POSITORY_OIDC_AUDIENCE;
   }
@@ -82,10 +102,78 @@ export function loadConfig(configPath?: string): Config {
   ensureDir(config.dataRoot);
   ensureDir(config.logPath);
   ensureDir(path.dirname(config.apiKeysPath));
+  if (config.signing.enabled) {
+    ensureDir(config.signing.keyDir);
+  }
 
   return config;
 }
 
+/**
+ * Effective settings for one repo: the built-in defaults overlaid with the
+ * repo's entry under `repos`, if any.
+ */
+export function getRepoConfig(config: Config, repo: string): RepoConfig {
+  return {
+    ...defaultRepoConfig,
+    ...(config.repos[repo] || {}),
+  };
+}
+
+/** A distribution's entry under `repos.<repo>.distributions`, or an empty one. */
+export function getDistributionConfig(
+  config: Config,
+  repo: string,
+  distribution: string
+): DistributionConfig {
+  return getRepoConfig(config, repo).distributions?.[distribution] || {};
+}
+
+/**
+ * Effective Release fields for one distribution: built-in defaults, then
+ * the repo's `release`, then the distribution's own `release`.
+ */
+export function getReleaseConfig(config: Config, repo: string, distribution: string): ReleaseConfig {
+  return {
+    origin: "Pository",
+    label: "Pository",
+    codename: `pository-${repo}-${distribution}`,
+    description: `Pository repository for ${repo}`,
+    ...(getRepoConfig(config, repo).release || {}),
+    ...(getDistributionConfig(config, repo, distribution).release || {}),
+  };
+}
+
+/**
+ * Effective dependency check for one distribution: off by default, then the
+ * repo's `dependencyCheck`, then the distribution's own.
+ */
+export function getDependencyCheckConfig(
+  config: Config,
+  repo: string,
+  distribution: string
+): DependencyCheckConfig {
+  return {
+    mode: "off",
+    external: [],
+    ...(getRepoConfig(config, repo).dependencyCheck || {}),
+    ...(getDistributionConfig(config, repo, distribution).dependencyCheck || {}),
+  };
+}
+
+/**
+ * Effective retention policy for one repo: the global `retention` overlaid
+ * with the repo's own.  Protected versions from both apply.
+ */
+export function getRetentionConfig(config: Config, repo: string): RetentionConfig {
+  const own = getRepoConfig(config, repo).retention || {};
+  return {
+    ...config.retention,
+    ...own,
+    protectedVersions: [...(config.retention.protectedVersions || []), ...(own.protectedVersions || [])],
+  };
+}
+
 function ensureDir(dir: string): void {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
@@ -0,0 +1,106 @@
+/**
+ * Debian version ordering, as `dpkg --compare-versions` does it:
+ * `[epoch:]upstream[-revision]`, compared epoch first (numerically), then
+ * upstream, then revision.  Within upstream and revision, runs of non-digits
+ * compare character by character — `~` before everything, even the end of
+ * the string, then letters, then other characters — and runs of digits
+ * compare numerically.
+ */
+
+interface ParsedVersion {
+  epoch: number;
+  upstream: string;
+  revision: string;
+}
+
+function parseVersion(version: string): ParsedVersion {
+  const colon = version.indexOf(":");
+  const hasEpoch = colon > 0 && /^\d+$/.test(version.substring(0, colon));
+  const epoch = hasEpoch ? parseInt(version.substring(0, colon), 10) : 0;
+  const rest = hasEpoch ? version.substring(colon + 1) : version;
+  const hyphen = rest.lastIndexOf("-");
+  return hyphen >= 0
+    ? { epoch, upstream: rest.substring(0, hyphen), revision: rest.substring(hyphen + 1) }
+    : { epoch, upstream: rest, revision: "" };
+}
+
+function isDigit(c: string | undefined): boolean {
+  return c !== undefined && c >= "0" && c <= "9";
+}
+
+// Sort weight of one character of a non-digit run; undefined is the end
+function order(c: string | undefined): number {
+  if (c === undefined || isDigit(c)) return 0;
+  if (/[A-Za-z]/.test(c)) return c.charCodeAt(0);
+  if (c === "~") return -1;
+  return c.charCodeAt(0) + 256;
+}
+
+function compareFragment(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    while ((i < a.length && !isDigit(a[i])) || (j < b.length && !isDigit(b[j]))) {
+      const diff = order(a[i]) - order(b[j]);
+      if (diff !== 0) return diff;
+      i++;
+      j++;
+    }
+    while (a[i] === "0") i++;
+    while (b[j] === "0") j++;
+    let firstDiff = 0;
+    while (isDigit(a[i]) && isDigit(b[j])) {
+      if (firstDiff === 0) firstDiff = a.charCodeAt(i) - b.charCodeAt(j);
+      i++;
+      j++;
+    }
+    if (isDigit(a[i])) return 1;
+    if (isDigit(b[j])) return -1;
+    if (firstDiff !== 0) return firstDiff;
+  }
+  return 0;
+}
+
+/** Negative, zero or positive as `a` sorts before, equal to or after `b`. */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  const diff =
+    va.epoch - vb.epoch ||
+    compareFragment(va.upstream, vb.upstream) ||
+    compareFragment(va.revision, vb.revision);
+  return Math.sign(diff);
+}
+
+// The relations of Depends-style version constraints: `(>= 2.1)`
+export type VersionRelation = "<<" | "<=" | "=" | ">=" | ">>";
+
+export interface VersionConstraint {
+  relation: VersionRelation;
+  version: string;
+}
+
+/**
+ * Parse a comma-separated list of constraints, e.g. ">=2.1, <<3"; a bare
+ * version means "=".  Returns null if any part is malformed.
+ */
+export function parseVersionConstraints(spec: string): VersionConstraint[] | null {
+  const constraints: VersionConstraint[] = [];
+  for (const part of spec.split(",")) {
+    const match = part.trim().match(/^(<<|<=|=|>=|>>)?\s*([A-Za-z0-9.+~:-]+)$/);
+    if (!match) return null;
+    constraints.push({ relation: (match[1] as VersionRelation | undefined) ?? "=", version: match[2] });
+  }
+  return constraints;
+}
+
+export function satisfies(version: string, constraint: VersionConstraint): boolean {
+  const cmp = compareVersions(version, constraint.version);
+  switch (constraint.relation) {
+    case "<<": return cmp < 0;
+    case "<=": return cmp <= 0;
+    case "=": return cmp === 0;
+    case ">=": return cmp >= 0;
+    case ">>": return cmp > 0;
+  }
+}
@@ -0,0 +1,135 @@
+import { PackageMetadata } from "../services/storage.js";
+import { VersionConstraint, VersionRelation, satisfies } from "./debian-version.js";
+
+/**
+ * Binary package relationship fields (Depends, Pre-Depends, Breaks,
+ * Conflicts, Provides) and whether a package's dependencies can be met by
+ * the packages of one distribution.
+ *
+ * A field is a comma-separated list of groups that must all hold; a group
+ * is `|`-separated alternatives of which one must: `name[:arch] [(op
+ * version)] [[arch list]] [<profiles>]`.
+ */
+
+export interface Relation {
+  name: string;
+  constraint?: VersionConstraint;
+  architectures?: string[];       // [amd64 !i386]: where the relation applies
+}
+
+// What the check reads of a package: its identity and relationship fields
+export type DependencyInfo = Pick<
+  PackageMetadata,
+  "name" | "version" | "architecture" | "depends" | "preDepends" | "breaks" | "conflicts" | "provides"
+>;
+
+export interface RelationGroup {
+  text: string;                   // As written in the control file
+  alternatives: Relation[];
+}
+
+// dpkg's obsolete spellings of "<=" and ">="
+const OBSOLETE_RELATIONS: Record<string, VersionRelation> = { "<": "<=", ">": ">=" };
+
+const RELATION =
+  /^([a-z0-9][a-z0-9.+-]*)(?::[a-z0-9-]+)?\s*(?:\(\s*(<<|<=|=|>=|>>|<|>)\s*([a-z0-9][^\s)]*)\s*\))?\s*(?:\[([^\]]*)\])?\s*(?:<[^>]*>\s*)*$/i;
+
+/** Parse one relationship field.  Returns null if any entry is malformed. */
+export function parseRelations(field: string): RelationGroup[] | null {
+  const groups: RelationGroup[] = [];
+  for (const text of field.split(",").map((g) => g.trim().replace(/\s+/g, " "))) {
+    if (!text) continue;
+    const alternatives: Relation[] = [];
+    for (const alternative of text.split("|")) {
+      const match = alternative.trim().match(RELATION);
+      if (!match) return null;
+      const [, name, op, version, arches] = match;
+      const relation = OBSOLETE_RELATIONS[op] ?? (op as VersionRelation);
+      alternatives.push({
+        name: name.toLowerCase(),
+        ...(op ? { constraint: { relation, version } } : {}),
+        ...(arches ? { architectures: arches.trim().split(/\s+/) } : {}),
+      });
+    }
+    groups.push({ text, alternatives });
+  }
+  return groups;
+}
+
+function appliesTo(relation: Relation, architecture: string): boolean {
+  if (!relation.architectures || architecture === "all") return true;
+  const negated = relation.architectures.every((a) => a.startsWith("!"));
+  return negated
+    ? !relation.architectures.includes(`!${architecture}`)
+    : relation.architectures.includes(architecture);
+}
+
+/** Whether `relation` names `pkg` itself (Breaks/Conflicts targets). */
+function matchesPackage(relation: Relation, pkg: Pick<PackageMetadata, "name" | "version">): boolean {
+  return relation.name === pkg.name && (!relation.constraint || satisfies(pkg.version, relation.constraint));
+}
+
+/** Whether `pkg`, as a real package or through Provides, meets `relation`. */
+function provides(pkg: DependencyInfo, relation: Relation): boolean {
+  if (matchesPackage(relation, pkg)) return true;
+  return (parseRelations(pkg.provides ?? "") ?? []).some(({ alternatives: [provided] }) => {
+    if (provided.name !== relation.name) return false;
+    if (!relation.constraint) return true;
+    // Only a versioned Provides (`foo (= 1.2)`) meets a versioned dependency
+    return provided.constraint?.relation === "=" && satisfies(provided.constraint.version, relation.constraint);
+  });
+}
+
+/** Either package Breaks or Conflicts with the other. */
+function clashes(a: DependencyInfo, b: DependencyInfo): boolean {
+  const against = (from: DependencyInfo, to: DependencyInfo) =>
+    [from.breaks, from.conflicts].some((field) =>
+      (parseRelations(field ?? "") ?? []).some((g) => g.alternatives.some((r) => matchesPackage(r, to)))
+    );
+  return against(a, b) || against(b, a);
+}
+
+/** A name on the external list, where `*` matches any run of characters. */
+export function isExternal(name: string, external: string[]): boolean {
+  return external.some((pattern) => {
+    const literals = pattern.split("*").map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    return new RegExp(`^${literals.join(".*")}$`).test(name);
+  });
+}
+
+/**
+ * The Depends and Pre-Depends groups of `pkg` that no package in
+ * `available` (the target distribution, `pkg` included) can meet, as
+ * "Field: group" strings.  A candidate must share `pkg`'s architecture or
+ * be "all" (any architecture for an "all" package), and must not Break or
+ * Conflict with `pkg`.  Groups naming an `external` package are assumed met.
+ */
+export function unsatisfiedDependencies(
+  pkg: DependencyInfo,
+  available: DependencyInfo[],
+  external: string[]
+): string[] {
+  const candidates = available.filter(
+    (p) =>
+      (pkg.architecture === "all" || p.architecture === "all" || p.architecture === pkg.architecture) &&
+      (p === pkg || !clashes(p, pkg))
+  );
+
+  const unmet: string[] = [];
+  for (const [label, field] of [["Pre-Depends", pkg.preDepends], ["Depends", pkg.depends]] as const) {
+    if (!field) continue;
+    const groups = parseRelations(field);
+    if (!groups) {
+      unmet.push(`${label}: could not parse "${field}"`);
+      continue;
+    }
+    for (const group of groups) {
+      const applicable = group.alternatives.filter((r) => appliesTo(r, pkg.architecture));
+      const met = applicable.length === 0 || applicable.some(
+        (r) => isExternal(r.name, external) || candidates.some((p) => provides(p, r))
+      );
+      if (!met) unmet.push(`${label}: ${group.text}`);
+    }
+  }
+  return unmet;
+}
@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import { FastifyReply, FastifyRequest } from "fastify";
+
+/**
+ * Conditional and range requests for the apt routes.
+ *
+ * Every response carries a strong ETag (the sha256 of the body, which proxies
+ * such as apt-cacher-ng revalidate with) and, where known, a Last-Modified
+ * date (which apt itself sends back as If-Modified-Since).  A matching
+ * If-None-Match, or failing that If-Modified-Since, gets a 304.  A single
+ * byte range is honoured (apt resumes partial downloads with Range and
+ * If-Range); multiple ranges are answered with the whole body.
+ */
+export interface CacheHeaders {
+  etag: string;               // Hex sha256 (or other digest) of the body
+  lastModified?: Date;
+  cacheControl?: string;
+}
+
+type ByteRange = { start: number; end: number };
+
+/** Send an in-memory body with validators, honouring conditional and range headers. */
+export function sendCached(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  headers: CacheHeaders,
+  body: string | Buffer
+) {
+  const data = typeof body === "string" ? Buffer.from(body) : body;
+  const range = prepare(request, reply, headers, data.length);
+  if (range === "done") return reply;
+  return reply.send(range ? data.subarray(range.start, range.end + 1) : data);
+}
+
+/**
+ * Send a file from disk with validators, honouring conditional and range
+ * headers.  HEAD requests get the headers without the file being read, so
+ * the route must be registered for HEAD itself rather than relying on
+ * Fastify's generated HEAD route (which would drain the stream).
+ */
+export function sendCachedFile(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  headers: CacheHeaders,
+  filePath: string
+) {
+  const size = fs.statSync(filePath).size;
+  const range = prepare(request, reply, headers, size);
+  if (range === "done") return reply;
+  if (request.method === "HEAD") return reply.send();
+  return reply.send(fs.createReadStream(filePath, range ?? undefined));
+}
+
+/**
+ * Set validator, length and range headers.  Returns "done" when a 304 or
+ * 416 has been sent, the byte range to send for a 206, or null for a 200.
+ */
+function prepare(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  headers: CacheHeaders,
+  size: number
+): ByteRange | null | "done" {
+  const etag = `"${headers.etag}"`;
+  reply.header("ETag", etag);
+  if (headers.lastModified) {
+    reply.header("Last-Modified", headers.lastModified.toUTCString());
+  }
+  if (headers.cacheControl) {
+    reply.header("Cache-Control", headers.cacheControl);
+  }
+  reply.header("Accept-Ranges", "bytes");
+
+  if (isNotModified(request, etag, headers.lastModified)) {
+    reply.code(304).send();
+    return "done";
+  }
+
+  const range = rangeApplies(request, etag, headers.lastModified)
+    ? parseRange(request.headers.range as string, size)
+    : null;
+  if (range === "unsatisfiable") {
+    reply
+      .code(416)
+      .header("Content-Range", `bytes */${size}`)
+      .type("application/json; charset=utf-8")
+      .send({ error: "Range not satisfiable" });
+    return "done";
+  }
+  if (range) {
+    reply
+      .code(206)
+      .header("Content-Range", `bytes ${range.start}-${range.end}/${size}`)
+      .header("Content-Length", range.end - range.start + 1);
+    return range;
+  }
+  reply.header("Content-Length", size);
+  return null;
+}
+
+// If-None-Match takes precedence; If-Modified-Since is only consulted
+// without it.  HTTP dates have one-second resolution.
+function isNotModified(request: FastifyRequest, etag: string, lastModified?: Date): boolean {
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = request.headers["if-modified-since"];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+// A Range with If-Range only applies while the validator still matches
+function rangeApplies(request: FastifyRequest, etag: string, lastModified?: Date): boolean {
+  if (!request.headers.range) return false;
+  const ifRange = request.headers["if-range"] as string | undefined;
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return ifRange === etag;
+  }
+  return (
+    lastModified !== undefined &&
+    Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000
+  );
+}
+
+/**
+ * A single `bytes=` range, clamped to the body.  Malformed and multi-range
+ * headers return null so the whole body is sent.
+ */
+function parseRange(header: string, size: number): ByteRange | null | "unsatisfiable" {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  if (match[1] === "") {
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  if (start >= size) return "unsatisfiable";
+  if (end < start) return null;
+  return { start, end };
+}
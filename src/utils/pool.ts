@@ -0,0 +1,55 @@
+import { PackageMetadata } from "../services/storage.js";
+
+/**
+ * Debian-standard pool layout: `pool/<component>/<prefix>/<source>/`, where
+ * prefix is the first letter of the source name ("lib" names use four), and
+ * binary packages are named `<name>_<version-without-epoch>_<arch>.deb`
+ * (`.ddeb` for debug symbol packages, `.udeb` for installer packages).
+ *
+ * Paths carry no distribution, so a package in several distributions has
+ * one pool URL; uploads that would put different bytes at the same path are
+ * refused.
+ */
+
+type PoolEntry = Pick<
+  PackageMetadata,
+  "name" | "version" | "architecture" | "component" | "source" | "sha256" | "sourceFiles" |
+  "packageType"
+>;
+
+/** The source package name: the control Source field minus any "(version)". */
+export function sourceName(pkg: Pick<PackageMetadata, "name" | "source">): string {
+  return pkg.source?.split(" ")[0] || pkg.name;
+}
+
+export function poolDirectory(component: string, source: string): string {
+  const prefix = source.startsWith("lib") && source.length > 3
+    ? source.substring(0, 4)
+    : source.substring(0, 1);
+  return `pool/${component}/${prefix}/${source}`;
+}
+
+/** The .deb file name, without the epoch (colons are not filename-safe). */
+export function poolFilename(
+  pkg: Pick<PackageMetadata, "name" | "version" | "architecture" | "packageType">
+): string {
+  const version = pkg.version.replace(/^\d+:/, "");
+  return `${pkg.name}_${version}_${pkg.architecture}.${pkg.packageType ?? "deb"}`;
+}
+
+/**
+ * Every file a package puts in the pool, as paths relative to the repo base
+ * URL: the .deb of a binary package, or the .dsc and the files it lists.
+ */
+export function poolFiles(pkg: PoolEntry): { path: string; name: string; sha256: string }[] {
+  const dir = poolDirectory(pkg.component, sourceName(pkg));
+  if (pkg.architecture === "source") {
+    return (pkg.sourceFiles ?? []).map((f) => ({
+      path: `${dir}/${f.name}`,
+      name: f.name,
+      sha256: f.sha256,
+    }));
+  }
+  const name = poolFilename(pkg);
+  return [{ path: `${dir}/${name}`, name, sha256: pkg.sha256 }];
+}
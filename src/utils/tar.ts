@@ -0,0 +1,155 @@
+/** One entry of a tar archive; `data` is a view into the archive buffer. */
+export interface TarEntry {
+  name: string;
+  type: "file" | "dir" | "symlink" | "other";
+  data: Buffer;
+}
+
+interface TarHeader {
+  name: string;               // Before normalising; a pending long name applied
+  typeflag: string;
+  size: number;
+}
+
+function readHeader(header: Buffer, longName: string | null): TarHeader {
+  const readString = (start: number, length: number) => {
+    const field = header.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? length : end).toString();
+  };
+
+  const size = parseInt(readString(124, 12).trim(), 8) || 0;
+  const typeflag = String.fromCharCode(header[156] || 0x30);
+  let name = longName ?? readString(0, 100);
+  // POSIX ustar only; old GNU headers keep timestamps in this field
+  const prefix = readString(345, 155);
+  if (!longName && prefix && readString(257, 6) === "ustar") {
+    name = `${prefix}/${name}`;
+  }
+  return { name, typeflag, size };
+}
+
+// Headers whose body describes the next entry rather than being one
+function isExtension(typeflag: string): boolean {
+  return ["L", "x", "g", "K"].includes(typeflag);
+}
+
+function entryType(header: TarHeader): TarEntry["type"] {
+  if (header.typeflag === "5" || header.name.endsWith("/")) return "dir";
+  if (header.typeflag === "0" || header.typeflag === "7") return "file";
+  if (header.typeflag === "2") return "symlink";
+  return "other";
+}
+
+/** The long name a GNU "L" or pax "x" header sets for the next entry. */
+function extensionName(header: TarHeader, body: Buffer): string | null {
+  if (header.typeflag === "L") {
+    return body.toString().replace(/\0+$/, "");
+  }
+  if (header.typeflag === "x") {
+    // pax extended header: "<len> path=<value>\n" records
+    const match = body.toString().match(/^\d+ path=(.*)$/m);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function normalise(name: string): string {
+  return name.replace(/^\.?\/+/, "");
+}
+
+/**
+ * Walk an uncompressed tar archive.  Names are normalised to Contents-file
+ * form: no leading "./" or "/".  Handles ustar prefixes, GNU long names and
+ * pax path records, all of which dpkg-deb produces for long paths.
+ */
+export function readTarEntries(tarData: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= tarData.length) {
+    const block = tarData.subarray(offset, offset + 512);
+    if (block.every((b) => b === 0)) break;
+
+    const header = readHeader(block, longName);
+    const body = tarData.subarray(offset + 512, offset + 512 + header.size);
+    offset += 512 + Math.ceil(header.size / 512) * 512;
+
+    if (isExtension(header.typeflag)) {
+      longName = extensionName(header, body) ?? longName;
+      continue;
+    }
+    longName = null;
+
+    const name = normalise(header.name);
+    if (name) entries.push({ name, type: entryType(header), data: body });
+  }
+
+  return entries;
+}
+
+/**
+ * Walk a tar stream, such as `dpkg-deb --fsys-tarfile` output, to the first
+ * entry `match` accepts.  Only entries `wanted` by name and type have their
+ * body read into memory, one at a time; the archive as a whole never is.
+ * Returns null if no entry matches.
+ */
+export async function findTarEntry(
+  chunks: AsyncIterable<Buffer>,
+  wanted: (name: string, type: TarEntry["type"]) => boolean,
+  match: (entry: TarEntry) => boolean
+): Promise<TarEntry | null> {
+  let pending: Buffer = Buffer.alloc(0);
+  let longName: string | null = null;
+  let header: TarHeader | null = null;
+  let body: Buffer[] | null = null;       // null while skipping the body
+  let remaining = 0;                      // Body and padding still to come
+
+  for await (const chunk of chunks) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+    for (;;) {
+      if (!header) {
+        if (pending.length < 512) break;
+        const block = pending.subarray(0, 512);
+        if (block.every((b) => b === 0)) return null;
+        header = readHeader(block, longName);
+        pending = pending.subarray(512);
+        remaining = Math.ceil(header.size / 512) * 512;
+        body = isExtension(header.typeflag) ||
+          wanted(normalise(header.name), entryType(header))
+          ? []
+          : null;
+      }
+
+      if (remaining > 0) {
+        const take = Math.min(remaining, pending.length);
+        body?.push(pending.subarray(0, take));
+        pending = pending.subarray(take);
+        remaining -= take;
+        if (remaining > 0) break;
+      }
+
+      const done = header;
+      const kept = body !== null;
+      const data = body ? Buffer.concat(body).subarray(0, done.size) : Buffer.alloc(0);
+      header = null;
+      body = null;
+
+      if (isExtension(done.typeflag)) {
+        longName = extensionName(done, data) ?? longName;
+        continue;
+      }
+      longName = null;
+
+      const name = normalise(done.name);
+      const entry: TarEntry = { name, type: entryType(done), data };
+      if (name && kept && match(entry)) {
+        return entry;
+      }
+    }
+  }
+
+  return null;
+}
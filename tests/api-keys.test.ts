@@ -47,6 +47,19 @@ describe("ApiKeyService", () => {
     assert.strictEqual(validated.id, "admin");
   });
 
+  it("should validate a key against its id", async () => {
+    const { id, key } = await service.createKey("read");
+    const other = await service.createKey("read");
+
+    assert.strictEqual((await service.validateKeyWithId(id, key))?.id, id);
+    assert.strictEqual(await service.validateKeyWithId(other.id, key), null);
+    assert.strictEqual(await service.validateKeyWithId("unknown", key), null);
+
+    const withAdmin = new ApiKeyService(keysPath, "admin-secret");
+    assert.strictEqual((await withAdmin.validateKeyWithId("admin", "admin-secret"))?.role, "admin");
+    assert.strictEqual(await withAdmin.validateKeyWithId("admin", key), null);
+  });
+
   it("should list keys without hash", async () => {
     await service.createKey("read", "Key 1");
     await service.createKey("write", "Key 2");
@@ -127,6 +140,29 @@ describe("ApiKeyService", () => {
     assert.ok(validated.lastUsed);
   });
 
+  it("should not rewrite the key file on every validation", async () => {
+    const { id, key } = await service.createKey("read");
+    assert.ok(await service.validateKeyWithId(id, key));
+    const saved = fs.readFileSync(keysPath, "utf-8");
+
+    const validated = await service.validateKeyWithId(id, key);
+    assert.ok(validated?.lastUsed);
+    assert.strictEqual(fs.readFileSync(keysPath, "utf-8"), saved);
+
+    service.flush();
+    const persisted = JSON.parse(fs.readFileSync(keysPath, "utf-8"));
+    assert.strictEqual(persisted.keys[0].lastUsed, validated.lastUsed);
+  });
+
+  it("should only remember verified credentials for keys that still exist", async () => {
+    const { id, key } = await service.createKey("read");
+    assert.ok(await service.validateKeyWithId(id, key));
+    assert.strictEqual(await service.validateKeyWithId(id, "wrong"), null);
+
+    service.deleteKey(id);
+    assert.strictEqual(await service.validateKeyWithId(id, key), null);
+  });
+
   it("should persist keys to file", async () => {
     const { id, key } = await service.createKey("read", "Persistent key");
 
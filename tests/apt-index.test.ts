@@ -0,0 +1,339 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { StorageService, PackageLocation } from "../src/services/storage.js";
+import { AptIndexService } from "../src/services/apt-index.js";
+import { Config, defaultConfig } from "../src/config.js";
+
+describe("AptIndexService", () => {
+  let storage: StorageService;
+  let aptIndex: AptIndexService;
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-aptindex-"));
+    storage = new StorageService(testDir);
+    const config: Config = { ...defaultConfig, dataRoot: testDir };
+    aptIndex = new AptIndexService(storage, config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const testLoc: PackageLocation = {
+    repo: "default",
+    distribution: "stable",
+    component: "main",
+    architecture: "amd64",
+    name: "test-pkg",
+    version: "1.0.0",
+  };
+
+  const testBuffer = Buffer.from("test content");
+
+  it("should emit the MD5 computed at upload without reading the .deb", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    fs.rmSync(storage.getPackageFile(testLoc)!);
+
+    const packages = aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages");
+    assert.ok(packages);
+    const md5 = crypto.createHash("md5").update(testBuffer).digest("hex");
+    assert.ok(packages.data.toString().includes(`MD5sum: ${md5}`));
+  });
+
+  it("should cache indexes until the distribution changes", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+
+    const first = aptIndex.getDistribution("default", "stable");
+    assert.strictEqual(aptIndex.getDistribution("default", "stable"), first);
+
+    // Changes to another distribution don't invalidate this one
+    await storage.storePackage({ ...testLoc, distribution: "testing" }, testBuffer, "test-key", { description: "test" });
+    assert.strictEqual(aptIndex.getDistribution("default", "stable"), first);
+
+    await storage.storePackage({ ...testLoc, version: "1.0.1" }, testBuffer, "test-key", { description: "test" });
+    const second = aptIndex.getDistribution("default", "stable");
+    assert.notStrictEqual(second, first);
+    assert.ok(second.files.get("main/binary-amd64/Packages")!.data.toString().includes("Version: 1.0.1"));
+
+    storage.deletePackage({ ...testLoc, version: "1.0.1" });
+    const third = aptIndex.getDistribution("default", "stable");
+    assert.notStrictEqual(third, second);
+    assert.ok(!third.files.get("main/binary-amd64/Packages")!.data.toString().includes("Version: 1.0.1"));
+  });
+
+  it("should keep the index of a distribution without history until its first change", async () => {
+    const empty = aptIndex.getDistribution("default", "stable");
+    assert.strictEqual(aptIndex.getDistribution("default", "stable"), empty);
+
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    assert.notStrictEqual(aptIndex.getDistribution("default", "stable"), empty);
+  });
+
+  it("should date the Release by the last change, not the request", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    const lastModified = storage.getLastModified("default", "stable");
+    assert.ok(lastModified);
+
+    const { release } = aptIndex.getDistribution("default", "stable");
+    assert.ok(release.includes(`Date: ${lastModified.toUTCString()}`));
+
+    // A restarted service produces the identical Release
+    const restarted = new AptIndexService(new StorageService(testDir), { ...defaultConfig, dataRoot: testDir });
+    assert.strictEqual(restarted.getDistribution("default", "stable").release, release);
+  });
+
+  it("should split long descriptions into Translation-en when enabled", async () => {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: { default: { translations: true } },
+    };
+    const splitIndex = new AptIndexService(storage, config);
+    await storage.storePackage(testLoc, testBuffer, "test-key", {
+      description: "short summary\n A longer explanation\n .\n Second paragraph",
+    });
+
+    const packages = splitIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.ok(packages.includes("Description: short summary\nDescription-md5: "));
+    assert.ok(!packages.includes("A longer explanation"));
+
+    const translation = splitIndex.getIndexFile("default", "stable", "main/i18n/Translation-en");
+    assert.ok(translation);
+    const md5 = packages.match(/^Description-md5: (\w+)$/m)![1];
+    assert.strictEqual(
+      translation.data.toString(),
+      "Package: test-pkg\n" +
+        `Description-md5: ${md5}\n` +
+        "Description-en: short summary\n A longer explanation\n .\n Second paragraph\n\n"
+    );
+
+    const { release } = splitIndex.getDistribution("default", "stable");
+    assert.ok(release.includes("main/i18n/Translation-en.gz"));
+
+    // Full descriptions stay inline when the mode is off
+    const inline = aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.ok(inline.includes("A longer explanation"));
+    assert.strictEqual(aptIndex.getIndexFile("default", "stable", "main/i18n/Translation-en"), null);
+  });
+
+  it("should publish source packages only in Sources", async () => {
+    const sourceLoc: PackageLocation = { ...testLoc, architecture: "source", version: "1.0-1" };
+    await storage.storeSourcePackage(
+      sourceLoc,
+      [
+        { name: "test-pkg_1.0-1.dsc", data: Buffer.from("dsc") },
+        { name: "test-pkg_1.0.orig.tar.gz", data: Buffer.from("orig") },
+      ],
+      "test-key",
+      { binary: "test-pkg", format: "3.0 (quilt)", dscArchitecture: "any" }
+    );
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+
+    const sources = aptIndex.getIndexFile("default", "stable", "main/source/Sources")!.data.toString();
+    const origMd5 = crypto.createHash("md5").update("orig").digest("hex");
+    assert.ok(sources.startsWith("Package: test-pkg\nBinary: test-pkg\nVersion: 1.0-1\n"));
+    assert.ok(sources.includes(`Files:\n ${crypto.createHash("md5").update("dsc").digest("hex")} 3 test-pkg_1.0-1.dsc\n ${origMd5} 4 test-pkg_1.0.orig.tar.gz\n`));
+    assert.ok(sources.includes("Directory: pool/main/t/test-pkg\n"));
+
+    const { release } = aptIndex.getDistribution("default", "stable");
+    assert.ok(release.includes("main/source/Sources.gz"));
+    assert.match(release, /^Architectures: amd64$/m);
+
+    const packages = aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.ok(!packages.includes("1.0-1"));
+  });
+
+  it("should apply per-repo and per-distribution Release settings", async () => {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: {
+        default: {
+          release: { origin: "Example", label: "Example Apps", version: "2.1" },
+          distributions: {
+            stable: { release: { label: "Example Backports", notAutomatic: true, butAutomaticUpgrades: true } },
+          },
+        },
+      },
+    };
+    const configured = new AptIndexService(storage, config);
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+
+    const { release } = configured.getDistribution("default", "stable");
+    assert.ok(release.startsWith(
+      "Origin: Example\nLabel: Example Backports\nSuite: stable\nVersion: 2.1\nCodename: pository-default-stable\n"
+    ));
+    assert.match(release, /^NotAutomatic: yes\nButAutomaticUpgrades: yes$/m);
+    assert.doesNotMatch(release, /^Valid-Until:/m);
+
+    // Every index is listed under SHA512 as well
+    const packages = configured.getIndexFile("default", "stable", "main/binary-amd64/Packages")!;
+    const sha512 = crypto.createHash("sha512").update(packages.data).digest("hex");
+    assert.ok(release.split("SHA512:\n")[1].includes(` ${sha512} ${packages.data.length} main/binary-amd64/Packages\n`));
+    assert.ok(configured.getByHashFile("default", "stable", "main/binary-amd64", "SHA512", sha512));
+
+    const componentRelease = configured.getIndexFile("default", "stable", "main/binary-amd64/Release");
+    assert.strictEqual(
+      componentRelease?.data.toString(),
+      "Archive: stable\nOrigin: Example\nLabel: Example Backports\nVersion: 2.1\n" +
+        "Acquire-By-Hash: yes\nComponent: main\nArchitecture: amd64\n"
+    );
+    assert.ok(release.includes(" main/binary-amd64/Release\n"));
+  });
+
+  it("should date a Release with Valid-Until when it is built", async () => {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: { default: { release: { validForDays: 7 } } },
+    };
+    const configured = new AptIndexService(storage, config);
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+
+    const index = configured.getDistribution("default", "stable");
+    const date = new Date(index.release.match(/^Date: (.+)$/m)![1]);
+    const validUntil = new Date(index.release.match(/^Valid-Until: (.+)$/m)![1]);
+    assert.strictEqual(validUntil.getTime() - date.getTime(), 7 * 24 * 3600 * 1000);
+    assert.ok(Math.abs(date.getTime() - Date.now()) < 5000);
+
+    // Cached until halfway through the validity, then rebuilt
+    assert.strictEqual(configured.getDistribution("default", "stable"), index);
+    index.refreshAt = new Date(Date.now() - 1);
+    assert.notStrictEqual(configured.getDistribution("default", "stable"), index);
+  });
+
+  it("should publish every declared architecture, even when empty", async () => {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: {
+        default: {
+          distributions: {
+            stable: { architectures: ["arm64", "armhf", "i386"], components: ["main", "contrib"] },
+          },
+        },
+      },
+    };
+    const declared = new AptIndexService(storage, config);
+    await storage.storePackage({ ...testLoc, architecture: "all", name: "common" }, testBuffer, "test-key", {});
+    await storage.storePackage({ ...testLoc, architecture: "arm64" }, testBuffer, "test-key", {});
+
+    const { release } = declared.getDistribution("default", "stable");
+    assert.match(release, /^Architectures: arm64 armhf i386$/m);
+    assert.match(release, /^Components: main contrib$/m);
+    assert.ok(!release.includes("binary-amd64"));
+
+    const packages = (arch: string, component = "main") =>
+      declared.getIndexFile("default", "stable", `${component}/binary-${arch}/Packages`)?.data.toString();
+    assert.match(packages("arm64")!, /^Package: test-pkg$/m);
+    assert.match(packages("arm64")!, /^Package: common$/m);
+    assert.match(packages("armhf")!, /^Package: common$/m);
+    assert.doesNotMatch(packages("armhf")!, /^Package: test-pkg$/m);
+    assert.strictEqual(packages("i386", "contrib"), "");
+    assert.ok(release.includes(" contrib/binary-i386/Packages.gz\n"));
+  });
+
+  it("should derive architectures from packages when none are declared", async () => {
+    await storage.storePackage({ ...testLoc, architecture: "arm64" }, testBuffer, "test-key", {});
+    assert.match(aptIndex.getDistribution("default", "stable").release, /^Architectures: arm64$/m);
+
+    // A distribution of only Architecture:all packages still gets an arch
+    await storage.storePackage(
+      { ...testLoc, distribution: "other", architecture: "all", name: "common" },
+      testBuffer,
+      "test-key",
+      {}
+    );
+    assert.match(aptIndex.getDistribution("default", "other").release, /^Architectures: amd64$/m);
+  });
+
+  it("should build a flat repository from one component", async () => {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: { default: { flat: { distribution: "stable" } } },
+    };
+    const flat = new AptIndexService(storage, config);
+    assert.strictEqual(aptIndex.getFlat("default"), null);
+
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    await storage.storePackage({ ...testLoc, architecture: "arm64" }, testBuffer, "test-key", {});
+    await storage.storePackage({ ...testLoc, component: "contrib", name: "extra" }, testBuffer, "test-key", {});
+    await storage.storePackage({ ...testLoc, distribution: "testing", name: "unstable-only" }, testBuffer, "test-key", {});
+
+    const index = flat.getFlat("default")!;
+    const packages = index.files.get("Packages")!.data.toString();
+    assert.match(packages, /^Architecture: amd64$/m);
+    assert.match(packages, /^Architecture: arm64$/m);
+    assert.match(packages, /^Filename: pool\/main\/t\/test-pkg\/test-pkg_1\.0\.0_amd64\.deb$/m);
+    assert.doesNotMatch(packages, /^Package: (extra|unstable-only)$/m);
+
+    assert.doesNotMatch(index.release, /^(Suite|Components|Acquire-By-Hash):/m);
+    assert.ok(index.release.includes(` ${index.files.get("Packages.gz")!.sha256} `));
+    assert.strictEqual(flat.getFlat("default"), index);
+  });
+
+  it("should emit Phased-Update-Percentage while a version is phasing", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    const packagesFile = () =>
+      aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.doesNotMatch(packagesFile(), /Phased-Update-Percentage/);
+
+    storage.setPhasing(testLoc, { percentage: 10, updatedAt: new Date().toISOString() });
+    assert.match(packagesFile(), /^Phased-Update-Percentage: 10$/m);
+
+    storage.setPhasing(testLoc, undefined);
+    assert.doesNotMatch(packagesFile(), /Phased-Update-Percentage/);
+    assert.strictEqual(storage.getPackageMetadata(testLoc)!.phasing, undefined);
+  });
+
+  it("should publish debug symbol packages in <component>/debug", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    await storage.storePackage(
+      { ...testLoc, name: "test-pkg-dbgsym" },
+      testBuffer,
+      "test-key",
+      { description: "debug symbols for test-pkg", packageType: "ddeb" }
+    );
+
+    const { release } = aptIndex.getDistribution("default", "stable");
+    assert.match(release, /^Components: main main\/debug$/m);
+    assert.ok(release.includes(" main/debug/binary-amd64/Packages\n"));
+    assert.ok(release.includes(" main/debug/binary-amd64/Release\n"));
+
+    const packages = aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.doesNotMatch(packages, /^Package: test-pkg-dbgsym$/m);
+    const debug = aptIndex.getIndexFile("default", "stable", "main/debug/binary-amd64/Packages")!.data.toString();
+    assert.match(debug, /^Package: test-pkg-dbgsym$/m);
+    assert.match(debug, /^Filename: pool\/main\/t\/test-pkg-dbgsym\/test-pkg-dbgsym_1\.0\.0_amd64\.ddeb$/m);
+  });
+
+  it("should publish installer packages in <component>/debian-installer", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key", { description: "test" });
+    await storage.storePackage(
+      { ...testLoc, name: "test-pkg-udeb" },
+      testBuffer,
+      "test-key",
+      { description: "installer component", packageType: "udeb" }
+    );
+
+    const { release } = aptIndex.getDistribution("default", "stable");
+    assert.match(release, /^Components: main$/m);
+    assert.ok(release.includes(" main/debian-installer/binary-amd64/Packages\n"));
+    assert.ok(release.includes(" main/debian-installer/binary-amd64/Packages.gz\n"));
+
+    const packages = aptIndex.getIndexFile("default", "stable", "main/binary-amd64/Packages")!.data.toString();
+    assert.doesNotMatch(packages, /^Package: test-pkg-udeb$/m);
+    const installer = aptIndex.getIndexFile(
+      "default", "stable", "main/debian-installer/binary-amd64/Packages"
+    )!.data.toString();
+    assert.match(installer, /^Package: test-pkg-udeb$/m);
+    assert.doesNotMatch(installer, /^Package: test-pkg$/m);
+    assert.match(installer, /^Filename: pool\/main\/t\/test-pkg-udeb\/test-pkg-udeb_1\.0\.0_amd64\.udeb$/m);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { debugFileBuildId, elfBuildId, isBuildId } from "../src/utils/build-id.js";
+import { buildElf } from "./fixtures.js";
+
+describe("build-ids", () => {
+  const buildId = "0123456789abcdef0123456789abcdef01234567";
+
+  it("should read the GNU build-id note of an ELF file", () => {
+    assert.strictEqual(elfBuildId(buildElf(buildId)), buildId);
+  });
+
+  it("should ignore files that are not ELF or are truncated", () => {
+    assert.strictEqual(elfBuildId(Buffer.from("#!/bin/sh\necho hello\n".repeat(4))), null);
+    assert.strictEqual(elfBuildId(buildElf(buildId).subarray(0, 80)), null);
+  });
+
+  it("should take a ddeb's build-ids from its .build-id paths", () => {
+    assert.strictEqual(
+      debugFileBuildId(`usr/lib/debug/.build-id/01/${buildId.substring(2)}.debug`),
+      buildId
+    );
+    assert.strictEqual(debugFileBuildId(`usr/lib/debug/.build-id/01/${buildId.substring(2)}`), null);
+    assert.strictEqual(debugFileBuildId("usr/bin/hello"), null);
+  });
+
+  it("should accept only even-length lowercase hex build-ids", () => {
+    assert.ok(isBuildId(buildId));
+    assert.ok(!isBuildId(buildId.toUpperCase()));
+    assert.ok(!isBuildId("abc"));
+    assert.ok(!isBuildId("../etc/passwd"));
+  });
+});
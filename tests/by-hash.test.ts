@@ -0,0 +1,92 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { ByHashStore } from "../src/services/by-hash.js";
+
+describe("ByHashStore", () => {
+  let store: ByHashStore;
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-byhash-"));
+    store = new ByHashStore(testDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function indexFile(content: string) {
+    const data = Buffer.from(content);
+    return { data, hash: crypto.createHash("sha256").update(data).digest("hex") };
+  }
+
+  const hour = 3600 * 1000;
+
+  it("should serve published files by hash", () => {
+    const file = indexFile("Package: a\n");
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [file], hour);
+
+    const filePath = store.getFile("default", "stable", "main/binary-amd64", "SHA256", file.hash);
+    assert.ok(filePath);
+    assert.strictEqual(fs.readFileSync(filePath, "utf-8"), "Package: a\n");
+    assert.strictEqual(store.getFile("default", "stable", "main/binary-arm64", "SHA256", file.hash), null);
+  });
+
+  it("should keep superseded files within the grace period", () => {
+    const oldFile = indexFile("Package: a\n");
+    const newFile = indexFile("Package: a\n\nPackage: b\n");
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [oldFile], hour);
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [newFile], hour);
+
+    assert.ok(store.getFile("default", "stable", "main/binary-amd64", "SHA256", oldFile.hash));
+    assert.ok(store.getFile("default", "stable", "main/binary-amd64", "SHA256", newFile.hash));
+  });
+
+  it("should prune superseded files after the grace period", () => {
+    const oldFile = indexFile("Package: a\n");
+    const newFile = indexFile("Package: a\n\nPackage: b\n");
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [oldFile], hour);
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [newFile], hour);
+
+    // Pretend the old file was superseded two hours ago
+    const oldPath = store.getFile("default", "stable", "main/binary-amd64", "SHA256", oldFile.hash)!;
+    const twoHoursAgo = new Date(Date.now() - 2 * hour);
+    fs.utimesSync(oldPath, twoHoursAgo, twoHoursAgo);
+
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [newFile], hour);
+    assert.strictEqual(store.getFile("default", "stable", "main/binary-amd64", "SHA256", oldFile.hash), null);
+    assert.ok(store.getFile("default", "stable", "main/binary-amd64", "SHA256", newFile.hash));
+  });
+
+  it("should start the grace period when a file is superseded", () => {
+    const oldFile = indexFile("Package: a\n");
+    const newFile = indexFile("Package: a\n\nPackage: b\n");
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [oldFile], hour);
+
+    // Current for a long time before being superseded
+    const oldPath = store.getFile("default", "stable", "main/binary-amd64", "SHA256", oldFile.hash)!;
+    const twoDaysAgo = new Date(Date.now() - 48 * hour);
+    fs.utimesSync(oldPath, twoDaysAgo, twoDaysAgo);
+
+    store.publish("default", "stable", "main/binary-amd64", "SHA256", [newFile], hour);
+    assert.ok(store.getFile("default", "stable", "main/binary-amd64", "SHA256", oldFile.hash));
+  });
+
+  it("should keep each hash algorithm separate", () => {
+    const data = Buffer.from("Package: a\n");
+    const sha512 = crypto.createHash("sha512").update(data).digest("hex");
+    store.publish("default", "stable", "main/binary-amd64", "SHA512", [{ data, hash: sha512 }], hour);
+
+    assert.ok(store.getFile("default", "stable", "main/binary-amd64", "SHA512", sha512));
+    assert.strictEqual(store.getFile("default", "stable", "main/binary-amd64", "SHA256", sha512), null);
+  });
+
+  it("should reject malformed hashes", () => {
+    assert.strictEqual(store.getFile("default", "stable", "main/binary-amd64", "SHA256", "../../index.json"), null);
+    assert.strictEqual(store.getFile("default", "stable", "main/binary-amd64", "SHA512", "a".repeat(64)), null);
+  });
+});
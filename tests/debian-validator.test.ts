@@ -6,7 +6,10 @@ import {
   isValidPackageName,
   isValidVersion,
   isValidArchitecture,
+  listTarFiles,
+  validateSourcePackage,
 } from "../src/services/debian-validator.js";
+import { buildDeb, buildTar, buildDsc } from "./fixtures.js";
 
 describe("Debian Validator", () => {
   describe("sanitizePath", () => {
@@ -122,5 +125,90 @@ describe("Debian Validator", () => {
       assert.strictEqual(result.valid, false);
       assert.ok(result.error?.includes("debian-binary"));
     });
+
+    it("should extract control data and the installed file list", async () => {
+      const deb = buildDeb({
+        name: "hello",
+        version: "1.0-1",
+        architecture: "amd64",
+        files: [
+          { name: "./usr/", type: "dir" },
+          { name: "./usr/bin/", type: "dir" },
+          { name: "./usr/bin/hello", content: "#!/bin/sh\n" },
+          { name: "./usr/bin/hi", type: "symlink", linkTarget: "hello" },
+        ],
+      });
+
+      const result = await validateDebianPackage(deb);
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.control?.Package, "hello");
+      assert.deepStrictEqual(result.files, ["usr/bin/hello", "usr/bin/hi"]);
+    });
+  });
+
+  describe("listTarFiles", () => {
+    it("should resolve GNU long names", () => {
+      const longPath = "./usr/share/doc/" + "x".repeat(120) + "/README";
+      const tar = buildTar([
+        { name: "././@LongLink", content: longPath + "\0", type: "longname" },
+        { name: longPath.slice(0, 99), content: "readme" },
+      ]);
+      assert.deepStrictEqual(listTarFiles(tar), [longPath.slice(2)]);
+    });
+  });
+
+  describe("validateSourcePackage", () => {
+    const orig = { name: "hello_1.0.orig.tar.gz", data: Buffer.from("upstream") };
+    const debian = { name: "hello_1.0-1.debian.tar.xz", data: Buffer.from("packaging") };
+    const dsc = {
+      name: "hello_1.0-1.dsc",
+      data: buildDsc({ name: "hello", version: "1.0-1", files: [orig, debian] }),
+    };
+
+    it("should accept a .dsc whose files all match", () => {
+      const result = validateSourcePackage(dsc, [debian, orig]);
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.control?.Source, "hello");
+      assert.deepStrictEqual(
+        result.files?.map((f) => f.name),
+        ["hello_1.0-1.dsc", "hello_1.0.orig.tar.gz", "hello_1.0-1.debian.tar.xz"]
+      );
+    });
+
+    it("should accept a clearsigned .dsc", () => {
+      const signed = {
+        name: dsc.name,
+        data: Buffer.from(
+          "-----BEGIN PGP SIGNED MESSAGE-----\nHash: SHA256\n\n" +
+          dsc.data.toString() +
+          "-----BEGIN PGP SIGNATURE-----\n\nabc\n-----END PGP SIGNATURE-----\n"
+        ),
+      };
+      const result = validateSourcePackage(signed, [orig, debian]);
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.control?.Version, "1.0-1");
+    });
+
+    it("should reject a checksum mismatch", () => {
+      const tampered = { ...orig, data: Buffer.from("upstreaM") };
+      const result = validateSourcePackage(dsc, [tampered, debian]);
+      assert.strictEqual(result.valid, false);
+      assert.match(result.error!, /Checksum mismatch for hello_1.0.orig.tar.gz/);
+    });
+
+    it("should reject missing and unlisted files", () => {
+      assert.match(validateSourcePackage(dsc, [orig]).error!, /Missing file/);
+      const extra = { name: "notes.txt", data: Buffer.from("x") };
+      assert.match(validateSourcePackage(dsc, [orig, debian, extra]).error!, /not listed/);
+    });
+
+    it("should reject file names that escape the pool", () => {
+      const evil = { name: "../evil", data: Buffer.from("x") };
+      const evilDsc = {
+        name: "hello_1.0-1.dsc",
+        data: buildDsc({ name: "hello", version: "1.0-1", files: [evil] }),
+      };
+      assert.match(validateSourcePackage(evilDsc, [evil]).error!, /unsafe file name/);
+    });
   });
 });
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { compareVersions, parseVersionConstraints, satisfies } from "../src/utils/debian-version.js";
+
+describe("compareVersions", () => {
+  // From dpkg's version comparison tests (lib/dpkg/t/t-version.c) and
+  // `dpkg --compare-versions`: [a, b, sign of a compared to b]
+  const vectors: [string, string, number][] = [
+    ["0:0", "0:0-0", 0],
+    ["0:0", "0:0-00", 0],
+    ["0:0-0", "0:0-00", 0],
+    ["0:0.0", "0:0.0-0", 0],
+    ["0:0.0", "0:0.0-00", 0],
+    ["0", "0:0", 0],
+    ["1.0", "1.0", 0],
+    ["0001.0", "1.0", 0],
+    ["0:0-1", "0:0-2", -1],
+    ["0:0-1", "0:0-1.1", -1],
+    ["0:0-1.1", "0:0-1.2", -1],
+    ["0:0a", "0:0b", -1],
+    ["0:0", "0:1", -1],
+    ["0:0", "0:0.0", -1],
+    ["0:0.0", "0:0.0-1", -1],
+    ["0:1", "1:0", -1],
+    ["0:9", "0:10", -1],
+    ["0:1.9", "0:1.10", -1],
+    ["0:0.9", "0:0.10", -1],
+    ["0:a", "0:b", -1],
+    ["0:a~", "0:a", -1],
+    ["0:a~~", "0:a~", -1],
+    ["0:a~~a", "0:a~", -1],
+    ["0:a~", "0:a~a", -1],
+    ["0:a", "0:a+", -1],
+    ["0:a", "0:a.", -1],
+    ["0:a", "0:aa", -1],
+    ["0:Z", "0:a", -1],
+    ["0:z", "0:+", -1],
+    ["1.0~rc1", "1.0", -1],
+    ["1.0~rc1", "1.0~rc2", -1],
+    ["1.0~rc1", "1.0~rc1+b1", -1],
+    ["1.0", "1.0+b1", -1],
+    ["1.0", "1.0-0.1", -1],
+    ["1.0-1", "1.0-1ubuntu1", -1],
+    ["1.0-1ubuntu1", "1.0-1ubuntu1.1", -1],
+    ["1.2-3", "1.2.3", -1],
+    ["2:1.0", "10:0.1", -1],
+    ["1:1.0", "2.0", 1],
+    ["1.0-1", "1.0-1~bpo1", 1],
+  ];
+
+  it("should match dpkg --compare-versions", () => {
+    for (const [a, b, expected] of vectors) {
+      assert.strictEqual(compareVersions(a, b), expected, `${a} vs ${b}`);
+      assert.strictEqual(compareVersions(b, a), -expected || 0, `${b} vs ${a}`);
+    }
+  });
+
+  it("should sort as apt does: ~ before the empty string, letters before other characters", () => {
+    const versions = ["1.0", "1.0a", "1.0~~", "1.0~", "1.0~~a", "1.0+", "1.0.1"];
+    assert.deepStrictEqual(versions.sort(compareVersions), ["1.0~~", "1.0~~a", "1.0~", "1.0", "1.0a", "1.0+", "1.0.1"]);
+  });
+});
+
+describe("version constraints", () => {
+  it("should parse Depends-style relations, a bare version meaning =", () => {
+    assert.deepStrictEqual(parseVersionConstraints(">=2.1, <<3"), [
+      { relation: ">=", version: "2.1" },
+      { relation: "<<", version: "3" },
+    ]);
+    assert.deepStrictEqual(parseVersionConstraints("1:2.0-1"), [{ relation: "=", version: "1:2.0-1" }]);
+    assert.strictEqual(parseVersionConstraints(">2"), null);
+    assert.strictEqual(parseVersionConstraints(">=2.1,"), null);
+  });
+
+  it("should compare in Debian version order", () => {
+    const [atLeast, below] = parseVersionConstraints(">=2.1,<<3")!;
+    assert.ok(satisfies("2.10", atLeast) && satisfies("2.10", below));
+    assert.ok(!satisfies("2.1~rc1", atLeast));
+    assert.ok(!satisfies("3.0", below) && satisfies("3~beta1", below));
+    assert.ok(satisfies("2.1-0", parseVersionConstraints("=2.1")![0]));
+  });
+});
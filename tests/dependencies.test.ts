@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { DependencyInfo, parseRelations, unsatisfiedDependencies, isExternal } from "../src/utils/dependencies.js";
+
+describe("parseRelations", () => {
+  it("should parse groups, alternatives, versions and architecture lists", () => {
+    const groups = parseRelations("libc6 (>= 2.36), foo:any | bar (<< 2~) [amd64 arm64], baz (>1) <!nocheck>");
+    assert.deepStrictEqual(groups, [
+      { text: "libc6 (>= 2.36)", alternatives: [{ name: "libc6", constraint: { relation: ">=", version: "2.36" } }] },
+      {
+        text: "foo:any | bar (<< 2~) [amd64 arm64]",
+        alternatives: [
+          { name: "foo" },
+          { name: "bar", constraint: { relation: "<<", version: "2~" }, architectures: ["amd64", "arm64"] },
+        ],
+      },
+      // ">" is dpkg's obsolete ">="
+      { text: "baz (>1) <!nocheck>", alternatives: [{ name: "baz", constraint: { relation: ">=", version: "1" } }] },
+    ]);
+    assert.strictEqual(parseRelations("foo (>= )"), null);
+  });
+});
+
+describe("unsatisfiedDependencies", () => {
+  const pkg = (name: string, version: string, fields: Partial<DependencyInfo> = {}): DependencyInfo => ({
+    name,
+    version,
+    architecture: "amd64",
+    ...fields,
+  });
+
+  it("should find real and provided packages in Debian version order", () => {
+    const app = pkg("app", "1.0", { depends: "libcore (>= 2.10), mail-transport-agent, libjson (>= 1.0)" });
+    const available = [
+      pkg("libcore", "2.9"),
+      pkg("libcore", "2.10~rc1"),
+      pkg("postfix", "3.7", { provides: "mail-transport-agent" }),
+      pkg("libjson-ng", "3", { provides: "libjson (= 1.2)", architecture: "all" }),
+    ];
+    assert.deepStrictEqual(unsatisfiedDependencies(app, [...available, app], []), ["Depends: libcore (>= 2.10)"]);
+    assert.deepStrictEqual(unsatisfiedDependencies(app, [...available, pkg("libcore", "2.10"), app], []), []);
+
+    // Only a versioned Provides meets a versioned dependency
+    const unversioned = pkg("libjson-ng", "3", { provides: "libjson" });
+    assert.deepStrictEqual(
+      unsatisfiedDependencies(app, [pkg("libcore", "2.10"), available[2], unversioned, app], []),
+      ["Depends: libjson (>= 1.0)"]
+    );
+  });
+
+  it("should skip external packages, other architectures and clashing candidates", () => {
+    const app = pkg("app", "1.0", {
+      preDepends: "libc6 (>= 2.36)",
+      depends: "python3-yaml, libgpu [arm64], libcore",
+      breaks: "libcore (<< 2)",
+    });
+    const available = [pkg("libcore", "1.5"), pkg("libcore", "3", { architecture: "arm64" }), app];
+    assert.deepStrictEqual(unsatisfiedDependencies(app, available, ["libc6", "python3-*"]), ["Depends: libcore"]);
+
+    const conflicting = pkg("libcore", "3", { conflicts: "app" });
+    assert.deepStrictEqual(unsatisfiedDependencies(app, [conflicting, app], ["libc6", "python3-*"]), ["Depends: libcore"]);
+    assert.deepStrictEqual(unsatisfiedDependencies(app, [pkg("libcore", "3"), app], ["libc6", "python3-*"]), []);
+  });
+
+  it("should match external names with wildcards", () => {
+    assert.ok(isExternal("python3-yaml", ["python3-*"]));
+    assert.ok(!isExternal("python3", ["python3-*"]));
+    assert.ok(!isExternal("libc6x", ["libc6"]));
+    assert.ok(isExternal("libstdc++6", ["libstdc++6"]));
+    // Only "*" is special
+    assert.ok(!isExternal("ab", ["a?b"]));
+    assert.ok(!isExternal("libfoo", ["lib(foo|bar)"]));
+    assert.ok(!isExternal("libx", ["lib[a-z]"]));
+    assert.ok(isExternal("lib[a-z]", ["lib[a-z]"]));
+  });
+});
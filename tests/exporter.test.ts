@@ -0,0 +1,136 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { StorageService, PackageLocation } from "../src/services/storage.js";
+import { AptIndexService } from "../src/services/apt-index.js";
+import { SigningService } from "../src/services/signing.js";
+import { ExportService } from "../src/services/exporter.js";
+import { Config, defaultConfig } from "../src/config.js";
+import { buildDeb } from "./fixtures.js";
+
+describe("ExportService", () => {
+  let testDir: string;
+  let exportDir: string;
+  let storage: StorageService;
+  let aptIndex: AptIndexService;
+  let signing: SigningService;
+  let exporter: ExportService;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-export-"));
+    exportDir = path.join(testDir, "export");
+    const config: Config = { ...defaultConfig, dataRoot: path.join(testDir, "data") };
+    storage = new StorageService(config.dataRoot);
+    aptIndex = new AptIndexService(storage, config);
+    signing = new SigningService(path.join(testDir, "keys"));
+    exporter = new ExportService(storage, aptIndex, signing, config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const hello: PackageLocation = {
+    repo: "default",
+    distribution: "stable",
+    component: "main",
+    architecture: "amd64",
+    name: "hello",
+    version: "1.0",
+  };
+
+  async function store(loc: PackageLocation): Promise<void> {
+    await storage.storePackage(loc, buildDeb({ name: loc.name, version: loc.version, architecture: loc.architecture }), "test-key");
+  }
+
+  it("should write the files the apt routes serve", async () => {
+    await store(hello);
+    const report = await exporter.exportRepo("default", exportDir);
+
+    const index = aptIndex.getDistribution("default", "stable");
+    const read = (rel: string) => fs.readFileSync(path.join(exportDir, rel));
+    assert.strictEqual(read("dists/stable/Release").toString(), index.release);
+    assert.strictEqual(read("dists/stable/InRelease").toString(), index.inRelease);
+    assert.strictEqual(read("dists/stable/Release.gpg").toString(), index.releaseSignature);
+    for (const file of index.files.values()) {
+      assert.ok(read(`dists/stable/${file.path}`).equals(file.data), file.path);
+    }
+    const byHash = aptIndex.listByHashFiles("default", "stable");
+    assert.ok(byHash.length > 0);
+    for (const file of byHash) {
+      assert.ok(read(`dists/stable/${file.path}`).equals(fs.readFileSync(file.filePath)), file.path);
+    }
+    assert.ok(read("key.gpg").equals(await signing.getPublicKey("default", false)));
+
+    // Pool files are hard links to the stored .deb
+    const deb = "pool/main/h/hello/hello_1.0_amd64.deb";
+    assert.strictEqual(
+      fs.statSync(path.join(exportDir, deb)).ino,
+      fs.statSync(storage.getPackageFile(hello)!).ino
+    );
+    assert.ok(report.written.includes(deb));
+    assert.strictEqual(report.unchanged, 0);
+  });
+
+  it("should only touch what changed on a re-export", async () => {
+    await store(hello);
+    await exporter.exportRepo("default", exportDir, { copy: true });
+
+    const again = await exporter.exportRepo("default", exportDir, { copy: true });
+    assert.deepStrictEqual(again.written, []);
+    assert.deepStrictEqual(again.removed, []);
+
+    // A fresh process, as with each command-line run, signs nothing anew
+    const config: Config = { ...defaultConfig, dataRoot: path.join(testDir, "data") };
+    const rerun = new ExportService(
+      new StorageService(config.dataRoot),
+      new AptIndexService(new StorageService(config.dataRoot), config),
+      new SigningService(path.join(testDir, "keys")),
+      config
+    );
+    const fresh = await rerun.exportRepo("default", exportDir, { copy: true });
+    assert.deepStrictEqual(fresh.written, []);
+
+    await store({ ...hello, version: "1.1" });
+    storage.deletePackage(hello);
+    const changed = await exporter.exportRepo("default", exportDir, { copy: true });
+    assert.ok(changed.written.includes("pool/main/h/hello/hello_1.1_amd64.deb"));
+    assert.ok(changed.written.includes("dists/stable/Release"));
+    assert.ok(!changed.written.some((p) => p.startsWith("pool/") && !p.includes("1.1")));
+    assert.ok(changed.removed.includes("pool/main/h/hello/hello_1.0_amd64.deb"));
+    assert.ok(!fs.existsSync(path.join(exportDir, "pool/main/h/hello/hello_1.0_amd64.deb")));
+
+    // A removed distribution leaves no empty directories behind
+    await store({ ...hello, distribution: "testing" });
+    await exporter.exportRepo("default", exportDir, { copy: true });
+    storage.deletePackage({ ...hello, distribution: "testing" });
+    await exporter.exportRepo("default", exportDir, { copy: true });
+    assert.ok(!fs.existsSync(path.join(exportDir, "dists/testing")));
+  });
+
+  it("should count a pool file shared by distributions once", async () => {
+    await store(hello);
+    await store({ ...hello, distribution: "testing" });
+    const report = await exporter.exportRepo("default", exportDir);
+
+    const deb = "pool/main/h/hello/hello_1.0_amd64.deb";
+    assert.strictEqual(report.written.filter((p) => p === deb).length, 1);
+    assert.strictEqual(report.unchanged, 0);
+  });
+
+  it("should only export into an empty directory or its own previous export", async () => {
+    await store(hello);
+    fs.mkdirSync(exportDir);
+    assert.ok(exporter.canExportTo("default", exportDir));
+
+    fs.writeFileSync(path.join(exportDir, "notes.txt"), "unrelated");
+    assert.ok(!exporter.canExportTo("default", exportDir));
+
+    fs.rmSync(path.join(exportDir, "notes.txt"));
+    await exporter.exportRepo("default", exportDir);
+    assert.ok(exporter.canExportTo("default", exportDir));
+    assert.ok(!exporter.canExportTo("other", exportDir));
+  });
+});
@@ -0,0 +1,163 @@
+import { gzipSync } from "node:zlib";
+import { createHash } from "node:crypto";
+import { execFileSync } from "node:child_process";
+
+/**
+ * Test fixtures: build real (if tiny) .deb files in memory so tests don't
+ * depend on dpkg-deb being installed.
+ */
+
+export interface TarEntry {
+  name: string;
+  content?: string | Buffer;
+  type?: "file" | "dir" | "symlink" | "longname";
+  linkTarget?: string;
+}
+
+function tarHeader(entry: TarEntry, size: number): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(entry.name, 0, 100);
+  const mode = entry.type === "dir" ? "0000755" : "0000644";
+  header.write(mode + "\0", 100);
+  header.write("0000000\0", 108);
+  header.write("0000000\0", 116);
+  header.write(size.toString(8).padStart(11, "0") + "\0", 124);
+  header.write("00000000000\0", 136);
+  const typeflags = { file: "0", dir: "5", symlink: "2", longname: "L" };
+  const typeflag = typeflags[entry.type ?? "file"];
+  header.write(typeflag, 156);
+  if (entry.linkTarget) header.write(entry.linkTarget, 157, 100);
+  header.write("ustar\0", 257);
+  header.write("00", 263);
+
+  // Checksum is computed with the checksum field filled with spaces
+  header.write("        ", 148);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(sum.toString(8).padStart(6, "0") + "\0 ", 148);
+  return header;
+}
+
+export function buildTar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = entry.type === "dir" || entry.type === "symlink"
+      ? Buffer.alloc(0)
+      : Buffer.from(entry.content ?? "");
+    blocks.push(tarHeader(entry, data.length));
+    blocks.push(data);
+    const padding = (512 - (data.length % 512)) % 512;
+    blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+export function buildAr(members: { name: string; data: Buffer }[]): Buffer {
+  const parts: Buffer[] = [Buffer.from("!<arch>\n")];
+  for (const member of members) {
+    const header =
+      member.name.padEnd(16) +
+      "0".padEnd(12) +
+      "0".padEnd(6) +
+      "0".padEnd(6) +
+      "100644".padEnd(8) +
+      String(member.data.length).padEnd(10) +
+      "`\n";
+    parts.push(Buffer.from(header), member.data);
+    if (member.data.length % 2 !== 0) parts.push(Buffer.from("\n"));
+  }
+  return Buffer.concat(parts);
+}
+
+export interface DebOptions {
+  name: string;
+  version: string;
+  architecture?: string;
+  description?: string;
+  extraControl?: Record<string, string>;
+  files?: TarEntry[];
+  // xz needs the xz binary; the built-in control parser only reads gzip
+  controlCompression?: "gz" | "xz";
+}
+
+export function buildDeb(options: DebOptions): Buffer {
+  const control = [
+    `Package: ${options.name}`,
+    `Version: ${options.version}`,
+    `Architecture: ${options.architecture ?? "all"}`,
+    `Maintainer: Test <test@example.com>`,
+    ...Object.entries(options.extraControl ?? {}).map(([k, v]) => `${k}: ${v}`),
+    `Description: ${options.description ?? `${options.name} test package`}`,
+  ].join("\n") + "\n";
+
+  const controlTar = buildTar([{ name: "./control", content: control }]);
+  const dataTar = buildTar([{ name: "./", type: "dir" }, ...(options.files ?? [])]);
+
+  return buildAr([
+    { name: "debian-binary", data: Buffer.from("2.0\n") },
+    options.controlCompression === "xz"
+      ? { name: "control.tar.xz", data: execFileSync("xz", ["-c"], { input: controlTar }) }
+      : { name: "control.tar.gz", data: gzipSync(controlTar) },
+    { name: "data.tar.gz", data: gzipSync(dataTar) },
+  ]);
+}
+
+export interface DscOptions {
+  name: string;
+  version: string;
+  files: { name: string; data: Buffer }[];
+  extraControl?: Record<string, string>;
+}
+
+/** Build a .dsc listing the given files in Files and Checksums-Sha256. */
+export function buildDsc(options: DscOptions): Buffer {
+  const digest = (algorithm: string, data: Buffer) =>
+    createHash(algorithm).update(data).digest("hex");
+  const dsc = [
+    `Format: 3.0 (quilt)`,
+    `Source: ${options.name}`,
+    `Binary: ${options.name}`,
+    `Architecture: any`,
+    `Version: ${options.version}`,
+    `Maintainer: Test <test@example.com>`,
+    ...Object.entries(options.extraControl ?? {}).map(([k, v]) => `${k}: ${v}`),
+    `Checksums-Sha256:`,
+    ...options.files.map((f) => ` ${digest("sha256", f.data)} ${f.data.length} ${f.name}`),
+    `Files:`,
+    ...options.files.map((f) => ` ${digest("md5", f.data)} ${f.data.length} ${f.name}`),
+  ].join("\n") + "\n";
+  return Buffer.from(dsc);
+}
+
+/**
+ * A minimal little-endian ELF64 file with a .note.gnu.build-id section,
+ * enough for build-id extraction.
+ */
+export function buildElf(buildId: string): Buffer {
+  const desc = Buffer.from(buildId, "hex");
+  const note = Buffer.alloc(16 + Math.ceil(desc.length / 4) * 4);
+  note.writeUInt32LE(4, 0); // namesz
+  note.writeUInt32LE(desc.length, 4); // descsz
+  note.writeUInt32LE(3, 8); // NT_GNU_BUILD_ID
+  note.write("GNU\0", 12);
+  desc.copy(note, 16);
+
+  const header = Buffer.alloc(64);
+  header.writeUInt32BE(0x7f454c46, 0);
+  header[4] = 2; // ELFCLASS64
+  header[5] = 1; // little-endian
+  header[6] = 1;
+  const shoff = 64 + note.length;
+  header.writeBigUInt64LE(BigInt(shoff), 0x28);
+  header.writeUInt16LE(64, 0x34); // e_ehsize
+  header.writeUInt16LE(64, 0x3a); // e_shentsize
+  header.writeUInt16LE(2, 0x3c); // e_shnum: null section + the note
+
+  const sections = Buffer.alloc(128);
+  sections.writeUInt32LE(7, 64 + 4); // SHT_NOTE
+  sections.writeBigUInt64LE(64n, 64 + 0x18);
+  sections.writeBigUInt64LE(BigInt(note.length), 64 + 0x20);
+
+  return Buffer.concat([header, note, sections]);
+}
@@ -0,0 +1,151 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import crypto from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { StorageService } from "../src/services/storage.js";
+import { SnapshotService } from "../src/services/snapshots.js";
+import { ImportService } from "../src/services/importer.js";
+import { Config, defaultConfig } from "../src/config.js";
+import { buildDeb } from "./fixtures.js";
+
+describe("ImportService", () => {
+  let testDir: string;
+  let treeDir: string;
+  let storage: StorageService;
+  let importer: ImportService;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-test-"));
+    treeDir = path.join(testDir, "tree");
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: path.join(testDir, "data"),
+      repos: { default: { distributions: { bookworm: { architectures: ["amd64"] } } } },
+    };
+    storage = new StorageService(config.dataRoot);
+    importer = new ImportService(storage, new SnapshotService(config.dataRoot, storage), config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function writeFile(rel: string, data: string | Buffer): void {
+    fs.mkdirSync(path.dirname(path.join(treeDir, rel)), { recursive: true });
+    fs.writeFileSync(path.join(treeDir, rel), data);
+  }
+
+  // A Packages stanza for a .deb written into the tree's pool
+  function poolDeb(name: string, version: string, architecture: string, component = "main"): string {
+    const deb = buildDeb({ name, version, architecture });
+    const filename = `pool/${component}/${name[0]}/${name}/${name}_${version}_${architecture}.deb`;
+    writeFile(filename, deb);
+    return [
+      `Package: ${name}`,
+      `Version: ${version}`,
+      `Architecture: ${architecture}`,
+      `Description: ${name} test package`,
+      `Filename: ${filename}`,
+      `Size: ${deb.length}`,
+      `SHA256: ${crypto.createHash("sha256").update(deb).digest("hex")}`,
+    ].join("\n");
+  }
+
+  it("should import a dists/ + pool/ tree keeping distributions and components", async () => {
+    const hello = poolDeb("hello", "1.0-1", "amd64");
+    const common = poolDeb("common", "2.0", "all");
+    const tools = poolDeb("tools", "0.1", "amd64", "contrib");
+    writeFile("dists/bookworm/main/binary-amd64/Packages", `${hello}\n\n${common}\n`);
+    writeFile("dists/bookworm/main/binary-arm64/Packages.gz", gzipSync(`${common}\n`));
+    writeFile("dists/bookworm/contrib/binary-amd64/Packages", `${tools}\n`);
+    writeFile("dists/trixie/main/binary-amd64/Packages", `${hello}\n`);
+    const mtime = new Date("2024-03-01T12:00:00Z");
+    fs.utimesSync(path.join(treeDir, "pool/main/h/hello/hello_1.0-1_amd64.deb"), mtime, mtime);
+
+    const dryRun = await importer.importTree(treeDir, { repo: "default", dryRun: true }, "import");
+    assert.strictEqual(dryRun.imported.length, 4);
+    assert.deepStrictEqual(dryRun.conflicts, []);
+    assert.deepStrictEqual(storage.listPackages({}), []);
+
+    const report = await importer.importTree(treeDir, { repo: "default" }, "import");
+    assert.deepStrictEqual(
+      report.imported.map((e) => `${e.distribution}/${e.component}/${e.architecture}/${e.name}`).sort(),
+      ["bookworm/contrib/amd64/tools", "bookworm/main/all/common", "bookworm/main/amd64/hello", "trixie/main/amd64/hello"]
+    );
+    const hello1 = storage.getPackageMetadata({
+      repo: "default",
+      distribution: "bookworm",
+      component: "main",
+      architecture: "amd64",
+      name: "hello",
+      version: "1.0-1",
+    })!;
+    assert.strictEqual(hello1.uploadedAt, mtime.toISOString());
+    assert.strictEqual(hello1.uploaderKeyId, "import");
+    assert.strictEqual(hello1.description, "hello test package");
+    const helloDeb = fs.readFileSync(path.join(treeDir, "pool/main/h/hello/hello_1.0-1_amd64.deb"));
+    assert.strictEqual(hello1.size, helloDeb.length);
+    assert.strictEqual(hello1.md5, crypto.createHash("md5").update(helloDeb).digest("hex"));
+
+    const again = await importer.importTree(treeDir, { repo: "default" }, "import");
+    assert.strictEqual(again.imported.length, 0);
+    assert.strictEqual(again.unchanged.length, 4);
+  });
+
+  it("should report conflicts and import everything else", async () => {
+    const hello = poolDeb("hello", "1.0-1", "amd64");
+    const ports = poolDeb("ports", "1.0", "arm64");
+    const broken = poolDeb("broken", "1.0", "amd64").replace(/SHA256: \w+/, `SHA256: ${"0".repeat(64)}`);
+    const missing = poolDeb("missing", "1.0", "amd64");
+    fs.rmSync(path.join(treeDir, "pool/main/m"), { recursive: true });
+    writeFile("dists/bookworm/main/binary-amd64/Packages", [hello, broken, missing].join("\n\n"));
+    writeFile("dists/bookworm/main/binary-arm64/Packages", ports);
+
+    // Already stored with different bytes
+    await storage.storePackage(
+      {
+        repo: "default",
+        distribution: "bookworm",
+        component: "main",
+        architecture: "amd64",
+        name: "hello",
+        version: "1.0-1",
+      },
+      buildDeb({ name: "hello", version: "1.0-1", architecture: "amd64", description: "other" }),
+      "test-key"
+    );
+
+    const report = await importer.importTree(treeDir, { repo: "default", dryRun: true }, "import");
+    assert.deepStrictEqual(
+      report.conflicts.map((c) => `${c.location!.name}: ${c.reason}`).sort(),
+      [
+        "broken: File does not match its SHA256 in Packages",
+        "hello: A different file is stored for this version",
+        "missing: File not found",
+        "ports: Architecture arm64 is not declared for this distribution",
+      ]
+    );
+  });
+
+  it("should import a plain directory of .debs into one distribution", async () => {
+    writeFile("a/one_1.0_amd64.deb", buildDeb({ name: "one", version: "1.0", architecture: "amd64" }));
+    writeFile("two_2.0_all.deb", buildDeb({ name: "two", version: "2.0" }));
+    writeFile("notes.txt", "not a package");
+    writeFile("bad_1.0_all.deb", "not a package");
+
+    const report = await importer.importTree(
+      treeDir,
+      { repo: "default", distribution: "legacy", component: "contrib" },
+      "import"
+    );
+    assert.deepStrictEqual(
+      report.imported.map((e) => `${e.distribution}/${e.component}/${e.file}`),
+      ["legacy/contrib/a/one_1.0_amd64.deb", "legacy/contrib/two_2.0_all.deb"]
+    );
+    assert.deepStrictEqual(report.conflicts.map((c) => c.file), ["bad_1.0_all.deb"]);
+    assert.strictEqual(storage.listPackages({ distribution: "legacy" }).length, 2);
+  });
+});
@@ -3,10 +3,18 @@ import assert from "node:assert";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import crypto from "node:crypto";
+import { gunzipSync } from "node:zlib";
+import http from "node:http";
+import { AddressInfo } from "node:net";
 import { spawn, ChildProcess } from "node:child_process";
+import { buildDeb, buildDsc, buildElf } from "./fixtures.js";
 
 describe("API Integration Tests", () => {
   let serverProcess: ChildProcess | null = null;
+  // Stand-in upstream archive for the remote repo
+  const upstreamFiles = new Map<string, string>();
+  let upstream: http.Server;
   let testDir: string;
   let configPath: string;
   const port = 3099;
@@ -22,6 +30,13 @@ describe("API Integration Tests", () => {
     fs.mkdirSync(logDir, { recursive: true });
     fs.mkdirSync(configDir, { recursive: true });
 
+    upstream = http.createServer((req, res) => {
+      const body = upstreamFiles.get(req.url!);
+      res.writeHead(body === undefined ? 404 : 200).end(body);
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    const upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/debian`;
+
     // Create config file
     configPath = path.join(configDir, "config.yaml");
     const config = `
@@ -30,11 +45,44 @@ logPath: ${logDir}
 port: ${port}
 bindAddress: 127.0.0.1
 maxUploadSize: 10485760
+rateLimitPerMinute: 10000
 allowedRepos:
   - default
   - test
+  - secret
+  - mirror
+  - builds
 apiKeysPath: ${path.join(configDir, "api-keys.json")}
 adminKey: ${adminKey}
+signing:
+  enabled: true
+  keyDir: ${path.join(testDir, "signing-keys")}
+repos:
+  default:
+    flat:
+      distribution: appliance
+  test:
+    dependencyCheck:
+      external: [libc6]
+    distributions:
+      ports:
+        architectures: [arm64, armhf]
+      checked:
+        dependencyCheck:
+          mode: reject
+      lenient:
+        dependencyCheck:
+          mode: warn
+  secret:
+    private: true
+  mirror:
+    remote:
+      url: ${upstreamUrl}
+      suites: [bookworm]
+  builds:
+    retention:
+      enabled: true
+      keepLastN: 1
 `;
     fs.writeFileSync(configPath, config);
     fs.writeFileSync(path.join(configDir, "api-keys.json"), '{"keys":[]}');
@@ -69,6 +117,7 @@ adminKey: ${adminKey}
   });
 
   after(async () => {
+    upstream.close();
     if (serverProcess) {
       serverProcess.kill("SIGTERM");
       await new Promise((r) => setTimeout(r, 500));
@@ -119,6 +168,20 @@ adminKey: ${adminKey}
     return { status: response.status, data };
   }
 
+  async function uploadDeb(
+    deb: Buffer,
+    filename: string,
+    fields: Record<string, string> = {}
+  ): Promise<{ status: number; data: unknown }> {
+    const formData = new FormData();
+    const allFields = { repo: "default", distribution: "stable", component: "main", ...fields };
+    for (const [key, value] of Object.entries(allFields)) {
+      formData.append(key, value);
+    }
+    formData.append("file", new Blob([new Uint8Array(deb)]), filename);
+    return apiRequest("POST", "/api/v1/packages", { formData });
+  }
+
   describe("Health endpoints", () => {
     it("GET /healthz should return ok", async () => {
       const res = await fetch(`${baseUrl}/healthz`);
@@ -258,4 +321,867 @@ adminKey: ${adminKey}
       assert.strictEqual(res.status, 403);
     });
   });
+
+  describe("apt repository", () => {
+    it("GET Release should serve an unsigned Release file", async () => {
+      const res = await fetch(`${baseUrl}/apt/default/dists/stable/Release`);
+      assert.strictEqual(res.status, 200);
+      const text = await res.text();
+      assert.ok(text.includes("Suite: stable"));
+    });
+
+    it("GET InRelease should clearsign the Release content", async () => {
+      const release = await (await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).text();
+      const res = await fetch(`${baseUrl}/apt/default/dists/stable/InRelease`);
+      assert.strictEqual(res.status, 200);
+      const text = await res.text();
+      assert.ok(text.startsWith("-----BEGIN PGP SIGNED MESSAGE-----"));
+      assert.ok(text.includes(release.split("\n")[0]));
+    });
+
+    it("GET Release.gpg should serve a detached signature", async () => {
+      const res = await fetch(`${baseUrl}/apt/default/dists/stable/Release.gpg`);
+      assert.strictEqual(res.status, 200);
+      const text = await res.text();
+      assert.ok(text.startsWith("-----BEGIN PGP SIGNATURE-----"));
+    });
+
+    it("GET key.gpg should serve the repo public key", async () => {
+      const res = await fetch(`${baseUrl}/apt/default/key.gpg`);
+      assert.strictEqual(res.status, 200);
+      assert.ok((await res.arrayBuffer()).byteLength > 0);
+
+      const armored = await fetch(`${baseUrl}/apt/default/key.asc`);
+      assert.ok((await armored.text()).startsWith("-----BEGIN PGP PUBLIC KEY BLOCK-----"));
+    });
+
+    it("should serve compressed Packages indexes listed in Release", async () => {
+      const upload = await uploadDeb(buildDeb({ name: "hello", version: "1.0-1" }), "hello_1.0-1_all.deb");
+      assert.strictEqual(upload.status, 201);
+
+      const indexUrl = `${baseUrl}/apt/default/dists/stable/main/binary-amd64/Packages`;
+      const plain = await (await fetch(indexUrl)).text();
+      assert.ok(plain.includes("Package: hello"));
+
+      const gz = await fetch(`${indexUrl}.gz`);
+      assert.strictEqual(gz.status, 200);
+      const gzData = Buffer.from(await gz.arrayBuffer());
+      assert.strictEqual(gunzipSync(gzData).toString(), plain);
+
+      const release = await (await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).text();
+      const sha256 = crypto.createHash("sha256").update(gzData).digest("hex");
+      assert.ok(release.includes(` ${sha256} ${gzData.length} main/binary-amd64/Packages.gz`));
+      assert.ok(release.includes("main/binary-amd64/Packages.xz"));
+
+      // zst is not enabled for this repo
+      const zst = await fetch(`${indexUrl}.zst`);
+      assert.strictEqual(zst.status, 404);
+      assert.ok(!release.includes("Packages.zst"));
+    });
+
+    it("should keep superseded indexes available by hash", async () => {
+      const releaseUrl = `${baseUrl}/apt/default/dists/stable/Release`;
+      const before = await (await fetch(releaseUrl)).text();
+      assert.ok(before.includes("Acquire-By-Hash: yes"));
+
+      const sha256Section = before.split("SHA256:\n")[1];
+      const match = sha256Section.match(/^ ([a-f0-9]{64}) \d+ main\/binary-amd64\/Packages$/m);
+      assert.ok(match);
+      const oldHash = match[1];
+      const byHashUrl = (hash: string) =>
+        `${baseUrl}/apt/default/dists/stable/main/binary-amd64/by-hash/SHA256/${hash}`;
+
+      const oldIndex = await fetch(byHashUrl(oldHash));
+      assert.strictEqual(oldIndex.status, 200);
+      assert.ok((await oldIndex.text()).includes("Package: hello"));
+
+      const upload = await uploadDeb(buildDeb({ name: "hello", version: "1.1-1" }), "hello_1.1-1_all.deb");
+      assert.strictEqual(upload.status, 201);
+      const after = await (await fetch(releaseUrl)).text();
+      assert.ok(!after.includes(oldHash));
+
+      // A client still holding the old Release can fetch the matching index
+      const stale = await fetch(byHashUrl(oldHash));
+      assert.strictEqual(stale.status, 200);
+      assert.ok(!(await stale.text()).includes("Version: 1.1-1"));
+
+      const missing = await fetch(byHashUrl("0".repeat(64)));
+      assert.strictEqual(missing.status, 404);
+    });
+
+    it("should serve indexes by SHA512 and per-architecture Release files", async () => {
+      const release = await (await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).text();
+      const match = release.split("SHA512:\n")[1].match(/^ ([a-f0-9]{128}) \d+ main\/binary-amd64\/Packages$/m);
+      assert.ok(match);
+
+      const byHash = await fetch(`${baseUrl}/apt/default/dists/stable/main/binary-amd64/by-hash/SHA512/${match[1]}`);
+      assert.strictEqual(byHash.status, 200);
+      const unknown = await fetch(`${baseUrl}/apt/default/dists/stable/main/binary-amd64/by-hash/MD5Sum/${match[1]}`);
+      assert.strictEqual(unknown.status, 404);
+
+      const archRelease = await fetch(`${baseUrl}/apt/default/dists/stable/main/binary-amd64/Release`);
+      assert.strictEqual(archRelease.status, 200);
+      assert.match(await archRelease.text(), /^Architecture: amd64$/m);
+    });
+
+    it("should serve Contents indexes listed in Release", async () => {
+      const deb = buildDeb({
+        name: "greeter",
+        version: "2.0-1",
+        architecture: "amd64",
+        extraControl: { Section: "utils" },
+        files: [
+          { name: "./usr/", type: "dir" },
+          { name: "./usr/bin/", type: "dir" },
+          { name: "./usr/bin/greet", content: "#!/bin/sh\n" },
+        ],
+      });
+      const upload = await uploadDeb(deb, "greeter_2.0-1_amd64.deb");
+      assert.strictEqual(upload.status, 201);
+
+      const res = await fetch(`${baseUrl}/apt/default/dists/stable/main/Contents-amd64`);
+      assert.strictEqual(res.status, 200);
+      const contents = await res.text();
+      assert.match(contents, /^usr\/bin\/greet\s+utils\/greeter$/m);
+
+      const gz = await fetch(`${baseUrl}/apt/default/dists/stable/main/Contents-amd64.gz`);
+      const gzData = Buffer.from(await gz.arrayBuffer());
+      assert.strictEqual(gunzipSync(gzData).toString(), contents);
+
+      const release = await (await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).text();
+      const sha256 = crypto.createHash("sha256").update(gzData).digest("hex");
+      assert.ok(release.includes(` ${sha256} ${gzData.length} main/Contents-amd64.gz`));
+
+      const byHash = await fetch(`${baseUrl}/apt/default/dists/stable/main/by-hash/SHA256/${sha256}`);
+      assert.strictEqual(byHash.status, 200);
+    });
+
+    it("should accept source uploads and serve them in Sources", async () => {
+      const orig = { name: "greeter_2.0.orig.tar.gz", data: Buffer.from("upstream source") };
+      const debian = { name: "greeter_2.0-1.debian.tar.xz", data: Buffer.from("packaging") };
+      const dsc = buildDsc({ name: "greeter", version: "2.0-1", files: [orig, debian] });
+
+      const formData = new FormData();
+      formData.append("repo", "default");
+      formData.append("distribution", "stable");
+      for (const file of [{ name: "greeter_2.0-1.dsc", data: dsc }, orig, debian]) {
+        formData.append("file", new Blob([new Uint8Array(file.data)]), file.name);
+      }
+      const upload = await apiRequest("POST", "/api/v1/packages/source", { formData });
+      assert.strictEqual(upload.status, 201);
+
+      const res = await fetch(`${baseUrl}/apt/default/dists/stable/main/source/Sources`);
+      assert.strictEqual(res.status, 200);
+      const sources = await res.text();
+      assert.match(sources, /^Package: greeter$/m);
+      assert.match(sources, /^Directory: pool\/main\/g\/greeter$/m);
+
+      const gz = await fetch(`${baseUrl}/apt/default/dists/stable/main/source/Sources.gz`);
+      assert.strictEqual(gunzipSync(Buffer.from(await gz.arrayBuffer())).toString(), sources);
+
+      const release = await (await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).text();
+      assert.ok(release.includes("main/source/Sources.gz"));
+
+      const download = await fetch(`${baseUrl}/apt/default/pool/main/g/greeter/${orig.name}`);
+      assert.strictEqual(download.status, 200);
+      assert.strictEqual(Buffer.from(await download.arrayBuffer()).toString(), "upstream source");
+
+      const list = await apiRequest("GET", "/api/v1/packages?architecture=source");
+      const packages = (list.data as { packages: { name: string }[] }).packages;
+      assert.deepStrictEqual(packages.map((p) => p.name), ["greeter"]);
+    });
+
+    it("should reject source uploads whose files do not match the .dsc", async () => {
+      const orig = { name: "broken_1.0.orig.tar.gz", data: Buffer.from("original") };
+      const dsc = buildDsc({ name: "broken", version: "1.0-1", files: [orig] });
+
+      const formData = new FormData();
+      formData.append("file", new Blob([new Uint8Array(dsc)]), "broken_1.0-1.dsc");
+      formData.append("file", new Blob([new Uint8Array(Buffer.from("modified"))]), orig.name);
+      const upload = await apiRequest("POST", "/api/v1/packages/source", { formData });
+      assert.strictEqual(upload.status, 400);
+      assert.match((upload.data as { error: string }).error, /Checksum mismatch/);
+    });
+
+    it("should publish declared architectures and refuse others", async () => {
+      const release = await (await fetch(`${baseUrl}/apt/test/dists/ports/Release`)).text();
+      assert.match(release, /^Architectures: arm64 armhf$/m);
+
+      const rejected = await uploadDeb(
+        buildDeb({ name: "native", version: "1.0", architecture: "amd64" }),
+        "native_1.0_amd64.deb",
+        { repo: "test", distribution: "ports" }
+      );
+      assert.strictEqual(rejected.status, 400);
+
+      const upload = await uploadDeb(
+        buildDeb({ name: "portable", version: "1.0" }),
+        "portable_1.0_all.deb",
+        { repo: "test", distribution: "ports" }
+      );
+      assert.strictEqual(upload.status, 201);
+      const armhf = await (await fetch(`${baseUrl}/apt/test/dists/ports/main/binary-armhf/Packages`)).text();
+      assert.match(armhf, /^Package: portable$/m);
+    });
+
+    it("should serve epoch versions from the Debian pool layout", async () => {
+      const deb = buildDeb({
+        name: "libgreet1",
+        version: "1:3.0-1",
+        architecture: "amd64",
+        extraControl: { Source: "greeter" },
+      });
+      const upload = await uploadDeb(deb, "libgreet1_3.0-1_amd64.deb");
+      assert.strictEqual(upload.status, 201);
+
+      const packages = await (await fetch(`${baseUrl}/apt/default/dists/stable/main/binary-amd64/Packages`)).text();
+      assert.ok(packages.includes("Filename: pool/main/g/greeter/libgreet1_3.0-1_amd64.deb\n"));
+
+      const download = await fetch(`${baseUrl}/apt/default/pool/main/g/greeter/libgreet1_3.0-1_amd64.deb`);
+      assert.strictEqual(download.status, 200);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(deb));
+
+      // Old-layout URLs redirect to the new path
+      const legacy = await fetch(
+        `${baseUrl}/apt/default/pool/stable/main/amd64/libgreet1_1:3.0-1_amd64.deb`,
+        { redirect: "manual" }
+      );
+      assert.strictEqual(legacy.status, 301);
+      assert.strictEqual(
+        legacy.headers.get("location"),
+        "/apt/default/pool/main/g/greeter/libgreet1_3.0-1_amd64.deb"
+      );
+
+      const missing = await fetch(`${baseUrl}/apt/default/pool/main/g/greeter/nothing_1.0_amd64.deb`);
+      assert.strictEqual(missing.status, 404);
+    });
+
+    it("should refuse different content at a shared pool path", async () => {
+      const first = await uploadDeb(
+        buildDeb({ name: "shared", version: "1.0", description: "first build" }),
+        "shared_1.0_all.deb"
+      );
+      assert.strictEqual(first.status, 201);
+
+      const conflicting = await uploadDeb(
+        buildDeb({ name: "shared", version: "1.0", description: "second build" }),
+        "shared_1.0_all.deb",
+        { distribution: "testing" }
+      );
+      assert.strictEqual(conflicting.status, 409);
+
+      // The identical file may be published in several distributions
+      const same = await uploadDeb(
+        buildDeb({ name: "shared", version: "1.0", description: "first build" }),
+        "shared_1.0_all.deb",
+        { distribution: "testing" }
+      );
+      assert.strictEqual(same.status, 201);
+    });
+
+    it("should check the pool path of an xz control archive by its Source", async () => {
+      const build = (description: string) =>
+        buildDeb({
+          name: "libxzgreet1",
+          version: "1.0",
+          description,
+          extraControl: { Source: "xzgreet" },
+          controlCompression: "xz",
+        });
+      const first = await uploadDeb(build("first build"), "libxzgreet1_1.0_all.deb");
+      assert.strictEqual(first.status, 201);
+      const packages = await (await fetch(`${baseUrl}/apt/default/dists/stable/main/binary-amd64/Packages`)).text();
+      assert.ok(packages.includes("Filename: pool/main/x/xzgreet/libxzgreet1_1.0_all.deb\n"));
+
+      const conflicting = await uploadDeb(build("second build"), "libxzgreet1_1.0_all.deb", {
+        distribution: "testing",
+      });
+      assert.strictEqual(conflicting.status, 409);
+      assert.match(
+        (conflicting.data as { error: string }).error,
+        /pool\/main\/x\/xzgreet\/libxzgreet1_1\.0_all\.deb/
+      );
+    });
+
+    it("should require read credentials for private repos", async () => {
+      const upload = await uploadDeb(
+        buildDeb({ name: "proprietary", version: "1.0" }),
+        "proprietary_1.0_all.deb",
+        { repo: "secret" }
+      );
+      assert.strictEqual(upload.status, 201);
+
+      const createKey = async (scope: { repos: string[] }) =>
+        (await apiRequest("POST", "/api/v1/keys", { body: { role: "read", scope } }))
+          .data as { id: string; key: string };
+      const reader = await createKey({ repos: ["secret"] });
+      const outsider = await createKey({ repos: ["default"] });
+      const basic = (id: string, key: string) => ({
+        Authorization: `Basic ${Buffer.from(`${id}:${key}`).toString("base64")}`,
+      });
+
+      const releaseUrl = `${baseUrl}/apt/secret/dists/stable/Release`;
+      const anonymous = await fetch(releaseUrl);
+      assert.strictEqual(anonymous.status, 401);
+      assert.match(anonymous.headers.get("www-authenticate") ?? "", /^Basic /);
+
+      const wrongKey = await fetch(releaseUrl, { headers: basic(reader.id, outsider.key) });
+      assert.strictEqual(wrongKey.status, 401);
+
+      const outOfScope = await fetch(releaseUrl, { headers: basic(outsider.id, outsider.key) });
+      assert.strictEqual(outOfScope.status, 403);
+
+      const allowed = await fetch(releaseUrl, { headers: basic(reader.id, reader.key) });
+      assert.strictEqual(allowed.status, 200);
+
+      const poolUrl = `${baseUrl}/apt/secret/pool/main/p/proprietary/proprietary_1.0_all.deb`;
+      assert.strictEqual((await fetch(poolUrl)).status, 401);
+      assert.strictEqual((await fetch(poolUrl, { headers: basic(reader.id, reader.key) })).status, 200);
+
+      // A repo name that sanitizePath would alter is refused, not looked up
+      for (const url of [
+        "/apt/..secret/pool/main/p/proprietary/proprietary_1.0_all.deb",
+        "/apt/flat/..secret/Packages",
+        "/apt/..secret/snapshots/any/pool/main/p/proprietary/proprietary_1.0_all.deb",
+      ]) {
+        const res = await fetch(`${baseUrl}${url}`);
+        assert.strictEqual(res.status, 404);
+        assert.deepStrictEqual(await res.json(), { error: "Repository not found" });
+      }
+
+      // Public repos still need no credentials
+      assert.strictEqual((await fetch(`${baseUrl}/apt/default/dists/stable/Release`)).status, 200);
+    });
+
+    it("should answer conditional requests for indexes", async () => {
+      const upload = await uploadDeb(
+        buildDeb({ name: "cached", version: "1.0" }),
+        "cached_1.0_all.deb",
+        { distribution: "cache" }
+      );
+      assert.strictEqual(upload.status, 201);
+
+      const url = `${baseUrl}/apt/default/dists/cache/main/binary-amd64/Packages`;
+      const first = await fetch(url);
+      const body = Buffer.from(await first.arrayBuffer());
+      const etag = first.headers.get("etag");
+      const lastModified = first.headers.get("last-modified");
+      assert.strictEqual(etag, `"${crypto.createHash("sha256").update(body).digest("hex")}"`);
+      assert.ok(lastModified);
+      assert.strictEqual(first.headers.get("cache-control"), "max-age=60");
+
+      const byEtag = await fetch(url, { headers: { "If-None-Match": etag! } });
+      assert.strictEqual(byEtag.status, 304);
+      const byDate = await fetch(url, { headers: { "If-Modified-Since": lastModified! } });
+      assert.strictEqual(byDate.status, 304);
+      // If-None-Match wins over If-Modified-Since
+      const stale = await fetch(url, {
+        headers: { "If-None-Match": '"0000"', "If-Modified-Since": lastModified! },
+      });
+      assert.strictEqual(stale.status, 200);
+
+      const release = await fetch(`${baseUrl}/apt/default/dists/cache/Release`);
+      assert.ok(release.headers.get("etag"));
+      assert.strictEqual(release.headers.get("last-modified"), lastModified);
+    });
+
+    it("should serve pool files with ranges and HEAD", async () => {
+      const deb = buildDeb({ name: "ranged", version: "1.0" });
+      const upload = await uploadDeb(deb, "ranged_1.0_all.deb", { distribution: "cache" });
+      assert.strictEqual(upload.status, 201);
+      const sha256 = crypto.createHash("sha256").update(deb).digest("hex");
+
+      const url = `${baseUrl}/apt/default/pool/main/r/ranged/ranged_1.0_all.deb`;
+      const head = await fetch(url, { method: "HEAD" });
+      assert.strictEqual(head.status, 200);
+      assert.strictEqual(head.headers.get("content-length"), String(deb.length));
+      assert.strictEqual(head.headers.get("etag"), `"${sha256}"`);
+      assert.strictEqual(head.headers.get("accept-ranges"), "bytes");
+      assert.strictEqual(head.headers.get("cache-control"), "max-age=86400");
+      assert.strictEqual((await head.arrayBuffer()).byteLength, 0);
+
+      const partial = await fetch(url, { headers: { Range: "bytes=8-" } });
+      assert.strictEqual(partial.status, 206);
+      assert.strictEqual(partial.headers.get("content-range"), `bytes 8-${deb.length - 1}/${deb.length}`);
+      assert.ok(Buffer.from(await partial.arrayBuffer()).equals(deb.subarray(8)));
+
+      const suffix = await fetch(url, { headers: { Range: "bytes=-4" } });
+      assert.strictEqual(suffix.status, 206);
+      assert.ok(Buffer.from(await suffix.arrayBuffer()).equals(deb.subarray(deb.length - 4)));
+
+      const beyond = await fetch(url, { headers: { Range: `bytes=${deb.length}-` } });
+      assert.strictEqual(beyond.status, 416);
+      assert.strictEqual(beyond.headers.get("content-range"), `bytes */${deb.length}`);
+
+      // A stale If-Range gets the whole file
+      const changed = await fetch(url, { headers: { Range: "bytes=8-", "If-Range": '"0000"' } });
+      assert.strictEqual(changed.status, 200);
+      assert.strictEqual((await changed.arrayBuffer()).byteLength, deb.length);
+
+      const notModified = await fetch(url, { headers: { "If-None-Match": `"${sha256}"` } });
+      assert.strictEqual(notModified.status, 304);
+    });
+
+    it("should serve a flat repository view", async () => {
+      const deb = buildDeb({ name: "kiosk", version: "2.0", architecture: "amd64" });
+      const upload = await uploadDeb(deb, "kiosk_2.0_amd64.deb", { distribution: "appliance" });
+      assert.strictEqual(upload.status, 201);
+
+      const flatUrl = `${baseUrl}/apt/flat/default`;
+      const packages = await (await fetch(`${flatUrl}/Packages`)).text();
+      const filename = packages.match(/^Filename: (.+)$/m)![1];
+      assert.strictEqual(filename, "pool/main/k/kiosk/kiosk_2.0_amd64.deb");
+
+      const release = await (await fetch(`${flatUrl}/Release`)).text();
+      const sha256 = crypto.createHash("sha256").update(packages).digest("hex");
+      assert.ok(release.includes(` ${sha256} ${Buffer.byteLength(packages)} Packages\n`));
+      const gz = await fetch(`${flatUrl}/Packages.gz`);
+      assert.strictEqual(gunzipSync(Buffer.from(await gz.arrayBuffer())).toString(), packages);
+
+      const inRelease = await fetch(`${flatUrl}/InRelease`);
+      assert.strictEqual(inRelease.status, 200);
+      assert.ok((await inRelease.text()).startsWith("-----BEGIN PGP SIGNED MESSAGE-----"));
+
+      const download = await fetch(`${flatUrl}/${filename}`);
+      assert.strictEqual(download.status, 200);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(deb));
+
+      // Only the configured distribution is part of the flat tree
+      const other = await fetch(`${flatUrl}/pool/main/r/ranged/ranged_1.0_all.deb`);
+      assert.strictEqual(other.status, 404);
+      assert.strictEqual((await fetch(`${baseUrl}/apt/flat/test/Packages`)).status, 404);
+    });
+
+    it("should publish .ddeb uploads and serve them over debuginfod", async () => {
+      const buildId = "5ca1ab1e0123456789abcdef0123456789abcdef";
+      const executable = buildElf(buildId);
+      const debuginfo = Buffer.concat([buildElf(buildId), Buffer.from("debug sections")]);
+      const debugPath = `usr/lib/debug/.build-id/5c/${buildId.substring(2)}.debug`;
+
+      const deb = buildDeb({
+        name: "symbolic",
+        version: "1.0",
+        architecture: "amd64",
+        files: [{ name: "./usr/bin/symbolic", content: executable }],
+      });
+      assert.strictEqual((await uploadDeb(deb, "symbolic_1.0_amd64.deb")).status, 201);
+
+      const ddeb = buildDeb({
+        name: "symbolic-dbgsym",
+        version: "1.0",
+        architecture: "amd64",
+        extraControl: { Source: "symbolic", "Package-Type": "ddeb" },
+        files: [{ name: `./${debugPath}`, content: debuginfo }],
+      });
+      const upload = await uploadDeb(ddeb, "symbolic-dbgsym_1.0_amd64.ddeb");
+      assert.strictEqual(upload.status, 201);
+      assert.deepStrictEqual((upload.data as { buildIds: Record<string, string> }).buildIds, {
+        [buildId]: debugPath,
+      });
+
+      const dists = `${baseUrl}/apt/default/dists/stable`;
+      assert.match(await (await fetch(`${dists}/Release`)).text(), /^Components: .*main\/debug/m);
+      const debugPackages = await (await fetch(`${dists}/main/debug/binary-amd64/Packages`)).text();
+      const filename = debugPackages.match(/^Filename: (.+)$/m)![1];
+      assert.strictEqual(filename, "pool/main/s/symbolic/symbolic-dbgsym_1.0_amd64.ddeb");
+      const download = await fetch(`${baseUrl}/apt/default/${filename}`);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(ddeb));
+
+      const debugRes = await fetch(`${baseUrl}/buildid/${buildId}/debuginfo`);
+      assert.strictEqual(debugRes.status, 200);
+      assert.strictEqual(debugRes.headers.get("x-debuginfod-file"), `/${debugPath}`);
+      assert.ok(Buffer.from(await debugRes.arrayBuffer()).equals(debuginfo));
+
+      const exeRes = await fetch(`${baseUrl}/buildid/${buildId.toUpperCase()}/executable`);
+      assert.strictEqual(exeRes.status, 200);
+      assert.ok(Buffer.from(await exeRes.arrayBuffer()).equals(executable));
+
+      const unknown = await fetch(`${baseUrl}/buildid/${"00".repeat(20)}/debuginfo`);
+      assert.strictEqual(unknown.status, 404);
+    });
+
+    it("should not serve debuginfo from private repos without credentials", async () => {
+      const buildId = "5ec7e70123456789abcdef0123456789abcdef01";
+      const ddeb = buildDeb({
+        name: "hidden-dbgsym",
+        version: "1.0",
+        architecture: "amd64",
+        files: [{ name: `./usr/lib/debug/.build-id/5e/${buildId.substring(2)}.debug`, content: buildElf(buildId) }],
+      });
+      const upload = await uploadDeb(ddeb, "hidden-dbgsym_1.0_amd64.ddeb", { repo: "secret" });
+      assert.strictEqual(upload.status, 201);
+
+      const url = `${baseUrl}/buildid/${buildId}/debuginfo`;
+      assert.strictEqual((await fetch(url)).status, 404);
+
+      const reader = (await apiRequest("POST", "/api/v1/keys", {
+        body: { role: "read", scope: { repos: ["secret"] } },
+      })).data as { id: string; key: string };
+      const authorization = `Basic ${Buffer.from(`${reader.id}:${reader.key}`).toString("base64")}`;
+      assert.strictEqual((await fetch(url, { headers: { Authorization: authorization } })).status, 200);
+    });
+
+    it("should publish .udeb uploads for debian-installer", async () => {
+      const udeb = buildDeb({ name: "netcfg-custom", version: "1.0", architecture: "amd64" });
+      const upload = await uploadDeb(udeb, "netcfg-custom_1.0_amd64.udeb");
+      assert.strictEqual(upload.status, 201);
+
+      const dists = `${baseUrl}/apt/default/dists/stable`;
+      const release = await (await fetch(`${dists}/Release`)).text();
+      assert.ok(release.includes(" main/debian-installer/binary-amd64/Packages\n"));
+      const regular = await (await fetch(`${dists}/main/binary-amd64/Packages`)).text();
+      assert.doesNotMatch(regular, /^Package: netcfg-custom$/m);
+
+      const installer = await fetch(`${dists}/main/debian-installer/binary-amd64/Packages.gz`);
+      assert.strictEqual(installer.status, 200);
+      const packages = gunzipSync(Buffer.from(await installer.arrayBuffer())).toString();
+      const filename = packages.match(/^Filename: (.+)$/m)![1];
+      assert.strictEqual(filename, "pool/main/n/netcfg-custom/netcfg-custom_1.0_amd64.udeb");
+      const download = await fetch(`${baseUrl}/apt/default/${filename}`);
+      assert.strictEqual(download.status, 200);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(udeb));
+    });
+
+    it("should phase package versions in and out", async () => {
+      const deb = buildDeb({ name: "agent", version: "2.0", architecture: "amd64" });
+      const upload = await uploadDeb(deb, "agent_2.0_amd64.deb", { phasedUpdatePercentage: "10" });
+      assert.strictEqual(upload.status, 201);
+      assert.strictEqual((upload.data as { phasing: { percentage: number } }).phasing.percentage, 10);
+
+      const packagesUrl = `${baseUrl}/apt/default/dists/stable/main/binary-amd64/Packages`;
+      const phasedAt = async () => {
+        const packages = await (await fetch(packagesUrl)).text();
+        const entry = packages.split("\n\n").find((e) => e.startsWith("Package: agent\n"))!;
+        return entry.match(/^Phased-Update-Percentage: (\d+)$/m)?.[1];
+      };
+      assert.strictEqual(await phasedAt(), "10");
+
+      const phasing = "/api/v1/packages/default/stable/main/amd64/agent/2.0/phasing";
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { percentage: 50 } })).status, 200);
+      assert.strictEqual(await phasedAt(), "50");
+
+      // A rebuild of the same version stays in the rollout
+      const rebuilt = buildDeb({ name: "agent", version: "2.0", architecture: "amd64", description: "rebuilt" });
+      const reupload = await uploadDeb(rebuilt, "agent_2.0_amd64.deb");
+      assert.strictEqual(reupload.status, 201);
+      assert.strictEqual((reupload.data as { phasing: { percentage: number } }).phasing.percentage, 50);
+      assert.strictEqual(await phasedAt(), "50");
+
+      // A paused rollout refuses raises until resumed
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { action: "pause" } })).status, 200);
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { percentage: 100 } })).status, 409);
+      assert.strictEqual(await phasedAt(), "50");
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { action: "resume" } })).status, 200);
+
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { action: "halt" } })).status, 200);
+      assert.strictEqual(await phasedAt(), "0");
+
+      const done = await apiRequest("POST", phasing, { body: { percentage: 100 } });
+      assert.strictEqual(done.status, 200);
+      assert.strictEqual((done.data as { phasing?: unknown }).phasing, undefined);
+      assert.strictEqual(await phasedAt(), undefined);
+
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { percentage: 101 } })).status, 400);
+      assert.strictEqual((await apiRequest("POST", phasing, { body: { action: "pause" } })).status, 409);
+      const missing = "/api/v1/packages/default/stable/main/amd64/agent/9.9/phasing";
+      assert.strictEqual((await apiRequest("POST", missing, { body: { percentage: 10 } })).status, 404);
+    });
+
+    it("should serve snapshots at immutable URLs", async () => {
+      const first = buildDeb({ name: "frozen", version: "1.0", architecture: "amd64" });
+      const fields = { distribution: "snapshotted" };
+      assert.strictEqual((await uploadDeb(first, "frozen_1.0_amd64.deb", fields)).status, 201);
+
+      const created = await apiRequest("POST", "/api/v1/snapshots", {
+        body: { repo: "default", distribution: "snapshotted", name: "tuesday" },
+      });
+      assert.strictEqual(created.status, 201);
+      assert.strictEqual((created.data as { packageCount: number }).packageCount, 1);
+      const again = await apiRequest("POST", "/api/v1/snapshots", {
+        body: { repo: "default", distribution: "snapshotted", name: "tuesday" },
+      });
+      assert.strictEqual(again.status, 409);
+
+      const second = buildDeb({ name: "frozen", version: "2.0", architecture: "amd64" });
+      assert.strictEqual((await uploadDeb(second, "frozen_2.0_amd64.deb", fields)).status, 201);
+
+      const root = `${baseUrl}/apt/default/snapshots/tuesday`;
+      const release = await (await fetch(`${root}/dists/snapshotted/Release`)).text();
+      assert.match(release, /^Suite: snapshotted$/m);
+      assert.doesNotMatch(release, /^Valid-Until:/m);
+      const packages = await (await fetch(`${root}/dists/snapshotted/main/binary-amd64/Packages`)).text();
+      assert.match(packages, /^Version: 1\.0$/m);
+      assert.doesNotMatch(packages, /^Version: 2\.0$/m);
+
+      const sha256 = crypto.createHash("sha256").update(packages).digest("hex");
+      assert.ok(release.includes(` ${sha256} `));
+      const byHash = await fetch(`${root}/dists/snapshotted/main/binary-amd64/by-hash/SHA256/${sha256}`);
+      assert.strictEqual(byHash.status, 200);
+      assert.strictEqual(await byHash.text(), packages);
+
+      const filename = packages.match(/^Filename: (.+)$/m)![1];
+      const download = await fetch(`${root}/${filename}`);
+      assert.strictEqual(download.status, 200);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(first));
+      const later = await fetch(`${root}/pool/main/f/frozen/frozen_2.0_amd64.deb`);
+      assert.strictEqual(later.status, 404);
+      assert.strictEqual((await fetch(`${root}/dists/stable/Release`)).status, 404);
+
+      const diff = await apiRequest("GET", "/api/v1/snapshots/default/tuesday/diff");
+      assert.deepStrictEqual(diff.data, {
+        from: "tuesday",
+        to: "snapshotted",
+        added: [{ component: "main", architecture: "amd64", name: "frozen", version: "2.0" }],
+        removed: [],
+        changed: [],
+      });
+      const list = await apiRequest("GET", "/api/v1/snapshots?repo=default");
+      assert.ok((list.data as { snapshots: { name: string }[] }).snapshots.some((s) => s.name === "tuesday"));
+
+      // The snapshot pins its packages
+      const pkgPath = "/api/v1/packages/default/snapshotted/main/amd64/frozen/1.0";
+      assert.strictEqual((await apiRequest("DELETE", pkgPath)).status, 409);
+      const rebuilt = buildDeb({ name: "frozen", version: "1.0", architecture: "amd64", description: "rebuilt" });
+      assert.strictEqual((await uploadDeb(rebuilt, "frozen_1.0_amd64.deb", fields)).status, 409);
+      assert.strictEqual((await uploadDeb(first, "frozen_1.0_amd64.deb", fields)).status, 201);
+
+      assert.strictEqual((await apiRequest("DELETE", "/api/v1/snapshots/default/tuesday")).status, 204);
+      assert.strictEqual((await fetch(`${root}/dists/snapshotted/Release`)).status, 404);
+      assert.strictEqual((await apiRequest("DELETE", pkgPath)).status, 204);
+    });
+
+    it("should promote, copy and move packages", async () => {
+      const deb = buildDeb({ name: "promoted", version: "1.0", architecture: "amd64" });
+      const upload = await uploadDeb(deb, "promoted_1.0_amd64.deb", { distribution: "testing" });
+      assert.strictEqual(upload.status, 201);
+      const source = {
+        repo: "default", distribution: "testing", component: "main",
+        architecture: "amd64", name: "promoted", version: "1.0",
+      };
+
+      const promoted = await apiRequest("POST", "/api/v1/packages/promote", {
+        body: { source, target: { distribution: "production" } },
+      });
+      assert.strictEqual(promoted.status, 201);
+      const metadata = promoted.data as { distribution: string; sha256: string };
+      assert.strictEqual(metadata.distribution, "production");
+      assert.strictEqual(metadata.sha256, (upload.data as { sha256: string }).sha256);
+
+      const packages = await (await fetch(`${baseUrl}/apt/default/dists/production/main/binary-amd64/Packages`)).text();
+      assert.match(packages, new RegExp(`^SHA256: ${metadata.sha256}$`, "m"));
+      const filename = packages.match(/^Filename: (.+)$/m)![1];
+      const download = await fetch(`${baseUrl}/apt/default/${filename}`);
+      assert.ok(Buffer.from(await download.arrayBuffer()).equals(deb));
+
+      // Write permission is checked on the target
+      const writer = (await apiRequest("POST", "/api/v1/keys", {
+        body: { role: "write", scope: { distributions: ["testing"] } },
+      })).data as { key: string };
+      const denied = await apiRequest("POST", "/api/v1/packages/copy", {
+        body: { source, target: { distribution: "elsewhere" } },
+        headers: { "X-Api-Key": writer.key },
+      });
+      assert.strictEqual(denied.status, 403);
+
+      const copied = await apiRequest("POST", "/api/v1/packages/copy", {
+        body: { source, target: { component: "extra" } },
+      });
+      assert.strictEqual(copied.status, 201);
+      const moved = await apiRequest("POST", "/api/v1/packages/move", {
+        body: { source, target: { distribution: "archive" } },
+      });
+      assert.strictEqual(moved.status, 201);
+      assert.strictEqual((await apiRequest("GET", "/api/v1/packages/default/testing/main/amd64/promoted/1.0")).status, 404);
+      assert.strictEqual((await apiRequest("GET", "/api/v1/packages/default/archive/main/amd64/promoted/1.0")).status, 200);
+
+      const missing = await apiRequest("POST", "/api/v1/packages/copy", {
+        body: { source, target: { distribution: "production" } },
+      });
+      assert.strictEqual(missing.status, 404);
+      const same = await apiRequest("POST", "/api/v1/packages/copy", { body: { source } });
+      assert.strictEqual(same.status, 400);
+    });
+
+    it("should bulk import a directory of packages", async () => {
+      const importDir = path.join(testDir, "import");
+      fs.mkdirSync(importDir);
+      fs.writeFileSync(path.join(importDir, "imported_3.0_all.deb"), buildDeb({ name: "imported", version: "3.0" }));
+
+      const relative = await apiRequest("POST", "/api/v1/import", { body: { path: "import" } });
+      assert.strictEqual(relative.status, 400);
+
+      const body = { path: importDir, repo: "test", distribution: "migrated" };
+      const dryRun = await apiRequest("POST", "/api/v1/import", { body: { ...body, dryRun: true } });
+      assert.strictEqual(dryRun.status, 200);
+      assert.strictEqual((dryRun.data as { imported: unknown[] }).imported.length, 1);
+      const packagesUrl = `${baseUrl}/apt/test/dists/migrated/main/binary-amd64/Packages`;
+      assert.doesNotMatch(await (await fetch(packagesUrl)).text(), /^Package: imported$/m);
+
+      const res = await apiRequest("POST", "/api/v1/import", { body });
+      assert.strictEqual(res.status, 200);
+      assert.match(await (await fetch(packagesUrl)).text(), /^Package: imported$/m);
+    });
+
+    it("should export a repo that matches what the apt routes serve", async () => {
+      const exportDir = path.join(testDir, "export");
+      const inRelease = await (await fetch(`${baseUrl}/apt/test/dists/migrated/InRelease`)).text();
+
+      const res = await apiRequest("POST", "/api/v1/export", { body: { repo: "test", path: exportDir } });
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual(fs.readFileSync(path.join(exportDir, "dists/migrated/InRelease"), "utf-8"), inRelease);
+      for (const rel of ["dists/migrated/main/binary-amd64/Packages", "pool/main/i/imported/imported_3.0_all.deb"]) {
+        const served = Buffer.from(await (await fetch(`${baseUrl}/apt/test/${rel}`)).arrayBuffer());
+        assert.ok(fs.readFileSync(path.join(exportDir, rel)).equals(served), rel);
+      }
+
+      const again = await apiRequest("POST", "/api/v1/export", { body: { repo: "test", path: exportDir } });
+      assert.deepStrictEqual((again.data as { written: string[] }).written, []);
+      const other = await apiRequest("POST", "/api/v1/export", { body: { repo: "default", path: exportDir } });
+      assert.strictEqual(other.status, 409);
+    });
+
+    it("should list packages newest Debian version first with sort=version", async () => {
+      for (const version of ["1.10", "1.0~rc1", "1.9"]) {
+        const res = await uploadDeb(buildDeb({ name: "ordered", version }), `ordered_${version}_all.deb`, {
+          distribution: "ordering",
+        });
+        assert.strictEqual(res.status, 201);
+      }
+
+      const res = await apiRequest("GET", "/api/v1/packages?name=ordered&sort=version&group=true");
+      assert.strictEqual(res.status, 200);
+      const data = res.data as { packages: { version: string }[]; groups: { newestVersion: string; versions: string[] }[] };
+      assert.deepStrictEqual(data.packages.map((p) => p.version), ["1.10", "1.9", "1.0~rc1"]);
+      assert.deepStrictEqual(data.groups, [{ name: "ordered", newestVersion: "1.10", versions: ["1.10", "1.9", "1.0~rc1"] }]);
+
+      const invalid = await apiRequest("GET", "/api/v1/packages?sort=uploadedAt");
+      assert.strictEqual(invalid.status, 400);
+    });
+
+    it("should resolve the latest version within constraints", async () => {
+      for (const version of ["2.10", "3.0~beta1", "2.9"]) {
+        const res = await uploadDeb(buildDeb({ name: "deployed", version }), `deployed_${version}_all.deb`);
+        assert.strictEqual(res.status, 201);
+      }
+      const base = `${baseUrl}/api/v1/packages/default/stable/main/all/deployed/latest`;
+      const headers = { "X-Api-Key": adminKey };
+
+      const latest = await fetch(base, { headers });
+      assert.strictEqual(latest.status, 200);
+      assert.strictEqual(latest.headers.get("x-package-version"), "3.0~beta1");
+      const metadata = await latest.json() as { version: string; sha256: string };
+      assert.strictEqual(latest.headers.get("x-checksum-sha256"), metadata.sha256);
+
+      const constrained = await fetch(`${base}/download?version=${encodeURIComponent(">=2.1,<<3")}`, { headers });
+      assert.strictEqual(constrained.status, 200);
+      assert.strictEqual(constrained.headers.get("x-package-version"), "2.10");
+      const deb = Buffer.from(await constrained.arrayBuffer());
+      assert.strictEqual(crypto.createHash("sha256").update(deb).digest("hex"), constrained.headers.get("x-checksum-sha256"));
+      assert.match(constrained.headers.get("content-disposition")!, /deployed_2\.10_all\.deb/);
+
+      assert.strictEqual((await fetch(`${base}?version=${encodeURIComponent(">=4")}`, { headers })).status, 404);
+      assert.strictEqual((await fetch(`${base}?version=${encodeURIComponent(">4")}`, { headers })).status, 400);
+    });
+
+    it("should check that uploaded dependencies can be satisfied", async () => {
+      const app = buildDeb({ name: "dep-app", version: "1.0", extraControl: { Depends: "libc6, libdep (>= 2.0)" } });
+      const refused = await uploadDeb(app, "dep-app_1.0_all.deb", { repo: "test", distribution: "checked" });
+      assert.strictEqual(refused.status, 409);
+      assert.deepStrictEqual((refused.data as { unsatisfied: string[] }).unsatisfied, ["Depends: libdep (>= 2.0)"]);
+
+      const lib = buildDeb({ name: "libdep", version: "2.0" });
+      assert.strictEqual((await uploadDeb(lib, "libdep_2.0_all.deb", { repo: "test", distribution: "checked" })).status, 201);
+      const accepted = await uploadDeb(app, "dep-app_1.0_all.deb", { repo: "test", distribution: "checked" });
+      assert.strictEqual(accepted.status, 201);
+      assert.strictEqual((accepted.data as { warnings?: string[] }).warnings, undefined);
+
+      const other = buildDeb({ name: "dep-other", version: "1.0", extraControl: { "Pre-Depends": "libnowhere" } });
+      const warned = await uploadDeb(other, "dep-other_1.0_all.deb", { repo: "test", distribution: "lenient" });
+      assert.strictEqual(warned.status, 201);
+      assert.deepStrictEqual((warned.data as { warnings: string[] }).warnings, ["Pre-Depends: libnowhere"]);
+
+      const promote = await apiRequest("POST", "/api/v1/packages/promote", {
+        body: {
+          source: { repo: "test", distribution: "lenient", component: "main", architecture: "all", name: "dep-other", version: "1.0" },
+          target: { distribution: "checked" },
+        },
+      });
+      assert.strictEqual(promote.status, 409);
+    });
+
+    it("should prune old versions on a retention run", async () => {
+      for (const version of ["1.0", "1.10", "1.9"]) {
+        const res = await uploadDeb(buildDeb({ name: "nightly", version }), `nightly_${version}_all.deb`, {
+          repo: "builds",
+        });
+        assert.strictEqual(res.status, 201);
+      }
+
+      const dryRun = await apiRequest("POST", "/api/v1/retention/run", { body: { repo: "builds", dryRun: true } });
+      assert.strictEqual(dryRun.status, 200);
+      const deleted = (dryRun.data as { deleted: { version: string }[] }).deleted;
+      assert.deepStrictEqual(deleted.map((e) => e.version).sort(), ["1.0", "1.9"]);
+
+      const res = await apiRequest("POST", "/api/v1/retention/run", { body: {} });
+      assert.strictEqual(res.status, 200);
+      const list = await apiRequest("GET", "/api/v1/packages?repo=builds");
+      assert.deepStrictEqual((list.data as { packages: { version: string }[] }).packages.map((p) => p.version), ["1.10"]);
+
+      const disabled = await apiRequest("POST", "/api/v1/retention/run", { body: { repo: "test" } });
+      assert.strictEqual(disabled.status, 409);
+    });
+
+    it("should mirror a remote archive through the apt routes", async () => {
+      const sha256 = (data: string) => crypto.createHash("sha256").update(data).digest("hex");
+      const packages =
+        "Package: hello\nVersion: 2.10-3\nFilename: pool/main/h/hello/hello_2.10-3_amd64.deb\n" +
+        `Size: 9\nSHA256: ${sha256("deb bytes")}\n`;
+      const contents = "usr/bin/hello main/hello\n";
+      upstreamFiles.set(
+        "/debian/dists/bookworm/Release",
+        "Codename: bookworm\nSHA256:\n" +
+          ` ${sha256(packages)} ${packages.length} main/binary-amd64/Packages\n` +
+          ` ${sha256(contents)} ${contents.length} main/Contents-amd64\n`
+      );
+      upstreamFiles.set("/debian/dists/bookworm/main/binary-amd64/Packages", packages);
+      upstreamFiles.set("/debian/dists/bookworm/main/Contents-amd64", contents);
+      upstreamFiles.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", "deb bytes");
+
+      const release = await fetch(`${baseUrl}/apt/mirror/dists/bookworm/Release`);
+      assert.strictEqual(release.status, 200);
+      assert.match(await release.text(), /^Codename: bookworm$/m);
+
+      const index = await fetch(`${baseUrl}/apt/mirror/dists/bookworm/main/binary-amd64/Packages`);
+      assert.strictEqual(await index.text(), packages);
+      assert.strictEqual(index.headers.get("etag"), `"${sha256(packages)}"`);
+      const listed = await fetch(`${baseUrl}/apt/mirror/dists/bookworm/main/Contents-amd64`);
+      assert.strictEqual(await listed.text(), contents);
+
+      upstreamFiles.delete("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb");
+      const miss = await fetch(`${baseUrl}/apt/mirror/pool/main/h/hello/hello_2.10-3_amd64.deb`);
+      assert.strictEqual(miss.status, 404);
+      upstreamFiles.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", "deb bytes");
+      const deb = await fetch(`${baseUrl}/apt/mirror/pool/main/h/hello/hello_2.10-3_amd64.deb`);
+      assert.strictEqual(deb.headers.get("content-type"), "application/vnd.debian.binary-package");
+      assert.strictEqual(await deb.text(), "deb bytes");
+
+      // Served from disk once fetched
+      upstreamFiles.clear();
+      const cached = await fetch(`${baseUrl}/apt/mirror/pool/main/h/hello/hello_2.10-3_amd64.deb`);
+      assert.strictEqual(await cached.text(), "deb bytes");
+
+      assert.strictEqual((await fetch(`${baseUrl}/apt/mirror/dists/trixie/Release`)).status, 404);
+      assert.strictEqual((await fetch(`${baseUrl}/apt/default/dists/stable/no/such/index`)).status, 404);
+
+      const upload = await uploadDeb(buildDeb({ name: "hello", version: "2.10-4" }), "hello_2.10-4_all.deb", {
+        repo: "mirror",
+      });
+      assert.strictEqual(upload.status, 409);
+    });
+
+    it("should not mint keys for unknown repos", async () => {
+      const res = await fetch(`${baseUrl}/apt/no-such-repo/key.gpg`);
+      assert.strictEqual(res.status, 404);
+    });
+  });
 });
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { poolDirectory, poolFilename, poolFiles, sourceName } from "../src/utils/pool.js";
+
+describe("pool layout", () => {
+  it("should use the first letter, or four for lib packages, as prefix", () => {
+    assert.strictEqual(poolDirectory("main", "hello"), "pool/main/h/hello");
+    assert.strictEqual(poolDirectory("main", "libfoo"), "pool/main/libf/libfoo");
+    assert.strictEqual(poolDirectory("contrib", "lib"), "pool/contrib/l/lib");
+  });
+
+  it("should drop the epoch from file names", () => {
+    assert.strictEqual(
+      poolFilename({ name: "hello", version: "1:2.0-1", architecture: "amd64" }),
+      "hello_2.0-1_amd64.deb"
+    );
+    assert.strictEqual(
+      poolFilename({ name: "hello-dbgsym", version: "2.0-1", architecture: "amd64", packageType: "ddeb" }),
+      "hello-dbgsym_2.0-1_amd64.ddeb"
+    );
+    assert.strictEqual(
+      poolFilename({ name: "hello-udeb", version: "2.0-1", architecture: "amd64", packageType: "udeb" }),
+      "hello-udeb_2.0-1_amd64.udeb"
+    );
+  });
+
+  it("should file binaries under their source package", () => {
+    assert.strictEqual(sourceName({ name: "libfoo1", source: "foo (1.2-1)" }), "foo");
+    assert.strictEqual(sourceName({ name: "hello" }), "hello");
+
+    const files = poolFiles({
+      name: "libfoo1",
+      version: "1:1.2-1+b1",
+      architecture: "arm64",
+      component: "main",
+      source: "foo (1.2-1)",
+      sha256: "abc",
+    });
+    assert.deepStrictEqual(files, [
+      { path: "pool/main/f/foo/libfoo1_1.2-1+b1_arm64.deb", name: "libfoo1_1.2-1+b1_arm64.deb", sha256: "abc" },
+    ]);
+  });
+
+  it("should list every file of a source package", () => {
+    const files = poolFiles({
+      name: "hello",
+      version: "1.0-1",
+      architecture: "source",
+      component: "main",
+      sha256: "dsc",
+      sourceFiles: [
+        { name: "hello_1.0-1.dsc", size: 1, md5: "m1", sha256: "dsc" },
+        { name: "hello_1.0.orig.tar.gz", size: 2, md5: "m2", sha256: "orig" },
+      ],
+    });
+    assert.deepStrictEqual(files.map((f) => f.path), [
+      "pool/main/h/hello/hello_1.0-1.dsc",
+      "pool/main/h/hello/hello_1.0.orig.tar.gz",
+    ]);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import http from "node:http";
+import crypto from "node:crypto";
+import { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import * as openpgp from "openpgp";
+import { Config, RemoteConfig, defaultConfig } from "../src/config.js";
+import { RemoteRepoService, parseReleaseChecksums } from "../src/services/remote.js";
+import { Logger } from "../src/utils/logger.js";
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+// A Release listing `indexes` (paths relative to dists/<suite>/)
+function makeRelease(indexes: Record<string, string | Buffer>): string {
+  const lines = Object.entries(indexes).map(
+    ([file, data]) => ` ${sha256(data)} ${Buffer.byteLength(data)} ${file}`
+  );
+  return `Suite: stable\nCodename: bookworm\nSHA256:\n${lines.join("\n")}\n`;
+}
+
+describe("RemoteRepoService", () => {
+  // Upstream stand-in: path → body, or an HTTP status to fail with
+  const upstream = new Map<string, string | Buffer | number>();
+  const hits = new Map<string, number>();
+  let down = false;
+  let server: http.Server;
+  let url: string;
+  let testDir: string;
+  let logDir: string;
+  let logger: Logger;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const reqPath = decodeURIComponent(req.url!);
+      hits.set(reqPath, (hits.get(reqPath) ?? 0) + 1);
+      const body = down ? 503 : upstream.get(reqPath) ?? 404;
+      if (typeof body === "number") {
+        res.writeHead(body).end();
+      } else {
+        res.writeHead(200).end(body);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/debian`;
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-log-"));
+    logger = new Logger(logDir);
+  });
+
+  after(() => {
+    server.close();
+    logger.close();
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-test-"));
+    upstream.clear();
+    down = false;
+    hits.clear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function service(remote: Partial<RemoteConfig> = {}): RemoteRepoService {
+    const config: Config = {
+      ...defaultConfig,
+      dataRoot: testDir,
+      repos: { mirror: { remote: { url, ...remote } } },
+    };
+    return new RemoteRepoService(config, logger);
+  }
+
+  const deb = "deb bytes";
+  const packages =
+    "Package: hello\nVersion: 2.10-3\nFilename: pool/main/h/hello/hello_2.10-3_amd64.deb\n" +
+    `Size: ${deb.length}\nSHA256: ${sha256(deb)}\n`;
+
+  it("should parse the SHA256 section of a Release", () => {
+    const checksums = parseReleaseChecksums(
+      `MD5Sum:\n 0123 5 main/binary-amd64/Packages\nSHA256:\n abcd 5 main/binary-amd64/Packages\n`
+    );
+    assert.deepStrictEqual([...checksums], [["main/binary-amd64/Packages", "abcd"]]);
+  });
+
+  it("should mirror indexes listed in Release and cache pool files", async () => {
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({ "main/binary-amd64/Packages": packages }));
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages", packages);
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Unlisted", "x");
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", deb);
+    const remote = service();
+
+    assert.strictEqual(remote.isRemote("mirror"), true);
+    assert.strictEqual(remote.isRemote("default"), false);
+
+    const release = (await remote.getDistsFile("mirror", "bookworm", "Release"))!;
+    assert.match(fs.readFileSync(release.path, "utf-8"), /^Codename: bookworm$/m);
+    assert.strictEqual(await remote.getDistsFile("mirror", "bookworm", "InRelease"), null);
+
+    const index = (await remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"))!;
+    assert.strictEqual(fs.readFileSync(index.path, "utf-8"), packages);
+    assert.strictEqual(index.sha256, sha256(packages));
+    const byHash = `main/binary-amd64/by-hash/SHA256/${sha256(packages)}`;
+    upstream.set(`/debian/dists/bookworm/${byHash}`, packages);
+    assert.ok(await remote.getDistsFile("mirror", "bookworm", byHash));
+    assert.strictEqual(await remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Unlisted"), null);
+    assert.strictEqual(await remote.getDistsFile("mirror", "trixie", "Release"), null);
+
+    for (let i = 0; i < 2; i++) {
+      const file = (await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3_amd64.deb"))!;
+      assert.strictEqual(fs.readFileSync(file.path, "utf-8"), deb);
+    }
+    assert.strictEqual(hits.get("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb"), 1);
+    assert.strictEqual(hits.get("/debian/dists/bookworm/Release"), 1);
+    assert.strictEqual(await remote.getPoolFile("mirror", "main/h/hello/missing.deb"), null);
+  });
+
+  it("should only serve configured suites", async () => {
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({}));
+    const remote = service({ suites: ["trixie"] });
+
+    assert.strictEqual(await remote.getDistsFile("mirror", "bookworm", "Release"), null);
+    assert.strictEqual(hits.size, 0);
+  });
+
+  it("should refuse an index that does not match Release", async () => {
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({ "main/binary-amd64/Packages": packages }));
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages", "Package: tampered\n");
+    const remote = service();
+
+    await assert.rejects(remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"));
+    assert.ok(!fs.existsSync(path.join(testDir, "mirror/.remote/dists/bookworm/main/binary-amd64/Packages")));
+  });
+
+  it("should only cache pool files that match a cached index", async () => {
+    const sources =
+      "Package: hello\nDirectory: pool/main/h/hello\nChecksums-Sha256:\n" +
+      ` ${sha256("dsc")} 3 hello_2.10-3.dsc\n`;
+    const gzipped = gzipSync(packages);
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({
+      "main/binary-amd64/Packages.gz": gzipped,
+      "main/source/Sources": sources,
+    }));
+    upstream.set(`/debian/dists/bookworm/main/binary-amd64/by-hash/SHA256/${sha256(gzipped)}`, gzipped);
+    upstream.set("/debian/dists/bookworm/main/source/Sources", sources);
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", "tampered");
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3.dsc", "dsc");
+    upstream.set("/debian/pool/main/h/hello/unlisted.deb", "deb bytes");
+    const remote = service();
+
+    // No Release fetched yet, so no suite to look in
+    assert.strictEqual(await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3.dsc"), null);
+
+    await remote.getDistsFile("mirror", "bookworm", `main/binary-amd64/by-hash/SHA256/${sha256(gzipped)}`);
+    await remote.getDistsFile("mirror", "bookworm", "main/source/Sources");
+    assert.ok(await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3.dsc"));
+    assert.strictEqual(await remote.getPoolFile("mirror", "main/h/hello/unlisted.deb"), null);
+    assert.strictEqual(hits.get("/debian/pool/main/h/hello/unlisted.deb"), undefined);
+
+    await assert.rejects(remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3_amd64.deb"));
+    assert.ok(!fs.existsSync(path.join(testDir, "mirror/.remote/pool/main/h/hello/hello_2.10-3_amd64.deb")));
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", deb);
+    assert.ok(await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3_amd64.deb"));
+  });
+
+  it("should fetch the index listing a pool file on demand", async () => {
+    const armDeb = "arm deb bytes";
+    const armPackages =
+      "Package: hello\nVersion: 2.10-3\nFilename: pool/main/h/hello/hello_2.10-3_arm64.deb\n" +
+      `Size: ${armDeb.length}\nSHA256: ${sha256(armDeb)}\n`;
+    const gzipped = gzipSync(packages);
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({
+      "main/binary-amd64/Packages": packages,
+      "main/binary-amd64/Packages.gz": gzipped,
+      "main/binary-arm64/Packages": armPackages,
+      "main/source/Sources": "",
+    }));
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages.gz", gzipped);
+    upstream.set("/debian/dists/bookworm/main/binary-arm64/Packages", "Package: tampered\n");
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3_amd64.deb", deb);
+    upstream.set("/debian/pool/main/h/hello/hello_2.10-3_arm64.deb", armDeb);
+    const remote = service({ suites: ["bookworm"] });
+
+    // No client has fetched Release or an index through the mirror
+    const file = (await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3_amd64.deb"))!;
+    assert.strictEqual(fs.readFileSync(file.path, "utf-8"), deb);
+    assert.strictEqual(hits.get("/debian/dists/bookworm/main/binary-amd64/Packages.gz"), 1);
+    assert.strictEqual(hits.get("/debian/dists/bookworm/main/binary-amd64/Packages"), undefined);
+    assert.strictEqual(hits.get("/debian/dists/bookworm/main/source/Sources"), undefined);
+
+    // An index that does not match Release lists nothing
+    assert.strictEqual(await remote.getPoolFile("mirror", "main/h/hello/hello_2.10-3_arm64.deb"), null);
+    assert.strictEqual(hits.get("/debian/pool/main/h/hello/hello_2.10-3_arm64.deb"), undefined);
+  });
+
+  it("should recheck Release after the TTL and fall back to the cache when upstream is down", async () => {
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({ "main/binary-amd64/Packages": packages }));
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages", packages);
+    const remote = service({ ttlSeconds: 0 });
+
+    await remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages");
+
+    // A new Release means a new index
+    const updated = packages + "\nPackage: hello-traditional\nVersion: 2.10-3\n";
+    upstream.set("/debian/dists/bookworm/Release", makeRelease({ "main/binary-amd64/Packages": updated }));
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages", updated);
+    const index = (await remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"))!;
+    assert.strictEqual(fs.readFileSync(index.path, "utf-8"), updated);
+    assert.strictEqual(hits.get("/debian/dists/bookworm/Release"), 2);
+
+    // Upstream outage: the last Release and its indexes are still served
+    down = true;
+    const release = (await remote.getDistsFile("mirror", "bookworm", "Release"))!;
+    assert.match(fs.readFileSync(release.path, "utf-8"), new RegExp(sha256(updated)));
+    assert.ok(await remote.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"));
+
+    // A fresh service (a restart) has only the disk cache to go on
+    const restarted = service({ ttlSeconds: 0 });
+    assert.ok(await restarted.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"));
+
+    // Nothing cached: the outage is an error
+    await assert.rejects(restarted.getPoolFile("mirror", "main/h/hello/hello_2.10-3_amd64.deb"));
+    await assert.rejects(restarted.getDistsFile("mirror", "trixie", "Release"));
+  });
+
+  it("should only accept a Release signed by the keyring", async () => {
+    const { privateKey, publicKey } = await openpgp.generateKey({
+      userIDs: [{ name: "Upstream" }],
+      format: "object",
+    });
+    const other = await openpgp.generateKey({ userIDs: [{ name: "Other" }], format: "object" });
+    const keyring = path.join(testDir, "upstream.gpg");
+    fs.writeFileSync(keyring, publicKey.write());
+    const otherKeyring = path.join(testDir, "other.asc");
+    fs.writeFileSync(otherKeyring, other.publicKey.armor());
+
+    const release = makeRelease({ "main/binary-amd64/Packages": packages });
+    const inRelease = await openpgp.sign({
+      message: await openpgp.createCleartextMessage({ text: release }),
+      signingKeys: privateKey,
+    });
+    upstream.set("/debian/dists/bookworm/InRelease", inRelease);
+    upstream.set("/debian/dists/bookworm/main/binary-amd64/Packages", packages);
+
+    const untrusted = service({ keyring: otherKeyring });
+    await assert.rejects(untrusted.getDistsFile("mirror", "bookworm", "InRelease"));
+    assert.ok(!fs.existsSync(path.join(testDir, "mirror/.remote/dists/bookworm/InRelease")));
+
+    // A Release.gpg that does not verify is not served next to InRelease
+    upstream.set("/debian/dists/bookworm/Release", release);
+    upstream.set(
+      "/debian/dists/bookworm/Release.gpg",
+      await openpgp.sign({
+        message: await openpgp.createMessage({ text: release }),
+        signingKeys: other.privateKey,
+        detached: true,
+      })
+    );
+    const trusted = service({ keyring });
+    const file = (await trusted.getDistsFile("mirror", "bookworm", "InRelease"))!;
+    assert.strictEqual(fs.readFileSync(file.path, "utf-8"), inRelease);
+    assert.ok(await trusted.getDistsFile("mirror", "bookworm", "main/binary-amd64/Packages"));
+    assert.strictEqual(await trusted.getDistsFile("mirror", "bookworm", "Release"), null);
+    assert.strictEqual(await trusted.getDistsFile("mirror", "bookworm", "Release.gpg"), null);
+
+    // Release + Release.gpg, as older archives publish
+    upstream.delete("/debian/dists/bookworm/InRelease");
+    const detached = service({ keyring, ttlSeconds: 0 });
+    fs.rmSync(path.join(testDir, "mirror/.remote"), { recursive: true });
+    await assert.rejects(detached.getDistsFile("mirror", "bookworm", "Release"));
+  });
+});
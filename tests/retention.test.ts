@@ -0,0 +1,151 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { StorageService, PackageLocation } from "../src/services/storage.js";
+import { SnapshotService } from "../src/services/snapshots.js";
+import { RetentionService } from "../src/services/retention.js";
+import { Config, RetentionConfig, RepoConfig, defaultConfig } from "../src/config.js";
+import { Logger } from "../src/utils/logger.js";
+import { compareVersions } from "../src/utils/debian-version.js";
+import { buildDeb } from "./fixtures.js";
+
+describe("RetentionService", () => {
+  let testDir: string;
+  let storage: StorageService;
+  let snapshots: SnapshotService;
+  let logger: Logger;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-retention-"));
+    storage = new StorageService(path.join(testDir, "data"));
+    snapshots = new SnapshotService(path.join(testDir, "data"), storage);
+    logger = new Logger(path.join(testDir, "logs"));
+  });
+
+  afterEach(() => {
+    logger.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function retentionService(retention: RetentionConfig, repos: Record<string, RepoConfig> = {}): RetentionService {
+    const config: Config = { ...defaultConfig, dataRoot: path.join(testDir, "data"), retention, repos };
+    return new RetentionService(storage, snapshots, logger, config);
+  }
+
+  const nightly: PackageLocation = {
+    repo: "default",
+    distribution: "nightly",
+    component: "main",
+    architecture: "amd64",
+    name: "app",
+    version: "1.0",
+  };
+
+  async function store(versions: string[], loc: Partial<PackageLocation> = {}): Promise<void> {
+    for (const version of versions) {
+      const pkg = { ...nightly, ...loc, version };
+      await storage.storePackage(pkg, buildDeb({ name: pkg.name, version, architecture: pkg.architecture }), "test-key");
+    }
+  }
+
+  function versions(loc: Partial<PackageLocation> = {}): string[] {
+    return storage
+      .listPackages({ ...nightly, ...loc, version: undefined })
+      .map((p) => p.version)
+      .sort(compareVersions);
+  }
+
+  it("should keep the newest N versions in Debian version order", async () => {
+    // Uploaded out of order: 1.0~rc1 is older than 1.0, 1.10 newer than 1.9
+    await store(["1.10", "1.0", "1.9", "1.0~rc1", "1:0.1"]);
+    await store(["1.0"], { architecture: "arm64" });
+    const retention = retentionService({ enabled: true, keepLastN: 2 });
+
+    const dryRun = retention.run({ dryRun: true }, { keyId: "admin" });
+    assert.deepStrictEqual(dryRun.deleted.map((e) => e.version).sort(compareVersions), ["1.0~rc1", "1.0", "1.9"]);
+    assert.ok(dryRun.deleted.every((e) => e.reason === "keepLastN"));
+    assert.strictEqual(versions().length, 5);
+
+    const report = retention.run({}, { keyId: "admin" });
+    assert.strictEqual(report.deleted.length, 3);
+    assert.deepStrictEqual(versions(), ["1.10", "1:0.1"]);
+    assert.deepStrictEqual(versions({ architecture: "arm64" }), ["1.0"]);
+  });
+
+  it("should prune by age but always keep the newest version", async () => {
+    await store(["1", "2", "3"]);
+    const retention = retentionService({ enabled: true, maxAgeDays: 30 });
+
+    assert.deepStrictEqual(retention.plan("default").prune, []);
+    const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    const plan = retention.plan("default", later);
+    assert.deepStrictEqual(plan.prune.map((e) => `${e.version}: ${e.reason}`).sort(), ["1: maxAgeDays", "2: maxAgeDays"]);
+  });
+
+  it("should skip protected versions and versions held by snapshots", async () => {
+    await store(["1", "2"]);
+    await store(["1", "2"], { name: "pinned" });
+    snapshots.create("default", "nightly", "release-1", "test-key");
+    await store(["3", "4", "5"]);
+    const retention = retentionService({ enabled: true, keepLastN: 1, protectedVersions: ["app=2", "pinned"] });
+
+    const report = retention.run({}, { keyId: "admin" });
+    assert.deepStrictEqual(report.deleted.map((e) => e.version).sort(), ["3", "4"]);
+    assert.deepStrictEqual(
+      report.protected.map((e) => `${e.name}=${e.version}: ${e.reason}`).sort(),
+      [
+        "app=1: Referenced by snapshots: release-1",
+        "app=2: Protected version",
+        "pinned=1: Protected version",
+      ]
+    );
+  });
+
+  it("should apply per-repo overrides", async () => {
+    await store(["1", "2", "3"]);
+    await store(["1", "2", "3"], { repo: "builds" });
+    const retention = retentionService(
+      { enabled: false, keepLastN: 2 },
+      { builds: { retention: { enabled: true, keepLastN: 1 } } }
+    );
+
+    assert.ok(!retention.isEnabled("default"));
+    const report = retention.run({}, { keyId: "admin" });
+    assert.deepStrictEqual(report.deleted.map((e) => `${e.repo}/${e.version}`).sort(), ["builds/1", "builds/2"]);
+    assert.deepStrictEqual(versions(), ["1", "2", "3"]);
+  });
+
+  it("should schedule runs on a fresh install with global retention", async () => {
+    const retention = retentionService({ enabled: true, keepLastN: 1, intervalHours: 0.05 / 3600 });
+    retention.start();
+    try {
+      // Packages arrive after the scheduler started
+      await store(["1", "2"]);
+      await new Promise((r) => setTimeout(r, 200));
+      assert.deepStrictEqual(versions(), ["2"]);
+    } finally {
+      retention.stop();
+    }
+  });
+
+  it("should not run continuously for an interval setInterval can't take", async () => {
+    for (const intervalHours of [1000, 0, -1, NaN]) {
+      for (const pkg of storage.listPackages({})) storage.deletePackage(pkg);
+      await store(["1", "2"]);
+      const retention = retentionService({ enabled: true, keepLastN: 1, intervalHours });
+      retention.start();
+      try {
+        // The first run is immediate; the next not for hours
+        await new Promise((r) => setTimeout(r, 50));
+        assert.deepStrictEqual(versions(), ["2"]);
+        await store(["3"]);
+        await new Promise((r) => setTimeout(r, 100));
+        assert.deepStrictEqual(versions(), ["2", "3"], `intervalHours: ${intervalHours}`);
+      } finally {
+        retention.stop();
+      }
+    }
+  });
+});
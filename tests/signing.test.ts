@@ -0,0 +1,114 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import * as openpgp from "openpgp";
+import { SigningService } from "../src/services/signing.js";
+
+describe("SigningService", () => {
+  let testDir: string;
+  let keyDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-signing-"));
+    keyDir = path.join(testDir, "keys");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const release = "Origin: Pository\nSuite: stable\nDate: Mon, 19 Oct 2026 00:00:00 GMT\n";
+
+  async function readPublicKey(signing: SigningService, repo: string) {
+    const armoredKey = await signing.getPublicKey(repo, true);
+    return openpgp.readKey({ armoredKey });
+  }
+
+  it("should generate and persist a key per repo", async () => {
+    const signing = new SigningService(keyDir);
+    const key = await readPublicKey(signing, "default");
+
+    assert.ok(fs.existsSync(path.join(keyDir, "default.asc")));
+
+    // A fresh service instance must reuse the stored key
+    const reloaded = await readPublicKey(new SigningService(keyDir), "default");
+    assert.strictEqual(reloaded.getFingerprint(), key.getFingerprint());
+
+    const other = await readPublicKey(signing, "other");
+    assert.notStrictEqual(other.getFingerprint(), key.getFingerprint());
+  });
+
+  it("should clearsign Release content", async () => {
+    const signing = new SigningService(keyDir);
+    const inRelease = await signing.clearsign("default", release);
+    assert.ok(inRelease.startsWith("-----BEGIN PGP SIGNED MESSAGE-----"));
+
+    const message = await openpgp.readCleartextMessage({ cleartextMessage: inRelease });
+    const result = await openpgp.verify({
+      message,
+      verificationKeys: await readPublicKey(signing, "default"),
+    });
+    await result.signatures[0].verified;
+    assert.strictEqual(result.data.trimEnd(), release.trimEnd());
+  });
+
+  it("should produce a detached signature over the exact bytes", async () => {
+    const signing = new SigningService(keyDir);
+    const armoredSignature = await signing.detachSign("default", release);
+
+    const result = await openpgp.verify({
+      message: await openpgp.createMessage({ binary: Buffer.from(release) }),
+      signature: await openpgp.readSignature({ armoredSignature }),
+      verificationKeys: await readPublicKey(signing, "default"),
+    });
+    await result.signatures[0].verified;
+
+    const tampered = await openpgp.verify({
+      message: await openpgp.createMessage({ binary: Buffer.from(release + "x") }),
+      signature: await openpgp.readSignature({ armoredSignature }),
+      verificationKeys: await readPublicKey(signing, "default"),
+    });
+    await assert.rejects(tampered.signatures[0].verified);
+  });
+
+  it("should sign with an imported passphrase-protected key", async () => {
+    const { privateKey, publicKey } = await openpgp.generateKey({
+      type: "ecc",
+      curve: "ed25519Legacy",
+      userIDs: [{ name: "Imported" }],
+      passphrase: "hunter2",
+      format: "armored",
+    });
+    const keyFile = path.join(testDir, "imported.asc");
+    fs.writeFileSync(keyFile, privateKey);
+
+    const signing = new SigningService(keyDir, {
+      default: { signingKeyFile: keyFile, signingKeyPassphrase: "hunter2" },
+    });
+    const served = await readPublicKey(signing, "default");
+    const expected = await openpgp.readKey({ armoredKey: publicKey });
+    assert.strictEqual(served.getFingerprint(), expected.getFingerprint());
+    assert.ok(!fs.existsSync(path.join(keyDir, "default.asc")));
+
+    const binary = await signing.getPublicKey("default", false);
+    const fromBinary = await openpgp.readKey({ binaryKey: binary });
+    assert.strictEqual(fromBinary.getFingerprint(), expected.getFingerprint());
+  });
+
+  it("should reject a protected key without a passphrase", async () => {
+    const { privateKey } = await openpgp.generateKey({
+      type: "ecc",
+      curve: "ed25519Legacy",
+      userIDs: [{ name: "Imported" }],
+      passphrase: "hunter2",
+      format: "armored",
+    });
+    const keyFile = path.join(testDir, "imported.asc");
+    fs.writeFileSync(keyFile, privateKey);
+
+    const signing = new SigningService(keyDir, { default: { signingKeyFile: keyFile } });
+    await assert.rejects(signing.clearsign("default", release), /passphrase/);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { StorageService, PackageLocation } from "../src/services/storage.js";
+import { SnapshotService, diffPackages } from "../src/services/snapshots.js";
+
+describe("SnapshotService", () => {
+  let storage: StorageService;
+  let snapshots: SnapshotService;
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "pository-test-"));
+    storage = new StorageService(testDir);
+    snapshots = new SnapshotService(testDir, storage);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const testLoc: PackageLocation = {
+    repo: "default",
+    distribution: "stable",
+    component: "main",
+    architecture: "amd64",
+    name: "test-pkg",
+    version: "1.0.0",
+  };
+
+  it("should freeze the package set of one distribution", async () => {
+    await storage.storePackage(testLoc, Buffer.from("one"), "test-key");
+    await storage.storePackage({ ...testLoc, distribution: "unstable" }, Buffer.from("two"), "test-key");
+
+    const snapshot = snapshots.create("default", "stable", "before", "test-key");
+    await storage.storePackage({ ...testLoc, version: "2.0.0" }, Buffer.from("three"), "test-key");
+
+    const stored = snapshots.get("default", "before")!;
+    assert.deepStrictEqual(stored, snapshot);
+    assert.deepStrictEqual(stored.packages.map((p) => `${p.distribution}/${p.version}`), ["stable/1.0.0"]);
+
+    const [summary] = snapshots.list();
+    assert.strictEqual(summary.name, "before");
+    assert.strictEqual(summary.packageCount, 1);
+    assert.ok(!("packages" in summary));
+  });
+
+  it("should report which snapshots reference a package", async () => {
+    await storage.storePackage(testLoc, Buffer.from("one"), "test-key");
+    snapshots.create("default", "stable", "a", "test-key");
+    snapshots.create("default", "stable", "b", "test-key");
+
+    assert.deepStrictEqual(snapshots.referencing(testLoc).sort(), ["a", "b"]);
+    assert.deepStrictEqual(snapshots.referencing({ ...testLoc, version: "2.0.0" }), []);
+
+    assert.strictEqual(snapshots.delete("default", "a"), true);
+    assert.strictEqual(snapshots.delete("default", "a"), false);
+    assert.deepStrictEqual(snapshots.referencing(testLoc), ["b"]);
+    snapshots.create("default", "stable", "c", "test-key");
+    assert.deepStrictEqual(snapshots.referencing(testLoc).sort(), ["b", "c"]);
+
+    // A restart reads them back from disk
+    const restarted = new SnapshotService(testDir, storage);
+    assert.deepStrictEqual(restarted.referencing(testLoc).sort(), ["b", "c"]);
+    assert.deepStrictEqual(restarted.get("default", "b"), snapshots.get("default", "b"));
+  });
+
+  it("should diff package sets", async () => {
+    const kept = await storage.storePackage(testLoc, Buffer.from("one"), "test-key");
+    const removed = await storage.storePackage({ ...testLoc, name: "old" }, Buffer.from("two"), "test-key");
+    const replaced = await storage.storePackage({ ...testLoc, name: "rebuilt" }, Buffer.from("three"), "test-key");
+    const added = await storage.storePackage({ ...testLoc, version: "2.0.0" }, Buffer.from("four"), "test-key");
+
+    const diff = diffPackages(
+      [kept, removed, replaced],
+      [kept, { ...replaced, sha256: "0".repeat(64) }, added]
+    );
+    const entry = { component: "main", architecture: "amd64" };
+    assert.deepStrictEqual(diff.added, [{ ...entry, name: "test-pkg", version: "2.0.0" }]);
+    assert.deepStrictEqual(diff.removed, [{ ...entry, name: "old", version: "1.0.0" }]);
+    assert.deepStrictEqual(diff.changed, [{ ...entry, name: "rebuilt", version: "1.0.0" }]);
+  });
+});
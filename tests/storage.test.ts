@@ -4,6 +4,7 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { StorageService, PackageLocation } from "../src/services/storage.js";
+import { buildDeb, buildElf } from "./fixtures.js";
 
 describe("StorageService", () => {
   let storage: StorageService;
@@ -37,6 +38,7 @@ describe("StorageService", () => {
     assert.strictEqual(metadata.architecture, testLoc.architecture);
     assert.strictEqual(metadata.size, testBuffer.length);
     assert.ok(metadata.sha256);
+    assert.ok(metadata.md5);
     assert.ok(metadata.uploadedAt);
   });
 
@@ -103,6 +105,111 @@ describe("StorageService", () => {
     assert.strictEqual(metadata?.size, newBuffer.length);
   });
 
+  it("should keep a staged rollout when a version is re-uploaded", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key");
+    const phasing = { percentage: 20, updatedAt: new Date().toISOString() };
+    storage.setPhasing(testLoc, phasing);
+
+    const replaced = await storage.storePackage(testLoc, Buffer.from("rebuilt"), "test-key");
+    assert.deepStrictEqual(replaced.phasing, phasing);
+    assert.deepStrictEqual(storage.getPackageMetadata(testLoc)?.phasing, phasing);
+    assert.deepStrictEqual(storage.listPackages({})[0].phasing, phasing);
+  });
+
+  it("should track when a distribution last changed", async () => {
+    assert.strictEqual(storage.getLastModified("default", "stable"), null);
+
+    await storage.storePackage(testLoc, testBuffer, "test-key");
+    const stored = storage.getLastModified("default", "stable");
+    assert.ok(stored);
+
+    storage.deletePackage(testLoc);
+    const deleted = storage.getLastModified("default", "stable");
+    assert.ok(deleted && deleted > stored);
+  });
+
+  it("should record an empty file list for a package dpkg-deb can't list", async () => {
+    await storage.storePackage(testLoc, testBuffer, "test-key");
+    const contentsPath = path.join(path.dirname(storage.getPackageFile(testLoc)!), "contents.txt");
+    assert.strictEqual(fs.readFileSync(contentsPath, "utf-8"), "");
+    assert.deepStrictEqual(storage.getPackageContents(testLoc), []);
+
+    // Missing (stored before file lists were): listed once, then recorded
+    fs.rmSync(contentsPath);
+    assert.deepStrictEqual(storage.getPackageContents(testLoc), []);
+    assert.strictEqual(fs.readFileSync(contentsPath, "utf-8"), "");
+  });
+
+  it("should copy a package without copying its file", async () => {
+    const original = await storage.storePackage(testLoc, testBuffer, "test-key");
+    storage.setPhasing(testLoc, { percentage: 10, updatedAt: new Date().toISOString() });
+    const target = { ...testLoc, distribution: "unstable" };
+
+    const copy = storage.copyPackage(testLoc, target)!;
+    assert.strictEqual(copy.distribution, "unstable");
+    assert.strictEqual(copy.sha256, original.sha256);
+    assert.strictEqual(copy.uploaderKeyId, "test-key");
+    assert.strictEqual(copy.phasing, undefined);
+    assert.deepStrictEqual(storage.listPackages({ distribution: "unstable" }), [copy]);
+    assert.strictEqual(
+      fs.statSync(storage.getPackageFile(target)!).ino,
+      fs.statSync(storage.getPackageFile(testLoc)!).ino
+    );
+
+    // Replacing one must leave the other alone
+    await storage.storePackage(testLoc, Buffer.from("rebuilt"), "test-key");
+    assert.ok(fs.readFileSync(storage.getPackageFile(target)!).equals(testBuffer));
+
+    assert.strictEqual(storage.copyPackage({ ...testLoc, version: "9.9" }, target), null);
+  });
+
+  it("should find build-ids through ddebs and stream single files", async () => {
+    const buildId = "0123456789abcdef0123456789abcdef01234567";
+    const executable = buildElf(buildId);
+    const debugPath = `usr/lib/debug/.build-id/01/${buildId.substring(2)}.debug`;
+
+    const binary = await storage.storePackage(
+      testLoc,
+      buildDeb({
+        name: testLoc.name,
+        version: testLoc.version,
+        architecture: testLoc.architecture,
+        files: [
+          { name: "./usr/share/doc/test-pkg/README", content: Buffer.from("readme") },
+          { name: "./usr/bin/test-pkg", content: executable },
+        ],
+      }),
+      "test-key"
+    );
+    assert.strictEqual(binary.buildIds, undefined);
+
+    const ddebLoc = { ...testLoc, name: "test-pkg-dbgsym" };
+    const ddeb = await storage.storePackage(
+      ddebLoc,
+      buildDeb({
+        name: ddebLoc.name,
+        version: ddebLoc.version,
+        architecture: ddebLoc.architecture,
+        extraControl: { "Package-Type": "ddeb" },
+        files: [{ name: `./${debugPath}`, content: executable }],
+      }),
+      "test-key"
+    );
+    assert.deepStrictEqual(ddeb.buildIds, { [buildId]: debugPath });
+    assert.deepStrictEqual(storage.findByBuildId(buildId).map((p) => p.name), ["test-pkg-dbgsym"]);
+
+    const readme = await storage.readPackageDataFile(testLoc, "usr/share/doc/test-pkg/README");
+    assert.strictEqual(readme?.toString(), "readme");
+    assert.strictEqual(await storage.readPackageDataFile(testLoc, "usr/bin/missing"), null);
+
+    const found = await storage.findExecutable(testLoc, buildId);
+    assert.strictEqual(found?.path, "usr/bin/test-pkg");
+    assert.ok(found.data.equals(executable));
+
+    storage.deletePackage(ddebLoc);
+    assert.deepStrictEqual(storage.findByBuildId(buildId), []);
+  });
+
   it("should get storage stats", async () => {
     await storage.storePackage(testLoc, testBuffer, "test-key");
 